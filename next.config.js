@@ -1,6 +1,10 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   reactStrictMode: true,
+  experimental: {
+    // Braintree's SDK is CommonJS with dynamic requires; load it from node_modules at runtime
+    serverComponentsExternalPackages: ["braintree"],
+  },
 }
 
 module.exports = nextConfig
@@ -0,0 +1,41 @@
+/**
+ * Load FX rates into the fx_rates table from an ECB-format CSV file
+ *
+ * Usage:
+ *   npm run fx:load -- ./eurofxref-hist.csv
+ *
+ * Accepts both the daily file (eurofxref.csv) and the full history
+ * (eurofxref-hist.csv) from https://www.ecb.europa.eu/stats/eurofxref/
+ * Rates are "units per 1 EUR"; re-loading the same file is safe (upsert).
+ * Then fills the reporting columns of metrics already in REPORTING_CURRENCY.
+ */
+
+import { readFile } from "node:fs/promises";
+import { parseEcbCsv, REPORTING_CURRENCY } from "../src/lib/metrics/fx";
+import { backfillReportingMetrics, upsertFxRates } from "../src/lib/supabase/queries";
+
+async function main() {
+  const [path, source = "ecb"] = process.argv.slice(2);
+  if (!path) {
+    console.error("Usage: npm run fx:load -- <path-to-csv> [source]");
+    process.exit(1);
+  }
+
+  const rows = parseEcbCsv(await readFile(path, "utf8"));
+  if (rows.length === 0) {
+    console.error(`No rates found in ${path}`);
+    process.exit(1);
+  }
+
+  const written = await upsertFxRates(rows, source);
+  const dates = rows.map((row) => row.rate_date).sort();
+  console.log(`Loaded ${written} rates (${dates[0]} to ${dates[dates.length - 1]}) from ${path}`);
+
+  const backfilled = await backfillReportingMetrics();
+  console.log(`Filled reporting columns (${REPORTING_CURRENCY}) of ${backfilled} metrics rows`);
+}
+
+main().catch((error) => {
+  console.error("Failed to load FX rates:", error.message || error);
+  process.exit(1);
+});
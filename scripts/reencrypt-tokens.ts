@@ -0,0 +1,84 @@
+/**
+ * Re-encrypt provider_tokens under the current master key
+ *
+ * Usage:
+ *   npm run tokens:reencrypt             # re-encrypt every row not on the current key
+ *   npm run tokens:reencrypt -- --dry-run
+ *
+ * Run after adding a new key at the front of TOKEN_ENCRYPTION_KEYS (rotation) and after
+ * enabling encryption (plaintext rows). Encrypted rows only get their data key re-wrapped.
+ * Once a run re-encrypts nothing and nothing fails, the old key can be removed from
+ * TOKEN_ENCRYPTION_KEYS.
+ *
+ * Safe to run while syncs are running: each row is swapped only if its access token is
+ * unchanged, so a token refreshed in the meantime is left alone (it already uses the new key).
+ */
+
+import { supabaseAdmin } from "../src/lib/supabase/server";
+import { currentKeyId, reencryptTokens } from "../src/lib/providers/encryption";
+
+const PAGE_SIZE = 1000;
+
+async function main() {
+  const dryRun = process.argv.includes("--dry-run");
+  const keyId = currentKeyId();
+
+  let pending = 0;
+  let reencrypted = 0;
+  const failed: string[] = [];
+
+  // Keyset paging: rows drop out of the key filter as they are re-encrypted
+  let lastConnectionId: string | null = null;
+  for (;;) {
+    let query = supabaseAdmin
+      .from("provider_tokens")
+      .select("provider_connection_id, access_token, refresh_token, key_id, data_key")
+      .or(`key_id.is.null,key_id.neq.${keyId}`)
+      .order("provider_connection_id")
+      .limit(PAGE_SIZE);
+    if (lastConnectionId) query = query.gt("provider_connection_id", lastConnectionId);
+
+    const { data, error } = await query;
+    if (error) throw new Error(`Failed to load provider tokens: ${error.message}`);
+    if (!data || data.length === 0) break;
+
+    for (const row of data) {
+      const connectionId = row.provider_connection_id;
+      try {
+        const update = reencryptTokens(connectionId, row);
+        if (!update) continue;
+        pending++;
+        if (dryRun) continue;
+
+        const { data: updated, error: updateError } = await supabaseAdmin
+          .from("provider_tokens")
+          .update(update)
+          .eq("provider_connection_id", connectionId)
+          .eq("access_token", row.access_token)
+          .select("provider_connection_id");
+
+        if (updateError) throw new Error(updateError.message);
+        if (updated?.length) reencrypted++;
+      } catch (error: any) {
+        console.error(`Connection ${connectionId}:`, error.message || error);
+        failed.push(connectionId);
+      }
+    }
+
+    lastConnectionId = data[data.length - 1].provider_connection_id;
+    if (data.length < PAGE_SIZE) break;
+  }
+
+  console.log(
+    dryRun
+      ? `${pending} rows would be re-encrypted under key "${keyId}" (${failed.length} unreadable)`
+      : `Re-encrypted ${reencrypted} rows under key "${keyId}", ${failed.length} failed`
+  );
+
+  if (failed.length > 0) process.exit(1);
+}
+
+main().catch((error) => {
+  console.error("Failed to re-encrypt provider tokens:", error.message || error);
+  process.exit(1);
+});
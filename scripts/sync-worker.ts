@@ -0,0 +1,49 @@
+/**
+ * Run the sync job worker locally
+ *
+ * Usage:
+ *   npm run sync:worker                       # drain due jobs
+ *   npm run sync:worker -- --enqueue          # queue every connection first
+ *   npm run sync:worker -- --enqueue --full   # ...as full reconciliations
+ *   npm run sync:worker -- --enqueue --startup <id>   # queue one startup's connections
+ *   npm run sync:worker -- --concurrency 5 --max-jobs 20
+ *
+ * Uses the same sync_jobs queue as /api/cron/sync-metrics, so it is safe to run
+ * while the cron route is working (jobs are claimed with SKIP LOCKED).
+ */
+
+import { enqueueSyncJobs, runSyncWorker } from "../src/lib/metrics/queue";
+
+function flagValue(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const startupId = flagValue(args, "--startup");
+
+  if (args.includes("--enqueue")) {
+    const enqueued = await enqueueSyncJobs({ startupId, full: args.includes("--full") });
+    console.log(`Queued ${enqueued} sync jobs`);
+  }
+
+  const result = await runSyncWorker({
+    concurrency: Number(flagValue(args, "--concurrency")) || undefined,
+    maxJobs: Number(flagValue(args, "--max-jobs")) || undefined,
+  });
+
+  for (const job of result.results) {
+    console.log(`${job.status.padEnd(9)} ${job.connectionId} (attempt ${job.attempts})${job.error ? `: ${job.error}` : ""}`);
+  }
+  console.log(
+    `Worker ${result.workerId}: ${result.succeeded} succeeded, ${result.retrying} retrying, ${result.failed} failed`
+  );
+
+  if (result.failed > 0) process.exit(1);
+}
+
+main().catch((error) => {
+  console.error("Sync worker failed:", error.message || error);
+  process.exit(1);
+});
@@ -22,10 +22,28 @@ interface Startup {
     provider: string;
     provider_last_synced_at: string | null;
   } | null;
-  connection: {
+  connections: {
+    id: string;
     status: string;
     provider: string;
-  } | null;
+    last_synced_at: string | null;
+    consecutive_failures: number;
+    last_sync_error: string | null;
+  }[];
+}
+
+interface SyncRun {
+  id: string;
+  provider: string;
+  trigger: string;
+  sync_mode: string;
+  status: "running" | "succeeded" | "failed";
+  started_at: string;
+  duration_ms: number | null;
+  provider_requests: number | null;
+  currency: string | null;
+  mrr_delta: number | null;
+  error: string | null;
 }
 
 interface Sponsorship {
@@ -46,6 +64,8 @@ export default function AdminPage() {
   const [sponsorships, setSponsorships] = useState<Sponsorship[]>([]);
   const [loading, setLoading] = useState(false);
   const [activeTab, setActiveTab] = useState<"startups" | "sponsorships">("startups");
+  const [historyStartupId, setHistoryStartupId] = useState<string | null>(null);
+  const [syncRuns, setSyncRuns] = useState<SyncRun[]>([]);
 
   useEffect(() => {
     // Check if already authenticated (simple cookie-based check)
@@ -114,6 +134,45 @@ export default function AdminPage() {
     }
   };
 
+  const handleOwnerClaim = async (startup: Startup) => {
+    if (!confirm(`Only send this link to someone you've verified owns ${startup.name}. Create it?`)) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/admin/startups/${startup.id}/owner-claim`, {
+        method: "POST",
+      });
+      if (response.ok) {
+        const { url } = await response.json();
+        prompt("Single-use owner link (valid for 7 days):", url);
+      } else {
+        alert("Failed to create owner link");
+      }
+    } catch (error) {
+      console.error(error);
+      alert("Failed to create owner link");
+    }
+  };
+
+  const toggleSyncHistory = async (startupId: string) => {
+    if (historyStartupId === startupId) {
+      setHistoryStartupId(null);
+      return;
+    }
+
+    setHistoryStartupId(startupId);
+    setSyncRuns([]);
+    try {
+      const response = await fetch(`/api/admin/sync/${startupId}`);
+      if (response.ok) {
+        setSyncRuns(await response.json());
+      }
+    } catch (error) {
+      console.error(error);
+    }
+  };
+
   const handleDeactivateSponsorship = async (sponsorshipId: string) => {
     if (!confirm("Are you sure you want to deactivate this sponsorship?")) {
       return;
@@ -212,12 +271,25 @@ export default function AdminPage() {
                         <div>
                           {startup.country} • {startup.category}
                         </div>
-                        {startup.connection && (
-                          <div>
-                            Provider: {startup.connection.provider} • Status:{" "}
-                            {startup.connection.status}
+                        {startup.connections.map((connection) => (
+                          <div key={connection.id}>
+                            Provider: {connection.provider} • Status:{" "}
+                            <span className={
+                              connection.status === "connected" ? "text-green-500" :
+                              connection.status === "error" ? "text-red-500" :
+                              "text-yellow-500"
+                            }>{connection.status}</span>
+                            {connection.consecutive_failures > 0 && (
+                              <span>
+                                {" "}• {connection.consecutive_failures} failed sync
+                                {connection.consecutive_failures === 1 ? "" : "s"} in a row
+                              </span>
+                            )}
+                            {connection.last_sync_error && (
+                              <div className="text-xs text-red-500">{connection.last_sync_error}</div>
+                            )}
                           </div>
-                        )}
+                        ))}
                       </div>
                       {startup.metrics && (
                         <div className="mt-4 grid grid-cols-3 gap-4">
@@ -257,14 +329,77 @@ export default function AdminPage() {
                         </div>
                       )}
                     </div>
-                    <Button
-                      onClick={() => handleSync(startup.id)}
-                      variant="outline"
-                      size="sm"
-                    >
-                      Sync Now
-                    </Button>
+                    <div className="flex gap-2">
+                      <Button
+                        onClick={() => toggleSyncHistory(startup.id)}
+                        variant="ghost"
+                        size="sm"
+                      >
+                        {historyStartupId === startup.id ? "Hide History" : "History"}
+                      </Button>
+                      <Button
+                        onClick={() => handleOwnerClaim(startup)}
+                        variant="ghost"
+                        size="sm"
+                      >
+                        Owner Link
+                      </Button>
+                      <Button
+                        onClick={() => handleSync(startup.id)}
+                        variant="outline"
+                        size="sm"
+                      >
+                        Sync Now
+                      </Button>
+                    </div>
                   </div>
+                  {historyStartupId === startup.id && (
+                    <div className="mt-4 border-t pt-4 text-sm">
+                      {syncRuns.length === 0 ? (
+                        <div className="text-muted-foreground">No sync runs recorded</div>
+                      ) : (
+                        <table className="w-full">
+                          <thead className="text-xs text-muted-foreground text-left">
+                            <tr>
+                              <th className="pb-2">Started</th>
+                              <th className="pb-2">Provider</th>
+                              <th className="pb-2">Trigger</th>
+                              <th className="pb-2">Status</th>
+                              <th className="pb-2">Duration</th>
+                              <th className="pb-2">Requests</th>
+                              <th className="pb-2">MRR change</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {syncRuns.map((run) => (
+                              <tr key={run.id} className="align-top">
+                                <td className="py-1">{formatRelativeTime(run.started_at)}</td>
+                                <td className="py-1">{run.provider}</td>
+                                <td className="py-1">{run.trigger} ({run.sync_mode})</td>
+                                <td className={`py-1 ${
+                                  run.status === "succeeded" ? "text-green-500" :
+                                  run.status === "failed" ? "text-red-500" :
+                                  "text-yellow-500"
+                                }`}>
+                                  {run.status}
+                                  {run.error && <div className="text-xs">{run.error}</div>}
+                                </td>
+                                <td className="py-1">
+                                  {run.duration_ms !== null ? `${(run.duration_ms / 1000).toFixed(1)}s` : "—"}
+                                </td>
+                                <td className="py-1">{run.provider_requests ?? "—"}</td>
+                                <td className="py-1">
+                                  {run.mrr_delta !== null && run.currency
+                                    ? `${run.mrr_delta > 0 ? "+" : ""}${formatCurrency(run.mrr_delta, run.currency)}`
+                                    : "—"}
+                                </td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      )}
+                    </div>
+                  )}
                 </CardContent>
               </Card>
             </motion.div>
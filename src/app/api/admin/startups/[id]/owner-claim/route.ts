@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from "next/server";
+import { issueOwnerClaim } from "@/lib/providers/oauthState";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+/**
+ * Issue an ownership claim link for a startup
+ * For founders who lost the browser that listed it, or listings with no owner recorded.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Simple auth check
+    const cookies = request.cookies.get("admin_authenticated");
+    if (!cookies || cookies.value !== "true") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { token, expiresAt } = await issueOwnerClaim(params.id);
+    const url = new URL("/api/startups/claim", request.url);
+    url.searchParams.set("token", token);
+
+    return NextResponse.json({ url: url.toString(), expiresAt });
+  } catch (error: any) {
+    console.error("Error issuing owner claim:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to issue owner claim" },
+      { status: 500 }
+    );
+  }
+}
@@ -14,7 +14,7 @@ export async function GET(request: NextRequest) {
       .select(`
         *,
         startup_metrics_current (*),
-        provider_connections (status, provider)
+        provider_connections (id, status, provider, last_synced_at, consecutive_failures, last_sync_error)
       `)
       .order("created_at", { ascending: false });
 
@@ -28,7 +28,7 @@ export async function GET(request: NextRequest) {
       country: s.country,
       category: s.category,
       metrics: s.startup_metrics_current?.[0] || null,
-      connection: s.provider_connections?.[0] || null,
+      connections: s.provider_connections || [],
     }));
 
     return NextResponse.json(formatted);
@@ -1,10 +1,34 @@
 import { NextRequest, NextResponse } from "next/server";
-import { supabaseAdmin } from "@/lib/supabase/server";
-import { getProviderAdapter } from "@/lib/providers/registry";
+import { getConnectionsToSync, getSyncRuns } from "@/lib/supabase/queries";
+import { syncConnection, recomputeStartupMetrics } from "@/lib/metrics/sync";
 
 export const dynamic = "force-dynamic";
 export const runtime = "nodejs";
 
+/**
+ * Sync run history for a startup (latest 20 attempts)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { startupId: string } }
+) {
+  try {
+    // Simple auth check
+    const cookies = request.cookies.get("admin_authenticated");
+    if (!cookies || cookies.value !== "true") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const runs = await getSyncRuns(params.startupId);
+    return NextResponse.json(runs);
+  } catch (error: any) {
+    return NextResponse.json(
+      { error: error.message || "Failed to fetch sync runs" },
+      { status: 500 }
+    );
+  }
+}
+
 export async function POST(
   request: NextRequest,
   { params }: { params: { startupId: string } }
@@ -17,80 +41,36 @@ export async function POST(
     }
 
     const startupId = params.startupId;
+    const full = request.nextUrl.searchParams.get("full") === "1";
 
-    // Get connection for this startup
-    const { data: connection, error: connError } = await supabaseAdmin
-      .from("provider_connections")
-      .select(`
-        *,
-        provider_tokens (access_token, refresh_token)
-      `)
-      .eq("startup_id", startupId)
-      .eq("status", "connected")
-      .single();
+    // Get every connected provider for this startup, including errored ones to retry them
+    const connections = await getConnectionsToSync(startupId, true);
 
-    if (connError || !connection) {
+    if (connections.length === 0) {
       return NextResponse.json(
         { error: "No active connection found" },
         { status: 404 }
       );
     }
 
-    const token = (connection as any).provider_tokens?.[0];
-    if (!token) {
-      return NextResponse.json(
-        { error: "No access token found" },
-        { status: 404 }
-      );
+    // Sync each connection, then combine into startup-level metrics
+    const results = [];
+    for (const connection of connections) {
+      try {
+        const metrics = await syncConnection(connection, { full, trigger: "admin" });
+        results.push({ provider: connection.provider, status: "success", metrics });
+      } catch (error: any) {
+        console.error(`Error syncing ${connection.provider} for startup ${startupId}:`, error);
+        results.push({ provider: connection.provider, status: "error", error: error.message });
+      }
     }
 
-    // Get adapter and fetch metrics
-    const adapter = getProviderAdapter(connection.provider as any);
-    const metrics = await adapter.fetchMetrics({
-      providerConnectionId: connection.id,
-      providerAccountId: connection.provider_account_id,
-      accessToken: token.access_token,
-      refreshToken: token.refresh_token,
-    });
-
-    // Update current metrics
-    await supabaseAdmin
-      .from("startup_metrics_current")
-      .upsert({
-        startup_id: startupId,
-        currency: metrics.currency,
-        mrr: metrics.mrr,
-        total_revenue: metrics.totalRevenue,
-        last_30d_revenue: metrics.last30dRevenue,
-        provider: connection.provider,
-        provider_last_synced_at: new Date().toISOString(),
-        updated_at: new Date().toISOString(),
-      }, {
-        onConflict: "startup_id",
-      });
+    await recomputeStartupMetrics(startupId);
 
-    // Add to history
-    const today = new Date().toISOString().split("T")[0];
-    await supabaseAdmin.from("startup_metrics_history").insert({
-      startup_id: startupId,
-      currency: metrics.currency,
-      mrr: metrics.mrr,
-      total_revenue: metrics.totalRevenue,
-      last_30d_revenue: metrics.last30dRevenue,
-      provider: connection.provider,
-      snapshot_date: today,
+    return NextResponse.json({
+      success: results.some((r) => r.status === "success"),
+      results,
     });
-
-    // Update connection
-    await supabaseAdmin
-      .from("provider_connections")
-      .update({
-        last_synced_at: new Date().toISOString(),
-        updated_at: new Date().toISOString(),
-      })
-      .eq("id", connection.id);
-
-    return NextResponse.json({ success: true, metrics });
   } catch (error: any) {
     console.error("Error syncing startup:", error);
     return NextResponse.json(
@@ -1,19 +1,28 @@
 import { NextRequest, NextResponse } from "next/server";
-import { supabaseAdmin } from "@/lib/supabase/server";
-import { getConnectionsToSync } from "@/lib/supabase/queries";
-import { getProviderAdapter } from "@/lib/providers/registry";
+import { enqueueSyncJobs, runSyncWorker } from "@/lib/metrics/queue";
+import { snapshotLeaderboardRanks } from "@/lib/metrics/sync";
 
 export const dynamic = "force-dynamic";
 export const runtime = "nodejs";
 export const revalidate = 0;
+export const maxDuration = 300;
+
+// Stop claiming new jobs with enough headroom left for the in-flight ones and the recompute
+const WORKER_TIME_BUDGET_MS = 200_000;
 
 /**
  * Cron endpoint to sync metrics for all connected providers
  * 
  * This should be called periodically (e.g., daily) by an external cron service
- * or Vercel Cron.
+ * or Vercel Cron. It queues a sync job per connection and works through the
+ * sync_jobs queue until the time budget runs out; whatever is left (including
+ * retries waiting for their backoff) is picked up by the next call.
+ * Each call then refreshes today's leaderboard rank snapshot.
  * 
- * For security, you may want to add authentication (e.g., secret header)
+ * Query params:
+ * - enqueue=0: only drain the queue (for a more frequent worker schedule)
+ * - full=1: queue full reconciliations instead of incremental syncs
+ * - concurrency=N: parallel syncs (default 3)
  */
 export async function GET(request: NextRequest) {
   try {
@@ -26,90 +35,31 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
-    const connections = await getConnectionsToSync();
-    const results = [];
-
-    for (const conn of connections) {
-      try {
-        // Get adapter for this provider
-        const adapter = getProviderAdapter(conn.provider as any);
-
-        // Fetch metrics
-        const metrics = await adapter.fetchMetrics({
-          providerConnectionId: conn.id,
-          providerAccountId: conn.provider_account_id,
-          accessToken: conn.access_token,
-          refreshToken: conn.refresh_token,
-        });
-
-        // Update current metrics
-        await supabaseAdmin
-          .from("startup_metrics_current")
-          .upsert({
-            startup_id: conn.startup_id,
-            currency: metrics.currency,
-            mrr: metrics.mrr,
-            total_revenue: metrics.totalRevenue,
-            last_30d_revenue: metrics.last30dRevenue,
-            provider: conn.provider,
-            provider_last_synced_at: new Date().toISOString(),
-            updated_at: new Date().toISOString(),
-          }, {
-            onConflict: "startup_id",
-          });
+    const params = request.nextUrl.searchParams;
+    const enqueued = params.get("enqueue") === "0"
+      ? 0
+      : await enqueueSyncJobs({ full: params.get("full") === "1" });
 
-        // Add to history (daily snapshot)
-        const today = new Date().toISOString().split("T")[0];
-        
-        // Check if snapshot for today already exists
-        const { data: existing } = await supabaseAdmin
-          .from("startup_metrics_history")
-          .select("id")
-          .eq("startup_id", conn.startup_id)
-          .eq("snapshot_date", today)
-          .single();
-
-        if (!existing) {
-          await supabaseAdmin.from("startup_metrics_history").insert({
-            startup_id: conn.startup_id,
-            currency: metrics.currency,
-            mrr: metrics.mrr,
-            total_revenue: metrics.totalRevenue,
-            last_30d_revenue: metrics.last30dRevenue,
-            provider: conn.provider,
-            snapshot_date: today,
-          });
-        }
-
-        // Update connection last_synced_at
-        await supabaseAdmin
-          .from("provider_connections")
-          .update({
-            last_synced_at: new Date().toISOString(),
-            updated_at: new Date().toISOString(),
-          })
-          .eq("id", conn.id);
+    const worker = await runSyncWorker({
+      concurrency: Number(params.get("concurrency")) || undefined,
+      timeBudgetMs: WORKER_TIME_BUDGET_MS,
+    });
 
-        results.push({
-          startup_id: conn.startup_id,
-          provider: conn.provider,
-          status: "success",
-        });
-      } catch (error: any) {
-        console.error(`Error syncing ${conn.provider} for startup ${conn.startup_id}:`, error);
-        results.push({
-          startup_id: conn.startup_id,
-          provider: conn.provider,
-          status: "error",
-          error: error.message,
-        });
-      }
+    // Rank history is a nice-to-have; don't fail the sync over it
+    let ranked = 0;
+    try {
+      ranked = await snapshotLeaderboardRanks();
+    } catch (error: any) {
+      console.error("Error snapshotting leaderboard ranks:", error.message);
     }
 
     return NextResponse.json({
-      synced: results.filter((r) => r.status === "success").length,
-      failed: results.filter((r) => r.status === "error").length,
-      results,
+      enqueued,
+      synced: worker.succeeded,
+      retrying: worker.retrying,
+      failed: worker.failed,
+      ranked,
+      results: worker.results,
     });
   } catch (error: any) {
     console.error("Error in sync-metrics cron:", error);
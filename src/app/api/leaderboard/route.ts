@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getLeaderboardPage } from "@/lib/supabase/queries";
+import {
+  encodeLeaderboardCursor,
+  parseLeaderboardCursor,
+  parseLeaderboardFilters,
+  type SearchParams,
+} from "@/lib/leaderboard";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Next leaderboard page for "Load more"
+ * Takes the same search params as the home page (filters plus `after`).
+ */
+export async function GET(request: NextRequest) {
+  const params: SearchParams = {};
+  request.nextUrl.searchParams.forEach((_, name) => {
+    params[name] = request.nextUrl.searchParams.getAll(name);
+  });
+
+  try {
+    const page = await getLeaderboardPage(parseLeaderboardFilters(params), parseLeaderboardCursor(params.after));
+
+    return NextResponse.json({
+      startups: page.startups,
+      nextCursor: page.nextCursor ? encodeLeaderboardCursor(page.nextCursor) : null,
+    });
+  } catch (error: any) {
+    console.error("Error fetching leaderboard page:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to fetch leaderboard" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabase/server";
+import { findProviderAdapter } from "@/lib/providers/registry";
+import { enqueueConnectionSync } from "@/lib/metrics/queue";
+import { saveProviderConnection } from "@/lib/providers/connections";
+import { NOT_STARTUP_OWNER_MESSAGE, OAUTH_SESSION_COOKIE, isStartupOwner } from "@/lib/providers/oauthState";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Connect a credentials-based provider (API keys instead of OAuth)
+ *
+ * OAuth providers have their own /api/providers/[provider]/connect and /callback
+ * routes, which take precedence over this dynamic route.
+ *
+ * This route:
+ * 1. Takes startupId plus the adapter's credentialFields from the JSON body
+ * 2. Verifies the startup exists and was listed from this browser (like the OAuth connect routes)
+ * 3. Lets the adapter validate the credentials with the provider
+ * 4. Saves the connection and credentials, then returns the startup page URL
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { provider: string } }
+) {
+  try {
+    const adapter = findProviderAdapter(params.provider);
+    if (!adapter || adapter.authKind !== "credentials" || !adapter.connectWithCredentials) {
+      return NextResponse.json(
+        { error: `Unknown credentials provider: ${params.provider}` },
+        { status: 404 }
+      );
+    }
+
+    const body = await req.json();
+    const { startupId } = body;
+
+    const fields: Record<string, string> = {};
+    for (const field of adapter.credentialFields || []) {
+      const value = typeof body[field.name] === "string" ? body[field.name].trim() : "";
+      if (!value) {
+        return NextResponse.json({ error: `Missing ${field.label}` }, { status: 400 });
+      }
+      fields[field.name] = value;
+    }
+
+    if (!startupId) {
+      return NextResponse.json({ error: "Missing startupId" }, { status: 400 });
+    }
+
+    const { data: startup, error } = await supabaseAdmin
+      .from("startups")
+      .select("id, slug")
+      .eq("id", startupId)
+      .single();
+
+    if (error || !startup) {
+      console.error(`Startup not found in ${adapter.name} connect route`, { startupId, error });
+      return NextResponse.json({ error: "Startup not found" }, { status: 404 });
+    }
+
+    // Otherwise anyone with the startup ID could replace its connection with their own account
+    if (!(await isStartupOwner(startup.id, req.cookies.get(OAUTH_SESSION_COOKIE)?.value))) {
+      console.error(`${adapter.displayName} connect refused: not the listing's browser`, { startupId });
+      return NextResponse.json(
+        { error: NOT_STARTUP_OWNER_MESSAGE },
+        { status: 403 }
+      );
+    }
+
+    let connection;
+    try {
+      connection = await adapter.connectWithCredentials(fields);
+    } catch (err: any) {
+      return NextResponse.json(
+        { error: err?.message || `${adapter.displayName} rejected these credentials` },
+        { status: 400 }
+      );
+    }
+
+    const connectionId = await saveProviderConnection({
+      startupId: startup.id,
+      provider: adapter.name,
+      providerAccountId: connection.providerAccountId,
+      accessToken: connection.accessToken,
+      scope: connection.scope,
+    });
+
+    // First sync and history backfill; the daily cron picks the connection up if this fails
+    try {
+      await enqueueConnectionSync(connectionId);
+    } catch (syncErr: any) {
+      console.error("Failed to queue initial sync (non-fatal):", syncErr?.message || syncErr);
+    }
+
+    return NextResponse.json({
+      redirectUrl: `/startup/${startup.slug}?connected=1`,
+    });
+  } catch (error: any) {
+    console.error(`Error connecting ${params.provider}:`, error);
+    return NextResponse.json(
+      { error: error.message || `Failed to connect ${params.provider}` },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,134 @@
+import { NextRequest, NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabase/server";
+import { enqueueConnectionSync } from "@/lib/metrics/queue";
+import { saveProviderConnection } from "@/lib/providers/connections";
+import { NOT_STARTUP_OWNER_MESSAGE, OAUTH_SESSION_COOKIE, consumeOAuthState, isStartupOwner } from "@/lib/providers/oauthState";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Handle Mollie Connect OAuth callback
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const clientId = process.env.MOLLIE_CLIENT_ID;
+    const clientSecret = process.env.MOLLIE_CLIENT_SECRET;
+
+    if (!clientId || !clientSecret) {
+      console.error("Mollie OAuth credentials missing", { hasId: !!clientId, hasSecret: !!clientSecret });
+      return new NextResponse("Server configuration error: Mollie credentials missing", { status: 500 });
+    }
+
+    if (!process.env.OAUTH_STATE_SECRET) {
+      console.error("OAUTH_STATE_SECRET is not set");
+      return new NextResponse("Server configuration error: OAuth state secret missing", { status: 500 });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const code = searchParams.get("code");
+    const state = searchParams.get("state");
+
+    if (!code || !state) {
+      console.error("Mollie callback missing code or state", { code, state, error: searchParams.get("error") });
+      return new NextResponse("Mollie callback missing code or state", { status: 400 });
+    }
+
+    // The state must come from a connect flow started in this browser, and only once
+    const sessionId = req.cookies.get(OAUTH_SESSION_COOKIE)?.value;
+    const startupId = await consumeOAuthState("mollie", state, sessionId);
+    if (!startupId) {
+      return new NextResponse("Invalid or expired connection request. Please start connecting again.", {
+        status: 400,
+      });
+    }
+
+    // Only the listing's browser may replace its connection (checked again right before writing)
+    if (!(await isStartupOwner(startupId, sessionId))) {
+      console.error("Mollie callback refused: not the listing's browser", { startupId });
+      return new NextResponse(NOT_STARTUP_OWNER_MESSAGE, {
+        status: 403,
+      });
+    }
+
+    // Step 1: Exchange code for token
+    const tokenResponse = await fetch("https://api.mollie.com/oauth2/tokens", {
+      method: "POST",
+      headers: {
+        Authorization: `Basic ${Buffer.from(`${clientId}:${clientSecret}`).toString("base64")}`,
+        "Content-Type": "application/x-www-form-urlencoded",
+      },
+      body: new URLSearchParams({
+        grant_type: "authorization_code",
+        code,
+        redirect_uri: `${process.env.APP_BASE_URL}/api/providers/mollie/callback`,
+      }),
+    });
+
+    const token = await tokenResponse.json();
+    if (!tokenResponse.ok || !token.access_token) {
+      console.error("Mollie token exchange failed", token);
+      return new NextResponse(
+        `Mollie token exchange failed: ${token?.error_description || token?.error || "unknown error"}`,
+        { status: 400 }
+      );
+    }
+
+    // Step 2: Resolve the connected organization
+    const orgResponse = await fetch("https://api.mollie.com/v2/organizations/me", {
+      headers: { Authorization: `Bearer ${token.access_token}` },
+    });
+    const organization = await orgResponse.json();
+
+    if (!orgResponse.ok || !organization.id) {
+      console.error("Failed to fetch Mollie organization", organization);
+      return new NextResponse("Failed to fetch Mollie organization", { status: 400 });
+    }
+
+    // Step 3: Lookup the startup the state was issued for
+    const { data: startup, error: startupError } = await supabaseAdmin
+      .from("startups")
+      .select("id, slug")
+      .eq("id", startupId)
+      .single();
+
+    if (startupError || !startup) {
+      console.error("Startup not found for state", { startupId, startupError });
+      return new NextResponse(
+        `Startup not found for this Mollie connection. Error: ${startupError?.message || "unknown"}`,
+        { status: 400 }
+      );
+    }
+
+    // Step 4: Save connection and tokens
+    const connectionId = await saveProviderConnection({
+      startupId: startup.id,
+      provider: "mollie",
+      providerAccountId: organization.id,
+      accessToken: token.access_token,
+      refreshToken: token.refresh_token,
+      scope: token.scope,
+      expiresAt: token.expires_in
+        ? new Date(Date.now() + token.expires_in * 1000).toISOString()
+        : null,
+    });
+
+    // Step 5: Queue the first sync and history backfill (non-fatal)
+    // The daily cron picks the connection up if this fails
+    try {
+      await enqueueConnectionSync(connectionId);
+    } catch (syncErr: any) {
+      console.error("Failed to queue initial sync (non-fatal):", syncErr?.message || syncErr);
+    }
+
+    // Step 6: Redirect to startup page
+    const baseUrl = process.env.APP_BASE_URL || "http://localhost:3000";
+    return NextResponse.redirect(`${baseUrl}/startup/${startup.slug}?connected=1`);
+
+  } catch (error: any) {
+    console.error("Unexpected error in Mollie callback:", error);
+    return new NextResponse(
+      `Unexpected error: ${error?.message || JSON.stringify(error)}`,
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabase/server";
+import {
+  NOT_STARTUP_OWNER_MESSAGE,
+  OAUTH_SESSION_COOKIE,
+  isStartupOwner,
+  issueOAuthState,
+  setOAuthSessionCookie,
+} from "@/lib/providers/oauthState";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Generate Mollie Connect OAuth URL and redirect founder
+ * 
+ * This route:
+ * 1. Takes startupId from query params
+ * 2. Verifies the startup exists and was listed from this browser
+ * 3. Builds Mollie Connect OAuth URL with read-only scopes and a signed, single-use state
+ * 4. Redirects to Mollie
+ */
+export async function GET(req: NextRequest) {
+  if (!process.env.OAUTH_STATE_SECRET) {
+    console.error("OAUTH_STATE_SECRET is not set");
+    return new NextResponse("Server configuration error: OAuth state secret missing", { status: 500 });
+  }
+
+  const { searchParams } = new URL(req.url);
+  const startupId = searchParams.get("startupId");
+
+  if (!startupId) {
+    return new NextResponse("Missing startupId", { status: 400 });
+  }
+
+  const { data: startup, error } = await supabaseAdmin
+    .from("startups")
+    .select("id")
+    .eq("id", startupId)
+    .single();
+
+  if (error || !startup) {
+    console.error("Startup not found in Mollie connect route", { startupId, error });
+    return NextResponse.redirect(new URL("/submit", req.url));
+  }
+
+  const sessionId = req.cookies.get(OAUTH_SESSION_COOKIE)?.value;
+  let state: string;
+  try {
+    if (!sessionId || !(await isStartupOwner(startup.id, sessionId))) {
+      console.error("Mollie connect refused: not the listing's browser", { startupId });
+      return new NextResponse(
+        NOT_STARTUP_OWNER_MESSAGE,
+        { status: 403 }
+      );
+    }
+    state = await issueOAuthState("mollie", startup.id, sessionId);
+  } catch (err: any) {
+    console.error("Failed to start Mollie connection", err?.message || err);
+    return new NextResponse("Failed to start the connection. Please try again.", { status: 500 });
+  }
+
+  const redirectUri = `${process.env.APP_BASE_URL}/api/providers/mollie/callback`;
+
+  const params = new URLSearchParams({
+    response_type: "code",
+    client_id: process.env.MOLLIE_CLIENT_ID!,
+    scope: "organizations.read payments.read refunds.read subscriptions.read",
+    redirect_uri: redirectUri,
+    approval_prompt: "auto",
+    state,
+  });
+
+  const url = "https://my.mollie.com/oauth2/authorize?" + params.toString();
+
+  const response = NextResponse.redirect(url);
+  setOAuthSessionCookie(response, sessionId);
+  return response;
+}
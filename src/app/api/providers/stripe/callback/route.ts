@@ -1,11 +1,16 @@
 import Stripe from "stripe";
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
+import { enqueueConnectionSync } from "@/lib/metrics/queue";
+import { encryptTokens } from "@/lib/providers/encryption";
+import { NOT_STARTUP_OWNER_MESSAGE, OAUTH_SESSION_COOKIE, consumeOAuthState, isStartupOwner } from "@/lib/providers/oauthState";
 
 export const dynamic = "force-dynamic";
 
 /**
  * Handle Stripe OAuth callback
+ * 
+ * Stores the connection, then runs the first sync and history backfill before redirecting
  */
 export async function GET(req: NextRequest) {
   try {
@@ -19,6 +24,11 @@ export async function GET(req: NextRequest) {
       return new NextResponse("Server configuration error: Stripe key missing", { status: 500 });
     }
 
+    if (!process.env.TOKEN_ENCRYPTION_KEYS) {
+      console.error("TOKEN_ENCRYPTION_KEYS is not set");
+      return new NextResponse("Server configuration error: token encryption key missing", { status: 500 });
+    }
+
     if (!supabaseUrl || !supabaseKey) {
       console.error("Supabase credentials missing", { hasUrl: !!supabaseUrl, hasKey: !!supabaseKey });
       return new NextResponse("Server configuration error: Supabase credentials missing", { status: 500 });
@@ -31,6 +41,11 @@ export async function GET(req: NextRequest) {
 
     const supabaseAdmin = createClient(supabaseUrl, supabaseKey);
 
+    if (!process.env.OAUTH_STATE_SECRET) {
+      console.error("OAUTH_STATE_SECRET is not set");
+      return new NextResponse("Server configuration error: OAuth state secret missing", { status: 500 });
+    }
+
     const { searchParams } = new URL(req.url);
     const code = searchParams.get("code");
     const state = searchParams.get("state");
@@ -40,6 +55,23 @@ export async function GET(req: NextRequest) {
       return new NextResponse("Stripe callback missing code or state", { status: 400 });
     }
 
+    // The state must come from a connect flow started in this browser, and only once
+    const sessionId = req.cookies.get(OAUTH_SESSION_COOKIE)?.value;
+    const startupId = await consumeOAuthState("stripe", state, sessionId);
+    if (!startupId) {
+      return new NextResponse("Invalid or expired connection request. Please start connecting again.", {
+        status: 400,
+      });
+    }
+
+    // Only the listing's browser may replace its connection (checked again right before writing)
+    if (!(await isStartupOwner(startupId, sessionId))) {
+      console.error("Stripe callback refused: not the listing's browser", { startupId });
+      return new NextResponse(NOT_STARTUP_OWNER_MESSAGE, {
+        status: 403,
+      });
+    }
+
     // Step 1: Exchange code for token
     let token;
     try {
@@ -61,8 +93,7 @@ export async function GET(req: NextRequest) {
       return new NextResponse("No stripe_user_id in token", { status: 400 });
     }
 
-    // Step 2: Lookup startup by state (startupId)
-    const startupId = state;
+    // Step 2: Lookup the startup the state was issued for
     const { data: startup, error: startupError } = await supabaseAdmin
       .from("startups")
       .select("id, slug")
@@ -108,6 +139,11 @@ export async function GET(req: NextRequest) {
           status: "connected",
           connected_at: now,
           last_synced_at: now,
+          // Reconnecting (e.g. after a deauthorization) starts over with a full sync
+          consecutive_failures: 0,
+          last_sync_error: null,
+          sync_cursor: null,
+          last_full_sync_at: null,
           updated_at: now,
         })
         .eq("id", existingConnection.id)
@@ -163,9 +199,11 @@ export async function GET(req: NextRequest) {
           .upsert(
             {
               provider_connection_id: connectionId,
-              access_token: token.access_token,
-              refresh_token: token.refresh_token || null,
-              scope: "read_write",
+              ...encryptTokens(connectionId, {
+                accessToken: token.access_token,
+                refreshToken: token.refresh_token,
+              }),
+              scope: token.scope || null, // What the founder actually granted
               updated_at: now,
             },
             {
@@ -182,7 +220,15 @@ export async function GET(req: NextRequest) {
       }
     }
 
-    // Step 5: Redirect to startup page
+    // Step 5: Queue the first sync and history backfill (non-fatal)
+    // The daily cron picks the connection up if this fails
+    try {
+      await enqueueConnectionSync(connectionId);
+    } catch (syncErr: any) {
+      console.error("Failed to queue initial sync (non-fatal):", syncErr?.message || syncErr);
+    }
+
+    // Step 6: Redirect to startup page
     const baseUrl = process.env.APP_BASE_URL || "http://localhost:3000";
     const redirectUrl = `${baseUrl}/startup/${startup.slug}?connected=1`;
     return NextResponse.redirect(redirectUrl);
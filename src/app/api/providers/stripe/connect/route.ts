@@ -1,5 +1,12 @@
 import { NextRequest, NextResponse } from "next/server";
 import { supabaseAdmin } from "@/lib/supabase/server";
+import {
+  NOT_STARTUP_OWNER_MESSAGE,
+  OAUTH_SESSION_COOKIE,
+  isStartupOwner,
+  issueOAuthState,
+  setOAuthSessionCookie,
+} from "@/lib/providers/oauthState";
 
 export const dynamic = "force-dynamic";
 
@@ -8,11 +15,16 @@ export const dynamic = "force-dynamic";
  * 
  * This route:
  * 1. Takes startupId from query params
- * 2. Verifies the startup exists
- * 3. Builds Stripe Connect OAuth URL with state=startupId
+ * 2. Verifies the startup exists and was listed from this browser
+ * 3. Builds Stripe Connect OAuth URL (read_only scope) with a signed, single-use state
  * 4. Redirects to Stripe
  */
 export async function GET(req: NextRequest) {
+  if (!process.env.OAUTH_STATE_SECRET) {
+    console.error("OAUTH_STATE_SECRET is not set");
+    return new NextResponse("Server configuration error: OAuth state secret missing", { status: 500 });
+  }
+
   const { searchParams } = new URL(req.url);
   const startupId = searchParams.get("startupId");
 
@@ -28,7 +40,23 @@ export async function GET(req: NextRequest) {
 
   if (error || !startup) {
     console.error("Startup not found in connect route", { startupId, error });
-    return NextResponse.redirect("/submit");
+    return NextResponse.redirect(new URL("/submit", req.url));
+  }
+
+  const sessionId = req.cookies.get(OAUTH_SESSION_COOKIE)?.value;
+  let state: string;
+  try {
+    if (!sessionId || !(await isStartupOwner(startup.id, sessionId))) {
+      console.error("Stripe connect refused: not the listing's browser", { startupId });
+      return new NextResponse(
+        NOT_STARTUP_OWNER_MESSAGE,
+        { status: 403 }
+      );
+    }
+    state = await issueOAuthState("stripe", startup.id, sessionId);
+  } catch (err: any) {
+    console.error("Failed to start Stripe connection", err?.message || err);
+    return new NextResponse("Failed to start the connection. Please try again.", { status: 500 });
   }
 
   const redirectUri = `${process.env.APP_BASE_URL}/api/providers/stripe/callback`;
@@ -36,12 +64,14 @@ export async function GET(req: NextRequest) {
   const params = new URLSearchParams({
     response_type: "code",
     client_id: process.env.STRIPE_CLIENT_ID!,
-    scope: "read_write",
+    scope: "read_only", // Metrics only need to read; founders see a read-only consent screen
     redirect_uri: redirectUri,
-    state: startup.id, // EXACTLY the startup.id as uuid
+    state,
   });
 
   const url = "https://connect.stripe.com/oauth/authorize?" + params.toString();
 
-  return NextResponse.redirect(url);
+  const response = NextResponse.redirect(url);
+  setOAuthSessionCookie(response, sessionId);
+  return response;
 }
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getOAuthSessionId, redeemOwnerClaim, setOAuthSessionCookie } from "@/lib/providers/oauthState";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+/**
+ * Open an ownership claim link: this browser may then connect the startup's providers
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const token = request.nextUrl.searchParams.get("token");
+    if (!token) {
+      return NextResponse.json({ error: "Missing token" }, { status: 400 });
+    }
+
+    const sessionId = getOAuthSessionId(request);
+    const startupId = await redeemOwnerClaim(token, sessionId);
+    if (!startupId) {
+      return NextResponse.json(
+        { error: "This link has expired or was already used. Ask for a new one." },
+        { status: 410 }
+      );
+    }
+
+    const response = NextResponse.redirect(new URL(`/connect/${startupId}`, request.url));
+    setOAuthSessionCookie(response, sessionId);
+    return response;
+  } catch (error: any) {
+    console.error("Error redeeming owner claim:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to claim startup" },
+      { status: 500 }
+    );
+  }
+}
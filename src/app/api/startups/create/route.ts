@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createStartup } from "@/lib/supabase/queries";
+import { getOAuthSessionId, recordStartupOwner, setOAuthSessionCookie } from "@/lib/providers/oauthState";
 
 export async function POST(request: NextRequest) {
   try {
@@ -21,7 +22,13 @@ export async function POST(request: NextRequest) {
       description,
     });
 
-    return NextResponse.json({ startup });
+    // Only this browser may connect the listing's providers
+    const sessionId = getOAuthSessionId(request);
+    await recordStartupOwner(startup.id, sessionId);
+
+    const response = NextResponse.json({ startup });
+    setOAuthSessionCookie(response, sessionId);
+    return response;
   } catch (error: any) {
     console.error("Error creating startup:", error);
     return NextResponse.json(
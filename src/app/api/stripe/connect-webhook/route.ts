@@ -0,0 +1,196 @@
+import Stripe from "stripe";
+import { NextRequest, NextResponse } from "next/server";
+import type { ConnectionToSync } from "@/lib/supabase/queries";
+import { revokeProviderConnection } from "@/lib/providers/connections";
+import { recomputeStartupMetrics } from "@/lib/metrics/sync";
+import {
+  applyCustomerMrrChange,
+  applyRevenueChange,
+  claimWebhookEvent,
+  getConnectionsByAccount,
+  getRevocableConnectionsByAccount,
+  releaseWebhookEvent,
+} from "@/lib/metrics/webhooks";
+
+export const runtime = "nodejs";
+
+// Events applied to metrics; anything else is acknowledged and ignored
+const HANDLED_EVENTS = new Set([
+  "invoice.paid",
+  "charge.refunded",
+  "customer.subscription.updated",
+  "customer.subscription.deleted",
+]);
+
+const stripe = new Stripe(process.env.STRIPE_PLATFORM_SECRET_KEY!, {
+  apiVersion: "2023-10-16",
+});
+
+/**
+ * Stripe Connect Webhook Handler
+ * 
+ * Receives events from connected accounts (not the platform's own sponsorship
+ * events, which go to /api/stripe/webhook) and applies them to that startup's
+ * current metrics right away, between the nightly syncs.
+ * 
+ * Configure in Stripe Dashboard > Developers > Webhooks as a Connect endpoint
+ * ("Listen to events on Connected accounts"):
+ * - URL: https://your-domain.com/api/stripe/connect-webhook
+ * - Events to listen for:
+ *   - invoice.paid
+ *   - charge.refunded
+ *   - customer.subscription.updated
+ *   - customer.subscription.deleted
+ *   - account.application.deauthorized (the founder disconnected our app)
+ * 
+ * Set the endpoint's signing secret as STRIPE_CONNECT_WEBHOOK_SECRET
+ */
+export async function POST(req: NextRequest) {
+  const sig = req.headers.get("stripe-signature");
+  if (!sig) {
+    return new NextResponse("Missing signature", { status: 400 });
+  }
+
+  const buf = await req.arrayBuffer();
+  const body = Buffer.from(buf);
+
+  let event: Stripe.Event;
+
+  try {
+    event = stripe.webhooks.constructEvent(
+      body,
+      sig,
+      process.env.STRIPE_CONNECT_WEBHOOK_SECRET!
+    );
+  } catch (err: any) {
+    console.error("Connect webhook signature verification failed", err.message);
+    return new NextResponse("Signature verification failed", { status: 400 });
+  }
+
+  if (!event.account) {
+    return new NextResponse("Not a Connect event", { status: 400 });
+  }
+
+  try {
+    // Deauthorization also applies to connections that aren't syncing (error, reauth_required)
+    if (event.type === "account.application.deauthorized") {
+      const connections = await getRevocableConnectionsByAccount("stripe", event.account);
+      if (connections.length === 0 || !await claimWebhookEvent(event.id, "stripe", event.account, event.type)) {
+        return new NextResponse("OK", { status: 200 });
+      }
+
+      try {
+        await handleDeauthorized(connections);
+      } catch (error) {
+        await releaseWebhookEvent(event.id);
+        throw error;
+      }
+      return new NextResponse("OK", { status: 200 });
+    }
+
+    if (!HANDLED_EVENTS.has(event.type)) {
+      return new NextResponse("OK", { status: 200 });
+    }
+
+    // Events for accounts we don't track (or no longer track) are acknowledged and dropped
+    const connections = await getConnectionsByAccount("stripe", event.account);
+    const failed: string[] = [];
+
+    for (const conn of connections) {
+      // Stripe may deliver an event more than once; claimed per connection so a retry
+      // only reaches the connections that failed
+      const claimId = connections.length > 1 ? `${event.id}:${conn.id}` : event.id;
+      if (!await claimWebhookEvent(claimId, "stripe", event.account, event.type)) continue;
+
+      try {
+        await applyConnectEvent(conn, event);
+      } catch (error: any) {
+        console.error(`Error applying Connect event ${event.id} to connection ${conn.id}:`, error);
+        await releaseWebhookEvent(claimId);
+        failed.push(error.message || "Webhook processing failed");
+      }
+    }
+
+    if (failed.length > 0) {
+      return new NextResponse(JSON.stringify({ error: failed[0] }), { status: 500 });
+    }
+    return new NextResponse("OK", { status: 200 });
+  } catch (error: any) {
+    console.error("Error processing Connect webhook:", error);
+    return new NextResponse(
+      JSON.stringify({ error: error.message || "Webhook processing failed" }),
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Apply one event to a connection's current metrics
+ */
+async function applyConnectEvent(conn: ConnectionToSync, event: Stripe.Event) {
+  switch (event.type) {
+    case "invoice.paid":
+      await handleInvoicePaid(conn, event.data.object as Stripe.Invoice);
+      break;
+
+    case "charge.refunded": {
+      const previous = event.data.previous_attributes as Partial<Stripe.Charge> | undefined;
+      await handleChargeRefunded(conn, event.data.object as Stripe.Charge, previous?.amount_refunded ?? 0);
+      break;
+    }
+
+    case "customer.subscription.updated":
+    case "customer.subscription.deleted":
+      await handleSubscriptionChanged(conn, event.data.object as Stripe.Subscription);
+      break;
+  }
+}
+
+/**
+ * Handle account.application.deauthorized event
+ * Marks the account's connections revoked so they stop syncing and the listings show as
+ * unverified; founders can reconnect from /connect/[startupId]
+ */
+async function handleDeauthorized(connections: { id: string; startup_id: string }[]) {
+  for (const conn of connections) {
+    await revokeProviderConnection(conn.id, "Stripe access was revoked by the account owner");
+    await recomputeStartupMetrics(conn.startup_id);
+
+    console.log(`Stripe connection ${conn.id} revoked for startup ${conn.startup_id}`);
+  }
+}
+
+/**
+ * Handle invoice.paid event
+ * Adds the payment to total and last 30 days revenue
+ */
+async function handleInvoicePaid(conn: ConnectionToSync, invoice: Stripe.Invoice) {
+  if (!invoice.amount_paid) return;
+
+  await applyRevenueChange(conn, invoice.currency, invoice.amount_paid / 100);
+}
+
+/**
+ * Handle charge.refunded event
+ * Subtracts the newly refunded amount; like the sync, only refunds of invoice payments count
+ *
+ * @param previouslyRefunded - amount_refunded before this event (cents)
+ */
+async function handleChargeRefunded(conn: ConnectionToSync, charge: Stripe.Charge, previouslyRefunded: number) {
+  if (!charge.invoice) return;
+
+  const refunded = charge.amount_refunded - previouslyRefunded;
+  if (refunded <= 0) return;
+
+  await applyRevenueChange(conn, charge.currency, -refunded / 100);
+}
+
+/**
+ * Handle customer.subscription.updated / deleted events
+ * Re-prices the customer's subscriptions and moves MRR by the difference
+ */
+async function handleSubscriptionChanged(conn: ConnectionToSync, subscription: Stripe.Subscription) {
+  const customerId = typeof subscription.customer === "string" ? subscription.customer : subscription.customer.id;
+
+  await applyCustomerMrrChange(conn, customerId);
+}
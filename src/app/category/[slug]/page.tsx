@@ -0,0 +1,108 @@
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import type { Metadata } from "next";
+import {
+  getAggregateMetrics,
+  getCategoryHero,
+  getLeaderboardPage,
+  type LeaderboardPage,
+  type StartupWithMetrics,
+} from "@/lib/supabase/queries";
+import { REPORTING_CURRENCY } from "@/lib/metrics/fx";
+import {
+  CATEGORIES,
+  categoryFromSlug,
+  categorySlug,
+  encodeLeaderboardCursor,
+  leaderboardSearchParams,
+  parseLeaderboardCursor,
+  type SearchParams,
+} from "@/lib/leaderboard";
+import { SegmentHeader } from "@/components/SegmentHeader";
+import { CategoryHeroSlot } from "@/components/CategoryHeroSlot";
+import { LeaderboardGrid } from "@/components/LeaderboardGrid";
+
+export const revalidate = 300; // Regenerate at most every 5 minutes
+export const dynamicParams = false; // Only the known categories
+
+export function generateStaticParams() {
+  return CATEGORIES.map((category) => ({ slug: categorySlug(category) }));
+}
+
+export function generateMetadata({ params }: { params: { slug: string } }): Metadata {
+  const category = categoryFromSlug(params.slug);
+  return { title: category ? `${category} Leaderboard - AgencyMRR` : "AgencyMRR" };
+}
+
+export default async function CategoryPage({
+  params,
+  searchParams,
+}: {
+  params: { slug: string };
+  searchParams: SearchParams;
+}) {
+  const category = categoryFromSlug(params.slug);
+
+  if (!category) {
+    notFound();
+  }
+
+  const filters = { category: [category] };
+  const after = parseLeaderboardCursor(searchParams.after);
+  const basePath = `/category/${params.slug}`;
+
+  let page: LeaderboardPage = { startups: [], nextCursor: null };
+  let aggregates = { totalMrr: 0, currency: REPORTING_CURRENCY, startupCount: 0 };
+  let hero: StartupWithMetrics | null = null;
+
+  try {
+    [page, aggregates, hero] = await Promise.all([
+      getLeaderboardPage(filters, after),
+      getAggregateMetrics({ category }),
+      getCategoryHero(category),
+    ]);
+  } catch (error) {
+    console.error(`Error fetching ${category} leaderboard:`, error);
+  }
+
+  return (
+    <div className="min-h-screen">
+      <SegmentHeader
+        eyebrow="Category"
+        title={category}
+        totalMrr={aggregates.totalMrr}
+        currency={aggregates.currency}
+        startupCount={aggregates.startupCount}
+      />
+
+      <div id="leaderboard" className="container mx-auto px-4 py-16">
+        <CategoryHeroSlot category={category} hero={hero} />
+
+        {after && (
+          <Link href={`${basePath}#leaderboard`} className="text-sm text-muted-foreground hover:text-foreground">
+            ← Back to the top
+          </Link>
+        )}
+
+        <LeaderboardGrid
+          // Start over when the page changes
+          key={searchParams.after?.toString() || ""}
+          startups={page.startups}
+          nextCursor={page.nextCursor ? encodeLeaderboardCursor(page.nextCursor) : null}
+          query={leaderboardSearchParams(filters).toString()}
+          basePath={basePath}
+          // The hero already has its card above
+          hiddenIds={hero ? [hero.id] : []}
+        />
+
+        {page.startups.length === 0 && !after && (
+          <div className="text-center py-16">
+            <p className="text-muted-foreground text-lg">
+              No {category} startups listed yet.
+            </p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
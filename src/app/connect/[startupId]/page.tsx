@@ -1,5 +1,6 @@
 import { redirect } from "next/navigation";
 import { supabaseAdmin } from "@/lib/supabase/server";
+import { getProviderInfo } from "@/lib/providers/registry";
 import { ConnectProviderClient } from "@/components/ConnectProviderClient";
 
 export const dynamic = "force-dynamic";
@@ -20,5 +21,5 @@ export default async function ConnectPage({
     redirect("/submit");
   }
 
-  return <ConnectProviderClient startup={startup} />;
+  return <ConnectProviderClient startup={startup} providers={getProviderInfo()} />;
 }
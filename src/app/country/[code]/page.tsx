@@ -0,0 +1,93 @@
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import type { Metadata } from "next";
+import { getAggregateMetrics, getLeaderboardPage, type LeaderboardPage } from "@/lib/supabase/queries";
+import { REPORTING_CURRENCY } from "@/lib/metrics/fx";
+import {
+  COUNTRIES,
+  countryName,
+  encodeLeaderboardCursor,
+  leaderboardSearchParams,
+  parseLeaderboardCursor,
+  type SearchParams,
+} from "@/lib/leaderboard";
+import { getCountryFlag } from "@/lib/utils";
+import { SegmentHeader } from "@/components/SegmentHeader";
+import { LeaderboardGrid } from "@/components/LeaderboardGrid";
+
+export const revalidate = 300; // Regenerate at most every 5 minutes
+export const dynamicParams = false; // Only the listed countries
+
+export function generateStaticParams() {
+  return COUNTRIES.map((country) => ({ code: country.code.toLowerCase() }));
+}
+
+export function generateMetadata({ params }: { params: { code: string } }): Metadata {
+  return { title: `${countryName(params.code)} Leaderboard - AgencyMRR` };
+}
+
+export default async function CountryPage({
+  params,
+  searchParams,
+}: {
+  params: { code: string };
+  searchParams: SearchParams;
+}) {
+  if (!/^[a-z]{2}$/i.test(params.code)) {
+    notFound();
+  }
+
+  const code = params.code.toUpperCase();
+  const filters = { country: [code] };
+  const after = parseLeaderboardCursor(searchParams.after);
+  const basePath = `/country/${params.code.toLowerCase()}`;
+
+  let page: LeaderboardPage = { startups: [], nextCursor: null };
+  let aggregates = { totalMrr: 0, currency: REPORTING_CURRENCY, startupCount: 0 };
+
+  try {
+    [page, aggregates] = await Promise.all([
+      getLeaderboardPage(filters, after),
+      getAggregateMetrics({ country: code }),
+    ]);
+  } catch (error) {
+    console.error(`Error fetching ${code} leaderboard:`, error);
+  }
+
+  return (
+    <div className="min-h-screen">
+      <SegmentHeader
+        eyebrow="Country"
+        title={`${getCountryFlag(code)} ${countryName(code)}`}
+        totalMrr={aggregates.totalMrr}
+        currency={aggregates.currency}
+        startupCount={aggregates.startupCount}
+      />
+
+      <div id="leaderboard" className="container mx-auto px-4 py-16">
+        {after && (
+          <Link href={`${basePath}#leaderboard`} className="text-sm text-muted-foreground hover:text-foreground">
+            ← Back to the top
+          </Link>
+        )}
+
+        <LeaderboardGrid
+          // Start over when the page changes
+          key={searchParams.after?.toString() || ""}
+          startups={page.startups}
+          nextCursor={page.nextCursor ? encodeLeaderboardCursor(page.nextCursor) : null}
+          query={leaderboardSearchParams(filters).toString()}
+          basePath={basePath}
+        />
+
+        {page.startups.length === 0 && !after && (
+          <div className="text-center py-16">
+            <p className="text-muted-foreground text-lg">
+              No startups from {countryName(code)} listed yet.
+            </p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,21 +1,36 @@
 import Link from "next/link";
 import { Button } from "@/components/ui/button";
-import { getStartupsWithMetrics, getAggregateMetrics, type StartupWithMetrics } from "@/lib/supabase/queries";
+import { getLeaderboardPage, getAggregateMetrics, type LeaderboardPage } from "@/lib/supabase/queries";
 import { formatCompact, getCountryFlag, isNordicCountry } from "@/lib/utils";
-import { StartupCard } from "@/components/StartupCard";
+import { LeaderboardGrid } from "@/components/LeaderboardGrid";
 import { HeroSection } from "@/components/HeroSection";
 import { LeaderboardFilters } from "@/components/LeaderboardFilters";
+import { getProviderInfo } from "@/lib/providers/registry";
+import { REPORTING_CURRENCY } from "@/lib/metrics/fx";
+import {
+  encodeLeaderboardCursor,
+  hasActiveFilters,
+  leaderboardSearchParams,
+  parseLeaderboardCursor,
+  parseLeaderboardFilters,
+  type SearchParams,
+} from "@/lib/leaderboard";
 
 export const dynamic = "force-dynamic"; // Disable static generation
 export const revalidate = 60; // Revalidate every 60 seconds
 
-export default async function HomePage() {
-  let startups: StartupWithMetrics[] = [];
-  let aggregates = { totalMrr: 0, startupCount: 0 };
+export default async function HomePage({ searchParams }: { searchParams: SearchParams }) {
+  const filters = parseLeaderboardFilters(searchParams);
+  const after = parseLeaderboardCursor(searchParams.after);
+  const query = leaderboardSearchParams(filters).toString();
+  const providers = getProviderInfo().map(({ name, displayName }) => ({ name, displayName }));
+
+  let page: LeaderboardPage = { startups: [], nextCursor: null };
+  let aggregates = { totalMrr: 0, currency: "EUR", startupCount: 0 };
 
   try {
-    [startups, aggregates] = await Promise.all([
-      getStartupsWithMetrics({ sortBy: "mrr" }),
+    [page, aggregates] = await Promise.all([
+      getLeaderboardPage(filters, after),
       getAggregateMetrics(),
     ]);
   } catch (error) {
@@ -27,6 +42,7 @@ export default async function HomePage() {
     <div className="min-h-screen">
       <HeroSection
         totalMrr={aggregates.totalMrr}
+        currency={aggregates.currency}
         startupCount={aggregates.startupCount}
       />
       
@@ -38,15 +54,35 @@ export default async function HomePage() {
           </p>
         </div>
 
-        <LeaderboardFilters />
+        <LeaderboardFilters filters={filters} providers={providers} currency={REPORTING_CURRENCY} />
 
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 mt-8">
-          {startups.map((startup, index) => (
-            <StartupCard key={startup.id} startup={startup} index={index} />
-          ))}
-        </div>
+        {after && (
+          <Link href={`/?${query}#leaderboard`} className="text-sm text-muted-foreground hover:text-foreground">
+            ← Back to the top
+          </Link>
+        )}
+
+        <LeaderboardGrid
+          // Start over when the filters or page change
+          key={`${query}|${searchParams.after || ""}`}
+          startups={page.startups}
+          nextCursor={page.nextCursor ? encodeLeaderboardCursor(page.nextCursor) : null}
+          query={query}
+          basePath="/"
+        />
+
+        {page.startups.length === 0 && !after && hasActiveFilters(filters) && (
+          <div className="text-center py-16">
+            <p className="text-muted-foreground text-lg">
+              No startups match these filters.
+            </p>
+            <Link href="/#leaderboard">
+              <Button variant="outline" className="mt-4">Clear Filters</Button>
+            </Link>
+          </div>
+        )}
 
-        {startups.length === 0 && (
+        {page.startups.length === 0 && !after && !hasActiveFilters(filters) && (
           <div className="text-center py-16">
             <p className="text-muted-foreground text-lg">
               No startups listed yet. Be the first!
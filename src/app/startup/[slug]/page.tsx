@@ -1,8 +1,12 @@
 import { notFound } from "next/navigation";
+import Link from "next/link";
 import { getStartupBySlug } from "@/lib/supabase/queries";
-import { formatCurrency, formatRelativeTime, getCountryFlag, isNordicCountry } from "@/lib/utils";
+import { categorySlug } from "@/lib/leaderboard";
+import { formatCurrency, formatPercent, formatRelativeTime, getCountryFlag, isNordicCountry } from "@/lib/utils";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { StartupMetricsChart } from "@/components/StartupMetricsChart";
+import { MrrMovementsChart } from "@/components/MrrMovementsChart";
+import { RankHistoryChart } from "@/components/RankHistoryChart";
 import { SponsorshipCTA } from "@/components/SponsorshipCTA";
 import { ConnectionSuccessNotice } from "@/components/ConnectionSuccessNotice";
 
@@ -24,6 +28,7 @@ export default async function StartupDetailPage({
 
   const metrics = startup.metrics;
   const isNordic = isNordicCountry(startup.country);
+  const isUnverified = !!metrics && !startup.verified;
 
   return (
     <div className="min-h-screen container mx-auto px-4 py-16">
@@ -39,9 +44,13 @@ export default async function StartupDetailPage({
             <div>
               <h1 className="text-4xl font-bold mb-2">{startup.name}</h1>
               <div className="flex items-center gap-4 text-muted-foreground">
-                <span>{getCountryFlag(startup.country)} {startup.country}</span>
+                <Link href={`/country/${startup.country.toLowerCase()}`} className="hover:text-foreground">
+                  {getCountryFlag(startup.country)} {startup.country}
+                </Link>
                 <span>•</span>
-                <span>{startup.category}</span>
+                <Link href={`/category/${categorySlug(startup.category)}`} className="hover:text-foreground">
+                  {startup.category}
+                </Link>
                 {isNordic && (
                   <>
                     <span>•</span>
@@ -50,6 +59,14 @@ export default async function StartupDetailPage({
                     </span>
                   </>
                 )}
+                {isUnverified && (
+                  <>
+                    <span>•</span>
+                    <span className="px-2 py-1 bg-yellow-500/20 text-yellow-600 rounded-full text-sm">
+                      Unverified
+                    </span>
+                  </>
+                )}
               </div>
             </div>
             {startup.logo_url && (
@@ -73,6 +90,25 @@ export default async function StartupDetailPage({
           )}
         </div>
 
+        {/* Revoked provider access */}
+        {isUnverified && (
+          <Card className="glass-strong border-yellow-500/50 mb-8">
+            <CardContent className="p-6 flex flex-col md:flex-row md:items-center justify-between gap-4">
+              <p className="text-sm text-muted-foreground">
+                The payment provider for {startup.name} was disconnected or keeps failing to sync, so the
+                numbers below are no longer verified or updated. They were last synced
+                {metrics.provider_last_synced_at ? ` ${formatRelativeTime(metrics.provider_last_synced_at)}` : " a while ago"}.
+              </p>
+              <Link
+                href={`/connect/${startup.id}`}
+                className="text-sm font-semibold text-primary hover:underline whitespace-nowrap"
+              >
+                Founder? Reconnect →
+              </Link>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Metrics */}
         {metrics ? (
           <>
@@ -85,6 +121,12 @@ export default async function StartupDetailPage({
                   <div className="text-3xl font-bold">
                     {formatCurrency(metrics.mrr, metrics.currency)}
                   </div>
+                  {metrics.mrr_reporting != null && metrics.reporting_currency && metrics.reporting_currency !== metrics.currency && (
+                    <div className="text-sm text-muted-foreground mt-1">
+                      ≈ {formatCurrency(metrics.mrr_reporting, metrics.reporting_currency)}
+                      {metrics.fx_rate_date && ` (ECB rate of ${metrics.fx_rate_date})`}
+                    </div>
+                  )}
                 </CardContent>
               </Card>
 
@@ -111,33 +153,126 @@ export default async function StartupDetailPage({
               </Card>
             </div>
 
-            {/* Chart */}
-            <Card className="glass-strong mb-8">
-              <CardHeader>
-                <CardTitle>MRR Over Time</CardTitle>
-              </CardHeader>
-              <CardContent>
-                <StartupMetricsChart startupId={startup.id} />
-              </CardContent>
-            </Card>
+            {/* Customer Metrics */}
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-8">
+              <Card className="glass-strong">
+                <CardContent className="pt-6">
+                  <div className="text-xs text-muted-foreground">ARR</div>
+                  <div className="text-xl font-bold">
+                    {formatCurrency(metrics.arr ?? metrics.mrr * 12, metrics.currency)}
+                  </div>
+                </CardContent>
+              </Card>
+              <Card className="glass-strong">
+                <CardContent className="pt-6">
+                  <div className="text-xs text-muted-foreground">Customers</div>
+                  <div className="text-xl font-bold">{metrics.active_customers ?? "—"}</div>
+                </CardContent>
+              </Card>
+              <Card className="glass-strong">
+                <CardContent className="pt-6">
+                  <div className="text-xs text-muted-foreground">ARPA</div>
+                  <div className="text-xl font-bold">
+                    {metrics.arpa != null ? formatCurrency(metrics.arpa, metrics.currency) : "—"}
+                  </div>
+                </CardContent>
+              </Card>
+              <Card className="glass-strong">
+                <CardContent className="pt-6">
+                  <div className="text-xs text-muted-foreground">Churn (30d, logo / revenue)</div>
+                  <div className="text-xl font-bold">
+                    {metrics.logo_churn_rate != null
+                      ? `${formatPercent(metrics.logo_churn_rate)} / ${formatPercent(metrics.revenue_churn_rate ?? 0)}`
+                      : "—"}
+                  </div>
+                </CardContent>
+              </Card>
+            </div>
 
-            {/* Provider Info */}
+            {/* Charts */}
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-8">
+              <Card className="glass-strong">
+                <CardHeader>
+                  <CardTitle>MRR Over Time</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <StartupMetricsChart startupId={startup.id} />
+                </CardContent>
+              </Card>
+
+              <Card className="glass-strong">
+                <CardHeader>
+                  <CardTitle>Leaderboard Rank</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <RankHistoryChart startupId={startup.id} />
+                </CardContent>
+              </Card>
+
+              <Card className="glass-strong">
+                <CardHeader>
+                  <CardTitle>MRR Movements</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <MrrMovementsChart startupId={startup.id} />
+                </CardContent>
+              </Card>
+            </div>
+
+            {/* Provider Breakdown */}
             <Card className="glass-strong">
-              <CardContent className="p-6">
-                <div className="flex items-center justify-between">
-                  <div>
-                    <div className="text-sm text-muted-foreground">Provider</div>
-                    <div className="text-lg font-semibold capitalize">{metrics.provider}</div>
-                  </div>
-                  {metrics.provider_last_synced_at && (
-                    <div className="text-right">
-                      <div className="text-sm text-muted-foreground">Last Synced</div>
-                      <div className="text-sm">
-                        {formatRelativeTime(metrics.provider_last_synced_at)}
+              <CardHeader>
+                <CardTitle>Revenue by Provider</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {(startup.providerMetrics || []).map((pm) => (
+                  <div
+                    key={pm.provider_connection_id}
+                    className="flex items-center justify-between border-b last:border-b-0 pb-4 last:pb-0"
+                  >
+                    <div>
+                      <div className="text-lg font-semibold capitalize">
+                        {pm.provider}
+                        {pm.connection_status === "revoked" && (
+                          <span className="ml-2 text-xs font-normal normal-case text-yellow-600">Disconnected</span>
+                        )}
+                        {pm.connection_status === "reauth_required" && (
+                          <span className="ml-2 text-xs font-normal normal-case text-yellow-600">Needs re-authorization</span>
+                        )}
                       </div>
+                      {pm.provider_last_synced_at && (
+                        <div className="text-xs text-muted-foreground">
+                          Synced {formatRelativeTime(pm.provider_last_synced_at)}
+                        </div>
+                      )}
+                      {pm.revenue_by_currency && Object.keys(pm.revenue_by_currency).length > 1 && (
+                        <div className="text-xs text-muted-foreground">
+                          Billed in {Object.keys(pm.revenue_by_currency).join(", ")}, shown in {pm.currency}
+                        </div>
+                      )}
                     </div>
-                  )}
-                </div>
+                    <div className="grid grid-cols-3 gap-6 text-right">
+                      <div>
+                        <div className="text-xs text-muted-foreground">MRR</div>
+                        <div className="font-semibold">{formatCurrency(pm.mrr, pm.currency)}</div>
+                      </div>
+                      <div>
+                        <div className="text-xs text-muted-foreground">Last 30d</div>
+                        <div className="font-semibold">{formatCurrency(pm.last_30d_revenue, pm.currency)}</div>
+                      </div>
+                      <div>
+                        <div className="text-xs text-muted-foreground">Total</div>
+                        <div className="font-semibold">{formatCurrency(pm.total_revenue, pm.currency)}</div>
+                      </div>
+                    </div>
+                  </div>
+                ))}
+                {metrics.provider_last_synced_at && (
+                  <div className="text-sm text-muted-foreground">
+                    Combined totals above are in {metrics.currency}. Last synced{" "}
+                    {formatRelativeTime(metrics.provider_last_synced_at)}.
+                  </div>
+                )}
               </CardContent>
             </Card>
           </>
@@ -8,28 +8,7 @@ import { Label } from "@/components/ui/label";
 import { Select } from "@/components/ui/select";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { motion } from "framer-motion";
-
-const COUNTRIES = [
-  { code: "FI", name: "Finland" },
-  { code: "SE", name: "Sweden" },
-  { code: "NO", name: "Norway" },
-  { code: "DK", name: "Denmark" },
-  { code: "IS", name: "Iceland" },
-  { code: "US", name: "United States" },
-  { code: "GB", name: "United Kingdom" },
-  { code: "DE", name: "Germany" },
-  { code: "FR", name: "France" },
-  { code: "NL", name: "Netherlands" },
-];
-
-const CATEGORIES = [
-  "SaaS",
-  "App",
-  "Agency",
-  "Service",
-  "E-commerce",
-  "Other",
-];
+import { CATEGORIES, COUNTRIES } from "@/lib/leaderboard";
 
 export default function SubmitPage() {
   const router = useRouter();
@@ -0,0 +1,40 @@
+import Link from "next/link";
+import { TrendingUp } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { StartupCard } from "@/components/StartupCard";
+import type { StartupWithMetrics } from "@/lib/supabase/queries";
+
+interface CategoryHeroSlotProps {
+  category: string;
+  hero: StartupWithMetrics | null;
+}
+
+/**
+ * The category_hero sponsorship placement at the top of a category page
+ * Shows the sponsoring startup, or an invitation to take the slot when it's free.
+ */
+export function CategoryHeroSlot({ category, hero }: CategoryHeroSlotProps) {
+  return (
+    <div className="mb-12">
+      <div className="flex items-center gap-2 mb-4 text-sm text-muted-foreground">
+        <TrendingUp className="w-4 h-4 text-primary" />
+        {category} Hero
+      </div>
+
+      {hero ? (
+        <div className="max-w-md">
+          <StartupCard startup={hero} index={0} />
+        </div>
+      ) : (
+        <div className="glass-strong rounded-lg border border-dashed p-6 flex flex-wrap items-center justify-between gap-4">
+          <p className="text-muted-foreground">
+            Feature your startup at the top of the {category} leaderboard.
+          </p>
+          <Link href="/advertise">
+            <Button variant="outline">Become the {category} Hero</Button>
+          </Link>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,9 +1,145 @@
 "use client";
 
+import { useState } from "react";
+import Image from "next/image";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
 import { motion } from "framer-motion";
 import { CheckCircle2 } from "lucide-react";
+import type { ProviderInfo } from "@/lib/providers/types";
+
+interface ProviderLogoProps {
+  provider: ProviderInfo;
+}
+
+function ProviderLogo({ provider }: ProviderLogoProps) {
+  return (
+    <Image
+      src={provider.logoUrl}
+      alt={`${provider.displayName} logo`}
+      width={40}
+      height={40}
+      className="w-10 h-10 rounded-lg object-contain"
+    />
+  );
+}
+
+interface ProviderCardProps {
+  startupId: string;
+  provider: ProviderInfo;
+}
+
+/**
+ * Card with an inline form for providers that connect with API keys/credentials
+ * instead of an OAuth redirect. Posts to /api/providers/[provider]/connect.
+ */
+function CredentialsProviderCard({ startupId, provider }: ProviderCardProps) {
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/providers/${provider.name}/connect`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ startupId, ...values }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) throw new Error(data.error || `Failed to connect ${provider.displayName}`);
+
+      window.location.href = data.redirectUrl;
+    } catch (error: any) {
+      console.error(error);
+      setError(error.message);
+      setLoading(false);
+    }
+  };
+
+  return (
+    <motion.div
+      whileHover={{ scale: 1.02 }}
+      transition={{ type: "spring", stiffness: 300 }}
+    >
+      <Card>
+        <CardContent className="p-6">
+          <div className="flex items-center gap-3 mb-2">
+            <ProviderLogo provider={provider} />
+            <h3 className="text-xl font-bold">{provider.displayName}</h3>
+          </div>
+          <p className="text-sm text-muted-foreground mb-4">{provider.description}</p>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            {(provider.credentialFields || []).map((field) => (
+              <div key={field.name}>
+                <Label htmlFor={`${provider.name}-${field.name}`}>{field.label}</Label>
+                <Input
+                  id={`${provider.name}-${field.name}`}
+                  type={field.secret ? "password" : "text"}
+                  required
+                  value={values[field.name] || ""}
+                  onChange={(e) => setValues({ ...values, [field.name]: e.target.value })}
+                  placeholder={field.placeholder}
+                />
+              </div>
+            ))}
+            {error && (
+              <p className="text-sm text-red-500">{error}</p>
+            )}
+            <Button type="submit" size="lg" className="w-full" disabled={loading}>
+              {loading ? "Connecting..." : `Connect ${provider.displayName}`}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </motion.div>
+  );
+}
+
+/**
+ * Card for OAuth providers: redirects to /api/providers/[provider]/connect
+ */
+function OAuthProviderCard({ startupId, provider }: ProviderCardProps) {
+  const handleConnect = () => {
+    window.location.href = `/api/providers/${provider.name}/connect?startupId=${startupId}`;
+  };
+
+  return (
+    <motion.div
+      whileHover={{ scale: 1.02 }}
+      transition={{ type: "spring", stiffness: 300 }}
+    >
+      <Card>
+        <CardContent className="p-6">
+          <div className="flex items-center gap-3 mb-2">
+            <ProviderLogo provider={provider} />
+            <h3 className="text-xl font-bold">{provider.displayName}</h3>
+          </div>
+          <p className="text-sm text-muted-foreground mb-4">{provider.description}</p>
+          <ul className="text-sm space-y-2 mb-4">
+            <li className="flex items-center gap-2">
+              <CheckCircle2 className="w-4 h-4 text-green-500" />
+              Automatic metrics sync
+            </li>
+            <li className="flex items-center gap-2">
+              <CheckCircle2 className="w-4 h-4 text-green-500" />
+              Secure OAuth connection
+            </li>
+          </ul>
+          <Button onClick={handleConnect} size="lg" className="w-full">
+            Connect {provider.displayName}
+          </Button>
+        </CardContent>
+      </Card>
+    </motion.div>
+  );
+}
 
 interface ConnectProviderClientProps {
   startup: {
@@ -14,13 +150,10 @@ interface ConnectProviderClientProps {
     country: string;
     category: string;
   };
+  providers: ProviderInfo[];
 }
 
-export function ConnectProviderClient({ startup }: ConnectProviderClientProps) {
-  const handleConnectStripe = () => {
-    window.location.href = `/api/providers/stripe/connect?startupId=${startup.id}`;
-  };
-
+export function ConnectProviderClient({ startup, providers }: ConnectProviderClientProps) {
   return (
     <div className="min-h-screen flex items-center justify-center p-4">
       <motion.div
@@ -46,41 +179,14 @@ export function ConnectProviderClient({ startup }: ConnectProviderClientProps) {
               </div>
             </div>
 
-            {/* Stripe Card */}
-            <motion.div
-              whileHover={{ scale: 1.02 }}
-              transition={{ type: "spring", stiffness: 300 }}
-            >
-              <Card className="border-primary/50">
-                <CardContent className="p-6">
-                  <div className="flex items-start justify-between mb-4">
-                    <div>
-                      <h3 className="text-xl font-bold mb-2">Stripe</h3>
-                      <p className="text-sm text-muted-foreground mb-4">
-                        Connect your Stripe account to sync MRR, total revenue, and last 30 days revenue.
-                      </p>
-                      <ul className="text-sm space-y-2 mb-4">
-                        <li className="flex items-center gap-2">
-                          <CheckCircle2 className="w-4 h-4 text-green-500" />
-                          Read-write access for metrics
-                        </li>
-                        <li className="flex items-center gap-2">
-                          <CheckCircle2 className="w-4 h-4 text-green-500" />
-                          Automatic metrics sync
-                        </li>
-                        <li className="flex items-center gap-2">
-                          <CheckCircle2 className="w-4 h-4 text-green-500" />
-                          Secure OAuth connection
-                        </li>
-                      </ul>
-                    </div>
-                  </div>
-                  <Button onClick={handleConnectStripe} size="lg" className="w-full">
-                    Connect Stripe
-                  </Button>
-                </CardContent>
-              </Card>
-            </motion.div>
+            {/* Provider Cards (from the adapter registry) */}
+            {providers.map((provider) =>
+              provider.authKind === "oauth" ? (
+                <OAuthProviderCard key={provider.name} startupId={startup.id} provider={provider} />
+              ) : (
+                <CredentialsProviderCard key={provider.name} startupId={startup.id} provider={provider} />
+              )
+            )}
           </CardContent>
         </Card>
       </motion.div>
@@ -13,7 +13,7 @@ export function ConnectionSuccessNotice() {
     >
       <CheckCircle2 className="w-5 h-5 text-green-500 flex-shrink-0" />
       <p className="text-sm text-green-500 font-medium">
-        Stripe connected. Metrics will update automatically.
+        Payment provider connected. Metrics will update automatically.
       </p>
     </motion.div>
   );
@@ -8,10 +8,11 @@ import { useEffect, useState } from "react";
 
 interface HeroSectionProps {
   totalMrr: number;
+  currency: string;
   startupCount: number;
 }
 
-export function HeroSection({ totalMrr, startupCount }: HeroSectionProps) {
+export function HeroSection({ totalMrr, currency, startupCount }: HeroSectionProps) {
   const [animatedMrr, setAnimatedMrr] = useState(0);
   const [animatedCount, setAnimatedCount] = useState(0);
 
@@ -87,7 +88,7 @@ export function HeroSection({ totalMrr, startupCount }: HeroSectionProps) {
             transition={{ type: "spring", stiffness: 300 }}
           >
             <div className="text-sm text-muted-foreground">Total MRR Tracked</div>
-            <div className="text-2xl font-bold">{formatCompact(animatedMrr)}</div>
+            <div className="text-2xl font-bold">{formatCompact(animatedMrr, currency)}</div>
           </motion.div>
           <motion.div
             className="glass-strong px-6 py-3 rounded-full"
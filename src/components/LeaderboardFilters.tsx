@@ -1,26 +1,134 @@
 "use client";
 
-import { useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { Select } from "@/components/ui/select";
+import {
+  CATEGORIES,
+  COUNTRIES,
+  DEFAULT_SORT,
+  SORT_OPTIONS,
+  hasActiveFilters,
+  leaderboardSearchParams,
+  parseLeaderboardFilters,
+  type SearchParams,
+} from "@/lib/leaderboard";
+import type { StartupFilters } from "@/lib/supabase/queries";
+import type { ProviderName } from "@/lib/providers/types";
 
-export function LeaderboardFilters() {
-  const [sortBy, setSortBy] = useState<"mrr" | "last_30d_revenue" | "total_revenue">("mrr");
+interface LeaderboardFiltersProps {
+  filters: StartupFilters;
+  providers: { name: ProviderName; displayName: string }[];
+  currency: string; // Reporting currency of the MRR range
+}
+
+/**
+ * Leaderboard sort and filters as a GET form on the home page
+ * Without JavaScript the Apply button submits it; with it, changes navigate right away.
+ */
+export function LeaderboardFilters({ filters, providers, currency }: LeaderboardFiltersProps) {
+  const router = useRouter();
+
+  function apply(form: HTMLFormElement) {
+    const values: SearchParams = {};
+    new FormData(form).forEach((value, name) => {
+      if (typeof value === "string" && value) values[name] = value;
+    });
+
+    const query = leaderboardSearchParams(parseLeaderboardFilters(values)).toString();
+    router.push(`/${query ? `?${query}` : ""}#leaderboard`, { scroll: false });
+  }
+
+  const submitOnChange = (e: React.ChangeEvent<HTMLSelectElement>) => e.currentTarget.form?.requestSubmit();
+  const submitOnBlur = (e: React.FocusEvent<HTMLInputElement>) => {
+    if (e.currentTarget.value !== e.currentTarget.defaultValue) e.currentTarget.form?.requestSubmit();
+  };
 
-  // For now, this is a simple client-side component
-  // In a full implementation, this would trigger server-side filtering
   return (
-    <div className="flex flex-wrap gap-4 items-center mb-6">
+    <form
+      // Remount when the URL changes so the fields show the applied filters
+      key={leaderboardSearchParams(filters).toString()}
+      method="get"
+      action="/#leaderboard"
+      onSubmit={(e) => {
+        e.preventDefault();
+        apply(e.currentTarget);
+      }}
+      className="flex flex-wrap gap-4 items-center mb-6"
+    >
       <span className="text-sm text-muted-foreground">Sort by:</span>
-      <Select
-        value={sortBy}
-        onChange={(e) => setSortBy(e.target.value as any)}
-        className="w-48"
-      >
-        <option value="mrr">MRR (Highest)</option>
-        <option value="last_30d_revenue">Last 30 Days</option>
-        <option value="total_revenue">Total Revenue</option>
+      <Select name="sort" defaultValue={filters.sortBy || DEFAULT_SORT} onChange={submitOnChange} className="w-48">
+        {SORT_OPTIONS.map((option) => (
+          <option key={option.value} value={option.value}>
+            {option.label}
+          </option>
+        ))}
+      </Select>
+
+      <Select name="country" defaultValue={filters.country?.[0] || ""} onChange={submitOnChange} className="w-44">
+        <option value="">All countries</option>
+        {COUNTRIES.map((country) => (
+          <option key={country.code} value={country.code}>
+            {country.name}
+          </option>
+        ))}
       </Select>
-    </div>
+
+      <Select name="category" defaultValue={filters.category?.[0] || ""} onChange={submitOnChange} className="w-40">
+        <option value="">All categories</option>
+        {CATEGORIES.map((category) => (
+          <option key={category} value={category}>
+            {category}
+          </option>
+        ))}
+      </Select>
+
+      <Select name="provider" defaultValue={filters.provider?.[0] || ""} onChange={submitOnChange} className="w-40">
+        <option value="">All providers</option>
+        {providers.map((provider) => (
+          <option key={provider.name} value={provider.name}>
+            {provider.displayName}
+          </option>
+        ))}
+      </Select>
+
+      <div className="flex items-center gap-2">
+        <Input
+          name="min_mrr"
+          type="number"
+          min={0}
+          placeholder={`Min MRR (${currency})`}
+          defaultValue={filters.minMrr ?? ""}
+          onBlur={submitOnBlur}
+          className="w-36"
+        />
+        <span className="text-muted-foreground">–</span>
+        <Input
+          name="max_mrr"
+          type="number"
+          min={0}
+          placeholder={`Max MRR (${currency})`}
+          defaultValue={filters.maxMrr ?? ""}
+          onBlur={submitOnBlur}
+          className="w-36"
+        />
+      </div>
+
+      <Button type="submit" variant="outline">
+        Apply
+      </Button>
+
+      {hasActiveFilters(filters) && (
+        <Link
+          href={`/?${leaderboardSearchParams({ sortBy: filters.sortBy })}#leaderboard`}
+          scroll={false}
+          className="text-sm text-muted-foreground hover:text-foreground"
+        >
+          Clear filters
+        </Link>
+      )}
+    </form>
   );
 }
@@ -0,0 +1,80 @@
+"use client";
+
+import { useState } from "react";
+import { buttonVariants } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { StartupCard } from "@/components/StartupCard";
+import { LEADERBOARD_PAGE_SIZE } from "@/lib/leaderboard";
+import type { StartupWithMetrics } from "@/lib/supabase/queries";
+
+interface LeaderboardGridProps {
+  startups: StartupWithMetrics[];
+  nextCursor: string | null; // Encoded cursor of the next page
+  query: string; // Filter search params of the current view
+  basePath: string; // Page the no-JS "Load more" link goes to; it must read `after`
+  hiddenIds?: string[]; // Startups already shown elsewhere on the page (e.g. the category hero)
+}
+
+/**
+ * Leaderboard cards with "Load more"
+ * "Load more" is a link to the next page (styled as a button), so paging also works without JavaScript;
+ * with it, the next page is fetched from /api/leaderboard and appended.
+ */
+export function LeaderboardGrid({
+  startups: initialStartups,
+  nextCursor: initialCursor,
+  query,
+  basePath,
+  hiddenIds = [],
+}: LeaderboardGridProps) {
+  const [startups, setStartups] = useState(initialStartups);
+  const [nextCursor, setNextCursor] = useState(initialCursor);
+  const [loading, setLoading] = useState(false);
+
+  const pageQuery = (cursor: string) => `${query ? `${query}&` : ""}after=${encodeURIComponent(cursor)}`;
+  const pageHref = (cursor: string) => `${basePath}?${pageQuery(cursor)}#leaderboard`;
+
+  const loadMore = async (e: React.MouseEvent<HTMLAnchorElement>) => {
+    if (!nextCursor) return;
+    e.preventDefault();
+    setLoading(true);
+
+    try {
+      const response = await fetch(`/api/leaderboard?${pageQuery(nextCursor)}`);
+      if (!response.ok) throw new Error("Failed to load more startups");
+
+      const page = await response.json();
+      setStartups((current) => [...current, ...page.startups]);
+      setNextCursor(page.nextCursor);
+    } catch (error) {
+      console.error("Error loading more startups:", error);
+      window.location.href = pageHref(nextCursor);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <>
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 mt-8">
+        {startups.filter((startup) => !hiddenIds.includes(startup.id)).map((startup, index) => (
+          // Animate each loaded page from its first card
+          <StartupCard key={startup.id} startup={startup} index={index % LEADERBOARD_PAGE_SIZE} />
+        ))}
+      </div>
+
+      {nextCursor && (
+        <div className="flex justify-center mt-10">
+          <a
+            href={pageHref(nextCursor)}
+            onClick={loadMore}
+            aria-disabled={loading}
+            className={cn(buttonVariants({ variant: "outline", size: "lg" }), loading && "pointer-events-none opacity-50")}
+          >
+            {loading ? "Loading..." : "Load more"}
+          </a>
+        </div>
+      )}
+    </>
+  );
+}
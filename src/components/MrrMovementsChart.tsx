@@ -0,0 +1,122 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from "recharts";
+import { supabase } from "@/lib/supabase/client";
+import { formatCompact } from "@/lib/utils";
+
+interface MrrMovementsChartProps {
+  startupId: string;
+}
+
+interface MonthMovements {
+  month: string;
+  new: number;
+  expansion: number;
+  reactivation: number;
+  contraction: number; // Negative, so losses stack below the axis
+  churn: number; // Negative
+}
+
+const SERIES = [
+  { key: "new", name: "New", color: "hsl(142 71% 45%)" },
+  { key: "expansion", name: "Expansion", color: "hsl(199 89% 48%)" },
+  { key: "reactivation", name: "Reactivation", color: "hsl(262 83% 58%)" },
+  { key: "contraction", name: "Contraction", color: "hsl(38 92% 50%)" },
+  { key: "churn", name: "Churn", color: "hsl(0 84% 60%)" },
+] as const;
+
+function formatSigned(value: number, currency: string): string {
+  return value < 0 ? `-${formatCompact(-value, currency)}` : formatCompact(value, currency);
+}
+
+export function MrrMovementsChart({ startupId }: MrrMovementsChartProps) {
+  const [data, setData] = useState<MonthMovements[]>([]);
+  const [currency, setCurrency] = useState("EUR");
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    async function fetchMovements() {
+      const since = new Date();
+      since.setMonth(since.getMonth() - 11, 1);
+
+      const { data: history, error } = await supabase
+        .from("startup_metrics_history")
+        .select("snapshot_date, currency, new_mrr, expansion_mrr, contraction_mrr, churned_mrr, reactivation_mrr")
+        .eq("startup_id", startupId)
+        .gte("snapshot_date", since.toISOString().split("T")[0])
+        .order("snapshot_date", { ascending: true });
+
+      if (error) {
+        console.error(error);
+        setLoading(false);
+        return;
+      }
+
+      // Daily snapshots are summed into months
+      const months = new Map<string, MonthMovements>();
+      for (const h of history || []) {
+        const key = h.snapshot_date.slice(0, 7);
+        const month = months.get(key) || {
+          month: new Date(`${key}-01`).toLocaleDateString("en-US", { month: "short", year: "2-digit" }),
+          new: 0,
+          expansion: 0,
+          reactivation: 0,
+          contraction: 0,
+          churn: 0,
+        };
+
+        month.new += Number(h.new_mrr || 0);
+        month.expansion += Number(h.expansion_mrr || 0);
+        month.reactivation += Number(h.reactivation_mrr || 0);
+        month.contraction -= Number(h.contraction_mrr || 0);
+        month.churn -= Number(h.churned_mrr || 0);
+        months.set(key, month);
+      }
+
+      const chartData = Array.from(months.values()).filter((m) =>
+        m.new || m.expansion || m.reactivation || m.contraction || m.churn
+      );
+
+      setData(chartData);
+      if (history?.length) setCurrency(history[history.length - 1].currency);
+      setLoading(false);
+    }
+
+    fetchMovements();
+  }, [startupId]);
+
+  if (loading) {
+    return <div className="h-64 flex items-center justify-center text-muted-foreground">Loading chart...</div>;
+  }
+
+  if (data.length === 0) {
+    return (
+      <div className="h-64 flex items-center justify-center text-muted-foreground text-center">
+        No MRR movements yet. They appear from the second sync onwards.
+      </div>
+    );
+  }
+
+  return (
+    <ResponsiveContainer width="100%" height={300}>
+      <BarChart data={data} stackOffset="sign">
+        <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--muted))" />
+        <XAxis dataKey="month" stroke="hsl(var(--muted-foreground))" />
+        <YAxis stroke="hsl(var(--muted-foreground))" tickFormatter={(value) => formatSigned(value, currency)} />
+        <Tooltip
+          formatter={(value: number) => formatSigned(value, currency)}
+          contentStyle={{
+            backgroundColor: "hsl(var(--card))",
+            border: "1px solid hsl(var(--border))",
+            borderRadius: "8px",
+          }}
+        />
+        <Legend />
+        {SERIES.map((series) => (
+          <Bar key={series.key} dataKey={series.key} name={series.name} stackId="movements" fill={series.color} />
+        ))}
+      </BarChart>
+    </ResponsiveContainer>
+  );
+}
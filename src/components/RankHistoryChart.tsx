@@ -0,0 +1,160 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from "recharts";
+import { supabase } from "@/lib/supabase/client";
+import { countryName } from "@/lib/leaderboard";
+import { rankChange, rankDelta, type RankChange, type RankScope, type RankSnapshot } from "@/lib/metrics/ranks";
+
+interface RankHistoryChartProps {
+  startupId: string;
+}
+
+type DayRanks = { date: string } & Partial<Record<RankScope, number>>;
+
+const HISTORY_DAYS = 90;
+
+const SERIES: { key: RankScope; color: string }[] = [
+  { key: "overall", color: "hsl(var(--primary))" },
+  { key: "country", color: "hsl(199 89% 48%)" },
+  { key: "category", color: "hsl(262 83% 58%)" },
+];
+
+function scopeLabel(scope: RankScope, segment: string): string {
+  if (scope === "overall") return "Overall";
+  return scope === "country" ? countryName(segment) : segment;
+}
+
+function RankSummary({ change }: { change: RankChange }) {
+  const earlier = [
+    { label: "yesterday", rank: change.yesterday },
+    { label: "last week", rank: change.lastWeek },
+    { label: "last month", rank: change.lastMonth },
+  ];
+
+  return (
+    <div>
+      <div className="text-sm text-muted-foreground">{scopeLabel(change.scope, change.segment)}</div>
+      <div className="text-2xl font-bold">
+        #{change.rank}
+        <span className="text-sm font-normal text-muted-foreground"> of {change.total}</span>
+      </div>
+      <div className="text-xs text-muted-foreground space-x-2">
+        {earlier.map(({ label, rank }) => {
+          const delta = rankDelta(change.rank, rank);
+          return (
+            <span key={label}>
+              {label}{" "}
+              {rank == null ? "–" : `#${rank}`}
+              {delta ? (
+                <span className={delta > 0 ? "text-green-600" : "text-red-600"}>
+                  {" "}({delta > 0 ? "▲" : "▼"}{Math.abs(delta)})
+                </span>
+              ) : null}
+            </span>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Leaderboard rank over time, overall and within the startup's country and category
+ */
+export function RankHistoryChart({ startupId }: RankHistoryChartProps) {
+  const [history, setHistory] = useState<RankSnapshot[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    async function fetchRanks() {
+      const since = new Date();
+      since.setDate(since.getDate() - HISTORY_DAYS);
+
+      const { data, error } = await supabase
+        .from("startup_rank_history")
+        .select("snapshot_date, scope, segment, rank, total")
+        .eq("startup_id", startupId)
+        .gte("snapshot_date", since.toISOString().split("T")[0])
+        .order("snapshot_date", { ascending: true });
+
+      if (error) {
+        console.error(error);
+        setLoading(false);
+        return;
+      }
+
+      setHistory((data || []) as RankSnapshot[]);
+      setLoading(false);
+    }
+
+    fetchRanks();
+  }, [startupId]);
+
+  if (loading) {
+    return <div className="h-64 flex items-center justify-center text-muted-foreground">Loading chart...</div>;
+  }
+
+  if (history.length === 0) {
+    return (
+      <div className="h-64 flex items-center justify-center text-muted-foreground">
+        No rank history yet. Ranks are recorded once a day.
+      </div>
+    );
+  }
+
+  const changes = SERIES
+    .map(({ key }) => rankChange(history, key))
+    .filter((change): change is RankChange => !!change);
+
+  const days = new Map<string, DayRanks>();
+  for (const snapshot of history) {
+    const day = days.get(snapshot.snapshot_date) || { date: snapshot.snapshot_date };
+    day[snapshot.scope] = Number(snapshot.rank);
+    days.set(snapshot.snapshot_date, day);
+  }
+  const data = Array.from(days.values()).map((day) => ({
+    ...day,
+    date: new Date(day.date).toLocaleDateString("en-US", { month: "short", day: "numeric" }),
+  }));
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        {changes.map((change) => (
+          <RankSummary key={change.scope} change={change} />
+        ))}
+      </div>
+
+      <ResponsiveContainer width="100%" height={300}>
+        <LineChart data={data}>
+          <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--muted))" />
+          <XAxis dataKey="date" stroke="hsl(var(--muted-foreground))" />
+          {/* Rank 1 at the top */}
+          <YAxis reversed allowDecimals={false} domain={[1, "dataMax"]} stroke="hsl(var(--muted-foreground))" />
+          <Tooltip
+            formatter={(value: number) => `#${value}`}
+            contentStyle={{
+              backgroundColor: "hsl(var(--card))",
+              border: "1px solid hsl(var(--border))",
+              borderRadius: "8px",
+            }}
+          />
+          <Legend />
+          {changes.map((change) => (
+            <Line
+              key={change.scope}
+              type="stepAfter"
+              dataKey={change.scope}
+              name={scopeLabel(change.scope, change.segment)}
+              stroke={SERIES.find((series) => series.key === change.scope)!.color}
+              strokeWidth={2}
+              dot={false}
+              connectNulls
+            />
+          ))}
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
@@ -0,0 +1,44 @@
+import Link from "next/link";
+import { formatCompact } from "@/lib/utils";
+
+interface SegmentHeaderProps {
+  eyebrow: string; // e.g. "Country" or "Category"
+  title: string;
+  totalMrr: number;
+  currency: string;
+  startupCount: number;
+}
+
+/**
+ * Header of a country or category leaderboard with its aggregate MRR
+ * (the segment's counterpart of HeroSection)
+ */
+export function SegmentHeader({ eyebrow, title, totalMrr, currency, startupCount }: SegmentHeaderProps) {
+  return (
+    <div className="relative overflow-hidden border-b">
+      <div className="absolute inset-0 gradient-hero opacity-20" />
+      <div className="absolute inset-0 bg-background/40 backdrop-blur-sm" />
+
+      <div className="relative z-10 container mx-auto px-4 py-20 text-center">
+        <Link href="/" className="text-sm text-muted-foreground hover:text-foreground">
+          ← All startups
+        </Link>
+        <p className="text-sm uppercase tracking-widest text-muted-foreground mt-6 mb-2">{eyebrow}</p>
+        <h1 className="text-5xl md:text-6xl font-bold mb-10 bg-gradient-to-r from-primary to-purple-500 bg-clip-text text-transparent">
+          {title}
+        </h1>
+
+        <div className="flex flex-wrap justify-center gap-4">
+          <div className="glass-strong px-6 py-3 rounded-full">
+            <div className="text-sm text-muted-foreground">Total MRR Tracked</div>
+            <div className="text-2xl font-bold">{formatCompact(totalMrr, currency)}</div>
+          </div>
+          <div className="glass-strong px-6 py-3 rounded-full">
+            <div className="text-sm text-muted-foreground">Verified Startups</div>
+            <div className="text-2xl font-bold">{startupCount}</div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -3,19 +3,74 @@
 import { motion } from "framer-motion";
 import Link from "next/link";
 import { Card, CardContent } from "@/components/ui/card";
-import { formatCompact, getCountryFlag, isNordicCountry } from "@/lib/utils";
+import { formatCompact, formatPercent, getCountryFlag, isNordicCountry } from "@/lib/utils";
 import type { StartupWithMetrics } from "@/lib/supabase/queries";
-import { Sparkles } from "lucide-react";
+import { reportingValue } from "@/lib/metrics/aggregate";
+import { rankDelta, type RankChange } from "@/lib/metrics/ranks";
+import { countryName } from "@/lib/leaderboard";
+import { ArrowDown, ArrowUp, ShieldAlert, Sparkles, TrendingDown, TrendingUp } from "lucide-react";
 
 interface StartupCardProps {
   startup: StartupWithMetrics;
   index: number;
 }
 
+function GrowthBadge({ growth, period, title }: { growth: number; period: string; title: string }) {
+  const Icon = growth < 0 ? TrendingDown : TrendingUp;
+  return (
+    <span
+      className={`px-2 py-0.5 rounded-full text-xs flex items-center gap-1 ${
+        growth < 0 ? "bg-red-500/15 text-red-600" : "bg-green-500/15 text-green-600"
+      }`}
+      title={title}
+    >
+      <Icon className="w-3 h-3" />
+      {growth > 0 ? "+" : ""}
+      {formatPercent(growth)} {period}
+    </span>
+  );
+}
+
+// Rank with the places gained or lost since last week; earlier ranks on hover
+function RankMovement({ rank }: { rank: RankChange }) {
+  const delta = rankDelta(rank.rank, rank.lastWeek);
+  const earlier = [
+    ["Yesterday", rank.yesterday],
+    ["Last week", rank.lastWeek],
+    ["Last month", rank.lastMonth],
+  ]
+    .filter(([, value]) => value != null)
+    .map(([label, value]) => `${label}: #${value}`);
+  const scope = rank.scope === "overall"
+    ? "overall"
+    : `in ${rank.scope === "country" ? countryName(rank.segment) : rank.segment}`;
+
+  return (
+    <span
+      className="flex items-center gap-1 text-xs"
+      title={[`#${rank.rank} of ${rank.total} ${scope}`, ...earlier].join("\n")}
+    >
+      <span className="font-medium text-foreground">#{rank.rank}</span>
+      {delta != null && delta !== 0 && (
+        <span className={`flex items-center ${delta > 0 ? "text-green-600" : "text-red-600"}`}>
+          {delta > 0 ? <ArrowUp className="w-3 h-3" /> : <ArrowDown className="w-3 h-3" />}
+          {Math.abs(delta)}
+        </span>
+      )}
+    </span>
+  );
+}
+
 export function StartupCard({ startup, index }: StartupCardProps) {
   const metrics = startup.metrics;
+  // Cards are ranked on reporting-currency values, so show them in that currency too
+  const displayCurrency = metrics?.mrr_reporting != null && metrics.reporting_currency
+    ? metrics.reporting_currency
+    : metrics?.currency;
   const isNordic = isNordicCountry(startup.country);
   const isSponsored = startup.sponsorship?.status === "active";
+  // Metrics without a connected provider (revoked, or failing to sync) are no longer being verified
+  const isUnverified = !!metrics && !startup.verified;
 
   return (
     <motion.div
@@ -42,6 +97,15 @@ export function StartupCard({ startup, index }: StartupCardProps) {
                         Sponsored
                       </span>
                     )}
+                    {isUnverified && (
+                      <span
+                        className="px-2 py-0.5 bg-yellow-500/20 text-yellow-600 rounded-full text-xs flex items-center gap-1"
+                        title="The payment provider was disconnected; these numbers are no longer updated"
+                      >
+                        <ShieldAlert className="w-3 h-3" />
+                        Unverified
+                      </span>
+                    )}
                   </div>
                   <div className="flex items-center gap-2 text-sm text-muted-foreground">
                     <span>{getCountryFlag(startup.country)}</span>
@@ -51,6 +115,7 @@ export function StartupCard({ startup, index }: StartupCardProps) {
                         Nordic Verified
                       </span>
                     )}
+                    {startup.rank && <RankMovement rank={startup.rank} />}
                   </div>
                 </div>
                 {startup.logo_url && (
@@ -67,19 +132,31 @@ export function StartupCard({ startup, index }: StartupCardProps) {
                   <div className="flex justify-between items-center">
                     <span className="text-sm text-muted-foreground">MRR</span>
                     <span className="text-lg font-bold">
-                      {formatCompact(metrics.mrr)}
+                      {formatCompact(reportingValue(metrics, "mrr"), displayCurrency)}
                     </span>
                   </div>
+                  {(metrics.mrr_growth_mom != null || metrics.mrr_growth_3m != null) && (
+                    <div className="flex justify-end gap-2">
+                      {metrics.mrr_growth_mom != null && (
+                        <GrowthBadge growth={metrics.mrr_growth_mom} period="MoM" title="MRR growth over the last month" />
+                      )}
+                      {metrics.mrr_growth_3m != null && (
+                        <GrowthBadge growth={metrics.mrr_growth_3m} period="3M" title="MRR growth over the last 3 months" />
+                      )}
+                    </div>
+                  )}
                   <div className="flex justify-between items-center">
                     <span className="text-sm text-muted-foreground">Last 30d</span>
                     <span className="text-sm">
-                      {formatCompact(metrics.last_30d_revenue)}
+                      {formatCompact(reportingValue(metrics, "last_30d_revenue"), displayCurrency)}
                     </span>
                   </div>
                   <div className="flex justify-between items-center pt-2 border-t">
-                    <span className="text-xs text-muted-foreground">Provider</span>
+                    <span className="text-xs text-muted-foreground">
+                      {metrics.providers?.length > 1 ? "Providers" : "Provider"}
+                    </span>
                     <span className="text-xs px-2 py-1 bg-secondary rounded">
-                      {metrics.provider}
+                      {metrics.providers?.length ? metrics.providers.join(" + ") : metrics.provider}
                     </span>
                   </div>
                 </div>
@@ -18,8 +18,8 @@ export function StartupMetricsChart({ startupId }: StartupMetricsChartProps) {
         .from("startup_metrics_history")
         .select("snapshot_date, mrr")
         .eq("startup_id", startupId)
-        .order("snapshot_date", { ascending: true })
-        .limit(30);
+        .order("snapshot_date", { ascending: false })
+        .limit(90); // Latest snapshots, including backfilled months
 
       if (error) {
         console.error(error);
@@ -27,8 +27,8 @@ export function StartupMetricsChart({ startupId }: StartupMetricsChartProps) {
         return;
       }
 
-      const chartData = (history || []).map((h) => ({
-        date: new Date(h.snapshot_date).toLocaleDateString("en-US", { month: "short", day: "numeric" }),
+      const chartData = (history || []).reverse().map((h) => ({
+        date: new Date(h.snapshot_date).toLocaleDateString("en-US", { month: "short", day: "numeric", year: "2-digit" }),
         mrr: Number(h.mrr),
       }));
 
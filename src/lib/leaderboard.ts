@@ -0,0 +1,152 @@
+/**
+ * Leaderboard filters in the URL
+ *
+ * The home page reads its filters from search params so filtered views are shareable
+ * links and work without JavaScript (the filter form is a plain GET form):
+ *   /?sort=arr&country=FI,SE&category=SaaS&provider=stripe&min_mrr=1000&max_mrr=50000
+ * List filters take comma-separated or repeated values. Unknown values are ignored.
+ *
+ * Pages after the first carry the previous page's last position as `after`
+ * (see LeaderboardCursor); "Load more" fetches the same from /api/leaderboard.
+ */
+
+import type { LeaderboardCursor, LeaderboardSort, StartupFilters } from "./supabase/queries";
+import type { ProviderName } from "./providers/types";
+import { slugify } from "./utils";
+
+// Listed countries and categories (also the options of the submit form)
+export const COUNTRIES = [
+  { code: "FI", name: "Finland" },
+  { code: "SE", name: "Sweden" },
+  { code: "NO", name: "Norway" },
+  { code: "DK", name: "Denmark" },
+  { code: "IS", name: "Iceland" },
+  { code: "US", name: "United States" },
+  { code: "GB", name: "United Kingdom" },
+  { code: "DE", name: "Germany" },
+  { code: "FR", name: "France" },
+  { code: "NL", name: "Netherlands" },
+];
+
+export const CATEGORIES = [
+  "SaaS",
+  "App",
+  "Agency",
+  "Service",
+  "E-commerce",
+  "Other",
+];
+
+export function countryName(code: string): string {
+  return COUNTRIES.find((country) => country.code === code.toUpperCase())?.name || code.toUpperCase();
+}
+
+/**
+ * URL slug of a category page (/category/e-commerce)
+ */
+export function categorySlug(category: string): string {
+  return slugify(category);
+}
+
+export function categoryFromSlug(slug: string): string | undefined {
+  return CATEGORIES.find((category) => categorySlug(category) === slug.toLowerCase());
+}
+
+export const SORT_OPTIONS: { value: LeaderboardSort; label: string }[] = [
+  { value: "mrr", label: "MRR (Highest)" },
+  { value: "last_30d_revenue", label: "Last 30 Days" },
+  { value: "total_revenue", label: "Total Revenue" },
+  { value: "arr", label: "ARR" },
+  { value: "arpa", label: "ARPA" },
+  { value: "active_customers", label: "Customers" },
+  { value: "logo_churn_rate", label: "Lowest Logo Churn" },
+  { value: "revenue_churn_rate", label: "Lowest Revenue Churn" },
+  { value: "mrr_growth_mom", label: "Fastest Growing (MoM)" },
+  { value: "mrr_growth_3m", label: "Fastest Growing (3 Months)" },
+];
+
+export const DEFAULT_SORT: LeaderboardSort = "mrr";
+
+export const LEADERBOARD_PAGE_SIZE = 24;
+
+export type SearchParams = Record<string, string | string[] | undefined>;
+
+function listParam(params: SearchParams, name: string): string[] {
+  const value = params[name];
+  return (Array.isArray(value) ? value : value ? [value] : [])
+    .flatMap((entry) => entry.split(","))
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+}
+
+function amountParam(params: SearchParams, name: string): number | undefined {
+  const value = params[name];
+  const amount = Number(Array.isArray(value) ? value[0] : value);
+  return value && Number.isFinite(amount) && amount >= 0 ? amount : undefined;
+}
+
+/**
+ * Read leaderboard filters from a page's search params
+ */
+export function parseLeaderboardFilters(params: SearchParams): StartupFilters & { sortBy: LeaderboardSort } {
+  const sort = listParam(params, "sort")[0];
+  const country = listParam(params, "country")
+    .map((code) => code.toUpperCase())
+    .filter((code) => /^[A-Z]{2}$/.test(code));
+  const category = listParam(params, "category").filter((value) => CATEGORIES.includes(value));
+  const provider = listParam(params, "provider")
+    .map((name) => name.toLowerCase())
+    .filter((name) => /^[a-z_]+$/.test(name)) as ProviderName[];
+
+  return {
+    sortBy: SORT_OPTIONS.some((option) => option.value === sort) ? (sort as LeaderboardSort) : DEFAULT_SORT,
+    country: country.length ? country : undefined,
+    category: category.length ? category : undefined,
+    provider: provider.length ? provider : undefined,
+    minMrr: amountParam(params, "min_mrr"),
+    maxMrr: amountParam(params, "max_mrr"),
+  };
+}
+
+/**
+ * Search params for a set of filters (defaults left out), the inverse of parseLeaderboardFilters()
+ */
+export function leaderboardSearchParams(filters: StartupFilters): URLSearchParams {
+  const params = new URLSearchParams();
+  if (filters.sortBy && filters.sortBy !== DEFAULT_SORT) params.set("sort", filters.sortBy);
+  if (filters.country?.length) params.set("country", filters.country.join(","));
+  if (filters.category?.length) params.set("category", filters.category.join(","));
+  if (filters.provider?.length) params.set("provider", filters.provider.join(","));
+  if (filters.minMrr !== undefined) params.set("min_mrr", String(filters.minMrr));
+  if (filters.maxMrr !== undefined) params.set("max_mrr", String(filters.maxMrr));
+  return params;
+}
+
+/**
+ * Whether anything narrows the leaderboard (sorting alone doesn't)
+ */
+export function hasActiveFilters(filters: StartupFilters): boolean {
+  return !!(
+    filters.country?.length ||
+    filters.category?.length ||
+    filters.provider?.length ||
+    filters.minMrr !== undefined ||
+    filters.maxMrr !== undefined
+  );
+}
+
+/**
+ * Cursor as a URL value: "<tier>_<missing>_<key>_<startup id>"
+ */
+export function encodeLeaderboardCursor(cursor: LeaderboardCursor): string {
+  return `${cursor.tier}_${cursor.missing}_${cursor.key}_${cursor.id}`;
+}
+
+/**
+ * Read an `after` cursor; null for the first page or a malformed value
+ */
+export function parseLeaderboardCursor(value: string | string[] | undefined): LeaderboardCursor | null {
+  const match = /^([01])_([01])_(-?\d+(?:\.\d+)?)_([0-9a-f-]{36})$/i.exec(Array.isArray(value) ? value[0] : value || "");
+  if (!match) return null;
+  return { tier: Number(match[1]), missing: Number(match[2]), key: match[3], id: match[4] };
+}
@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import { combineConnectionMetrics, type ConnectionMetrics } from "./aggregate";
+import type { FxRates } from "./fx";
+
+const fx: FxRates = { date: "2024-06-14", rates: { USD: 1.25 } };
+
+function connection(overrides: Partial<ConnectionMetrics> = {}): ConnectionMetrics {
+  return {
+    provider: "stripe",
+    currency: "EUR",
+    mrr: 1000,
+    total_revenue: 10000,
+    last_30d_revenue: 1000,
+    provider_last_synced_at: "2024-06-14T10:00:00Z",
+    ...overrides,
+  };
+}
+
+describe("combineConnectionMetrics", () => {
+  it("is null without connections", () => {
+    expect(combineConnectionMetrics([], fx)).toBeNull();
+  });
+
+  it("keeps a shared currency without converting", () => {
+    const combined = combineConnectionMetrics(
+      [connection({ currency: "USD" }), connection({ provider: "paddle", currency: "usd", mrr: 3000 })],
+      { date: null, rates: {} }
+    );
+    expect(combined).toMatchObject({ currency: "USD", mrr: 4000, provider: "paddle", skipped: [] });
+  });
+
+  it("converts mixed currencies to the reporting currency", () => {
+    const combined = combineConnectionMetrics(
+      [connection(), connection({ provider: "paddle", currency: "USD", mrr: 2500, total_revenue: 0, last_30d_revenue: 0 })],
+      fx
+    );
+    expect(combined).toMatchObject({ currency: "EUR", mrr: 3000, total_revenue: 10000, providers: ["stripe", "paddle"] });
+  });
+
+  it("leaves out connections whose currency has no rate", () => {
+    const gbp = connection({ provider: "paddle", currency: "GBP", mrr: 5000 });
+    const combined = combineConnectionMetrics([connection(), gbp], fx);
+    expect(combined).toMatchObject({ currency: "EUR", mrr: 1000, provider: "stripe", providers: ["stripe"] });
+    expect(combined?.skipped).toEqual([gbp]);
+  });
+
+  it("falls back to the largest connection's currency when none converts", () => {
+    const combined = combineConnectionMetrics(
+      [connection({ currency: "GBP", mrr: 500 }), connection({ provider: "paddle", currency: "CHF", mrr: 900 })],
+      fx
+    );
+    expect(combined).toMatchObject({ currency: "CHF", mrr: 900, provider: "paddle" });
+    expect(combined?.skipped.map((row) => row.currency)).toEqual(["GBP"]);
+  });
+
+  it("combines customer metrics only from providers that report them", () => {
+    const combined = combineConnectionMetrics(
+      [
+        connection({ active_customers: 10, logo_churn_rate: 0.1, revenue_churn_rate: 0.05 }),
+        connection({ provider: "mollie", mrr: 3000, active_customers: 30, logo_churn_rate: 0.2, revenue_churn_rate: 0.1 }),
+        connection({ provider: "paypal", mrr: 6000, active_customers: null }),
+      ],
+      fx
+    );
+    expect(combined).toMatchObject({
+      mrr: 10000,
+      arr: 120000,
+      active_customers: 40,
+      arpa: 100,
+      logo_churn_rate: 0.175,
+      revenue_churn_rate: 0.0875,
+    });
+  });
+
+  it("reports the oldest provider sync", () => {
+    const combined = combineConnectionMetrics(
+      [connection(), connection({ provider_last_synced_at: "2024-06-13T09:00:00Z" }), connection({ provider_last_synced_at: null })],
+      fx
+    );
+    expect(combined?.provider_last_synced_at).toBe("2024-06-13T09:00:00Z");
+  });
+});
@@ -0,0 +1,158 @@
+/**
+ * Combine per-connection metrics into a single startup-level total
+ *
+ * Pure functions, no database access.
+ */
+
+import { convertCurrency, REPORTING_CURRENCY, type FxRates } from "./fx";
+
+export interface ConnectionMetrics {
+  provider: string;
+  currency: string;
+  mrr: number;
+  total_revenue: number;
+  last_30d_revenue: number;
+  active_customers?: number | null; // Null for providers without customer metrics
+  logo_churn_rate?: number | null;
+  revenue_churn_rate?: number | null;
+  provider_last_synced_at: string | null;
+}
+
+export interface CombinedMetrics {
+  currency: string;
+  mrr: number;
+  total_revenue: number;
+  last_30d_revenue: number;
+  provider: string; // Primary provider (largest MRR)
+  providers: string[]; // All contributing providers
+  active_customers: number | null; // Sum over connections that report customers
+  arpa: number | null; // MRR of those connections / their customers
+  arr: number; // MRR × 12
+  logo_churn_rate: number | null; // Weighted by customers
+  revenue_churn_rate: number | null; // Weighted by MRR
+  provider_last_synced_at: string | null; // Oldest sync among connections
+  skipped: ConnectionMetrics[]; // Left out: no FX rate for their currency
+}
+
+function canConvert(from: string, to: string, fx: FxRates): boolean {
+  try {
+    convertCurrency(1, from, to, fx);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Sum metrics from several provider connections
+ *
+ * If every connection reports the same currency, totals stay in that currency.
+ * Otherwise each connection is converted to REPORTING_CURRENCY before summing.
+ * Connections in a currency without an FX rate are left out (see `skipped`) rather than
+ * failing the whole startup; if none converts, the largest connection's currency is used.
+ * Customer metrics only combine connections whose provider reports them.
+ *
+ * @param fx - Rates used when connections report different currencies
+ * @returns Combined metrics, or null if there are no connections
+ */
+export function combineConnectionMetrics(allRows: ConnectionMetrics[], fx: FxRates): CombinedMetrics | null {
+  if (allRows.length === 0) return null;
+
+  const currencies = new Set(allRows.map((r) => r.currency.toUpperCase()));
+  let currency = currencies.size === 1 ? allRows[0].currency.toUpperCase() : REPORTING_CURRENCY;
+  let rows = allRows.filter((r) => canConvert(r.currency, currency, fx));
+  if (rows.length === 0) {
+    currency = allRows.reduce((a, b) => (Number(b.mrr) > Number(a.mrr) ? b : a)).currency.toUpperCase();
+    rows = allRows.filter((r) => r.currency.toUpperCase() === currency);
+  }
+
+  let mrr = 0;
+  let totalRevenue = 0;
+  let last30dRevenue = 0;
+  let primary = { provider: rows[0].provider, mrr: -1 };
+  const customers = { count: 0, mrr: 0, logoChurn: 0, revenueChurn: 0, reporting: false };
+
+  for (const row of rows) {
+    const rowMrr = convertCurrency(Number(row.mrr), row.currency, currency, fx);
+    mrr += rowMrr;
+    totalRevenue += convertCurrency(Number(row.total_revenue), row.currency, currency, fx);
+    last30dRevenue += convertCurrency(Number(row.last_30d_revenue), row.currency, currency, fx);
+
+    if (rowMrr > primary.mrr) {
+      primary = { provider: row.provider, mrr: rowMrr };
+    }
+
+    if (row.active_customers != null) {
+      const count = Number(row.active_customers);
+      customers.reporting = true;
+      customers.count += count;
+      customers.mrr += rowMrr;
+      customers.logoChurn += Number(row.logo_churn_rate || 0) * count;
+      customers.revenueChurn += Number(row.revenue_churn_rate || 0) * rowMrr;
+    }
+  }
+
+  const rate = (weighted: number, weight: number) =>
+    weight > 0 ? Math.round((weighted / weight) * 10000) / 10000 : 0;
+
+  const syncTimes = rows
+    .map((r) => r.provider_last_synced_at)
+    .filter((t): t is string => !!t)
+    .sort();
+
+  return {
+    currency,
+    mrr: Math.round(mrr),
+    total_revenue: Math.round(totalRevenue),
+    last_30d_revenue: Math.round(last30dRevenue),
+    provider: primary.provider,
+    providers: Array.from(new Set(rows.map((r) => r.provider))),
+    active_customers: customers.reporting ? customers.count : null,
+    arpa: customers.reporting ? (customers.count > 0 ? Math.round(customers.mrr / customers.count) : 0) : null,
+    arr: Math.round(mrr) * 12,
+    logo_churn_rate: customers.reporting ? rate(customers.logoChurn, customers.count) : null,
+    revenue_churn_rate: customers.reporting ? rate(customers.revenueChurn, customers.mrr) : null,
+    provider_last_synced_at: syncTimes[0] || null,
+    skipped: allRows.filter((r) => !rows.includes(r)),
+  };
+}
+
+export interface ReportingMetrics {
+  reporting_currency: string;
+  mrr_reporting: number;
+  total_revenue_reporting: number;
+  last_30d_revenue_reporting: number;
+  fx_rate_date: string | null;
+}
+
+/**
+ * Convert combined metrics to the reporting currency for sorting and aggregates
+ *
+ * @throws Error if the metrics currency has no FX rate
+ */
+export function toReportingCurrency(metrics: CombinedMetrics, fx: FxRates): ReportingMetrics {
+  const convert = (amount: number) =>
+    Math.round(convertCurrency(amount, metrics.currency, REPORTING_CURRENCY, fx));
+
+  return {
+    reporting_currency: REPORTING_CURRENCY,
+    mrr_reporting: convert(metrics.mrr),
+    total_revenue_reporting: convert(metrics.total_revenue),
+    last_30d_revenue_reporting: convert(metrics.last_30d_revenue),
+    fx_rate_date: metrics.currency === REPORTING_CURRENCY ? null : fx.date,
+  };
+}
+
+type MetricField = "mrr" | "total_revenue" | "last_30d_revenue";
+
+/**
+ * Read a metric in the reporting currency, falling back to the native value
+ * for rows synced before reporting-currency values were stored
+ */
+export function reportingValue(
+  metrics: Partial<Record<MetricField | `${MetricField}_reporting`, number | null>>,
+  field: MetricField
+): number {
+  const normalized = metrics[`${field}_reporting`];
+  return Number(normalized ?? metrics[field] ?? 0);
+}
@@ -0,0 +1,89 @@
+/**
+ * Currency conversion with stored FX rates
+ *
+ * Rates follow the ECB reference-rate convention: units of currency per 1 EUR.
+ * They are stored in the fx_rates table (see supabase/migrations/fx_rates.sql)
+ * and loaded from ECB CSV files with `npm run fx:load`.
+ *
+ * Pure functions only; safe to import from client components.
+ */
+
+/**
+ * Currency that leaderboard sorting and aggregates are normalized to
+ */
+export const REPORTING_CURRENCY = (process.env.REPORTING_CURRENCY || "EUR").toUpperCase();
+
+export interface FxRates {
+  date: string | null; // Most recent rate_date used (YYYY-MM-DD)
+  rates: Record<string, number>; // Units of currency per 1 EUR
+}
+
+export interface FxRateRow {
+  currency: string;
+  rate_date: string;
+  rate: number;
+}
+
+/**
+ * Convert an amount between two currencies via EUR cross rates
+ *
+ * @throws Error if either currency has no rate
+ */
+export function convertCurrency(amount: number, from: string, to: string, fx: FxRates): number {
+  const fromCode = from.toUpperCase();
+  const toCode = to.toUpperCase();
+  if (fromCode === toCode) return amount;
+
+  const fromRate = fromCode === "EUR" ? 1 : fx.rates[fromCode];
+  const toRate = toCode === "EUR" ? 1 : fx.rates[toCode];
+  if (!fromRate || !toRate) {
+    throw new Error(`No FX rate available for ${fromRate ? toCode : fromCode}`);
+  }
+
+  return (amount / fromRate) * toRate;
+}
+
+/**
+ * Normalize an ECB date cell ("2024-10-18" or "18 October 2024") to YYYY-MM-DD
+ */
+function parseEcbDate(value: string): string | null {
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) return value;
+
+  const parsed = new Date(`${value} 00:00 UTC`);
+  if (isNaN(parsed.getTime())) return null;
+  return parsed.toISOString().split("T")[0];
+}
+
+/**
+ * Parse an ECB reference-rate CSV (eurofxref.csv or eurofxref-hist.csv)
+ *
+ * Format: a "Date" header followed by currency codes, then one row per day.
+ * Missing rates ("N/A" or empty cells) are skipped.
+ */
+export function parseEcbCsv(text: string): FxRateRow[] {
+  const lines = text.trim().split(/\r?\n/).filter((line) => line.trim());
+  if (lines.length < 2) return [];
+
+  const header = lines[0].split(",").map((cell) => cell.trim());
+  if (header[0].toLowerCase() !== "date") {
+    throw new Error("Not an ECB rates CSV: first column must be Date");
+  }
+
+  const rows: FxRateRow[] = [];
+
+  for (const line of lines.slice(1)) {
+    const cells = line.split(",").map((cell) => cell.trim());
+    const rateDate = parseEcbDate(cells[0]);
+    if (!rateDate) continue;
+
+    for (let i = 1; i < header.length; i++) {
+      const currency = header[i].toUpperCase();
+      const rate = Number(cells[i]);
+      if (!currency || !cells[i] || isNaN(rate) || rate <= 0) continue;
+
+      rows.push({ currency, rate_date: rateDate, rate });
+    }
+  }
+
+  return rows;
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { computeMrrGrowth, growthHistoryRange, type GrowthSnapshot } from "./growth";
+
+const TODAY = "2024-06-15";
+const MIN_MRR = 1000;
+
+function snapshot(snapshot_date: string, mrr: number, currency = "EUR", mrr_reporting: number | null = mrr): GrowthSnapshot {
+  return { snapshot_date, currency, mrr, mrr_reporting };
+}
+
+const current = { currency: "EUR", mrr: 6000, mrr_reporting: 6000 };
+
+describe("growthHistoryRange", () => {
+  it("covers both windows with their tolerance", () => {
+    expect(growthHistoryRange(TODAY)).toEqual({ since: "2024-03-01", until: "2024-06-01" });
+  });
+});
+
+describe("computeMrrGrowth", () => {
+  it("compares with the snapshots 30 and 90 days ago", () => {
+    const history = [snapshot("2024-05-16", 5000), snapshot("2024-03-17", 4000)];
+    expect(computeMrrGrowth(current, history, TODAY, MIN_MRR)).toEqual({ mrr_growth_mom: 0.2, mrr_growth_3m: 0.5 });
+  });
+
+  it("uses the closest snapshot within the tolerance, the older one on a tie", () => {
+    const history = [snapshot("2024-05-14", 4000), snapshot("2024-05-18", 5000), snapshot("2024-05-25", 3000)];
+    expect(computeMrrGrowth(current, history, TODAY, MIN_MRR).mrr_growth_mom).toBe(0.5);
+  });
+
+  it("has no rate without a snapshot close enough", () => {
+    const history = [snapshot("2024-06-10", 5000), snapshot("2024-01-01", 1000)];
+    expect(computeMrrGrowth(current, history, TODAY, MIN_MRR)).toEqual({ mrr_growth_mom: null, mrr_growth_3m: null });
+  });
+
+  it("has no rate from a base below the minimum MRR", () => {
+    const history = [snapshot("2024-05-16", 999)];
+    expect(computeMrrGrowth(current, history, TODAY, MIN_MRR).mrr_growth_mom).toBeNull();
+  });
+
+  it("compares native MRR when the currency didn't change, so FX moves aren't growth", () => {
+    const usd = { currency: "USD", mrr: 6000, mrr_reporting: 5600 };
+    const history = [snapshot("2024-05-16", 6000, "USD", 5400)];
+    expect(computeMrrGrowth(usd, history, TODAY, MIN_MRR).mrr_growth_mom).toBe(0);
+  });
+
+  it("compares reporting MRR across a currency change", () => {
+    const history = [snapshot("2024-05-16", 5500, "USD", 5000)];
+    expect(computeMrrGrowth(current, history, TODAY, MIN_MRR).mrr_growth_mom).toBe(0.2);
+  });
+
+  it("has no rate when the reporting values needed are missing", () => {
+    const unconverted = snapshot("2024-05-16", 5000, "USD", null);
+    expect(computeMrrGrowth(current, [unconverted], TODAY, MIN_MRR).mrr_growth_mom).toBeNull();
+
+    const base = snapshot("2024-05-16", 5000);
+    const usd = { currency: "USD", mrr: 6000, mrr_reporting: null };
+    expect(computeMrrGrowth(usd, [base], TODAY, MIN_MRR).mrr_growth_mom).toBeNull();
+  });
+});
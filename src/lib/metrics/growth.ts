@@ -0,0 +1,103 @@
+/**
+ * MRR growth
+ *
+ * Pure functions, no database access.
+ *
+ * Growth compares today's MRR with the startup_metrics_history snapshot closest to
+ * 30 days (month over month) and 90 days (3 months) ago:
+ * - A snapshot counts if it is within GROWTH_BASE_TOLERANCE_DAYS of the target date,
+ *   so monthly backfilled history (month ends) works too
+ * - The base must be at least GROWTH_MIN_MRR (reporting currency); growing from 10 to 100
+ *   is +900% but says little, so smaller bases get no growth rate
+ * - Same-currency snapshots compare native MRR, so FX moves don't show up as growth
+ */
+
+import { REPORTING_CURRENCY } from "./fx";
+
+export const GROWTH_MIN_MRR = Number(process.env.GROWTH_MIN_MRR) || 1000;
+
+export const GROWTH_WINDOWS = { mom: 30, "3m": 90 } as const;
+
+const GROWTH_BASE_TOLERANCE_DAYS = 16;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface GrowthSnapshot {
+  snapshot_date: string; // YYYY-MM-DD
+  currency: string;
+  mrr: number;
+  mrr_reporting: number | null;
+}
+
+export interface MrrGrowth {
+  mrr_growth_mom: number | null; // Fraction (0.12 = +12%)
+  mrr_growth_3m: number | null;
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(to) - Date.parse(from)) / DAY_MS);
+}
+
+/**
+ * Oldest and newest snapshot dates that can be a growth base, for loading history
+ *
+ * @param today - YYYY-MM-DD
+ */
+export function growthHistoryRange(today: string): { since: string; until: string } {
+  const shift = (days: number) => new Date(Date.parse(today) - days * DAY_MS).toISOString().split("T")[0];
+  return {
+    since: shift(GROWTH_WINDOWS["3m"] + GROWTH_BASE_TOLERANCE_DAYS),
+    until: shift(GROWTH_WINDOWS.mom - GROWTH_BASE_TOLERANCE_DAYS),
+  };
+}
+
+/**
+ * Snapshot closest to `days` before today (the older one on a tie), or null if none is close enough
+ */
+function baseSnapshot(history: GrowthSnapshot[], today: string, days: number): GrowthSnapshot | null {
+  let best: { snapshot: GrowthSnapshot; distance: number; age: number } | null = null;
+
+  for (const snapshot of history) {
+    const age = daysBetween(snapshot.snapshot_date, today);
+    const distance = Math.abs(age - days);
+    if (distance > GROWTH_BASE_TOLERANCE_DAYS) continue;
+    if (!best || distance < best.distance || (distance === best.distance && age > best.age)) {
+      best = { snapshot, distance, age };
+    }
+  }
+
+  return best?.snapshot || null;
+}
+
+function growthRate(current: GrowthSnapshot, base: GrowthSnapshot | null, minMrr: number): number | null {
+  if (!base) return null;
+
+  const baseReporting = base.mrr_reporting ?? (base.currency.toUpperCase() === REPORTING_CURRENCY ? base.mrr : null);
+  if (baseReporting == null || Number(baseReporting) < minMrr) return null;
+
+  const sameCurrency = current.currency.toUpperCase() === base.currency.toUpperCase();
+  const from = Number(sameCurrency ? base.mrr : baseReporting);
+  const to = sameCurrency ? Number(current.mrr) : current.mrr_reporting;
+  if (to == null || !(from > 0)) return null;
+
+  return Math.round((Number(to) / from - 1) * 10000) / 10000;
+}
+
+/**
+ * Month-over-month and 3-month MRR growth of a startup
+ *
+ * @param current - Today's metrics
+ * @param history - Past snapshots (any order); see growthHistoryRange() for the dates needed
+ * @param today - YYYY-MM-DD
+ */
+export function computeMrrGrowth(
+  current: Omit<GrowthSnapshot, "snapshot_date">,
+  history: GrowthSnapshot[],
+  today: string,
+  minMrr: number = GROWTH_MIN_MRR
+): MrrGrowth {
+  const now = { ...current, snapshot_date: today };
+  return {
+    mrr_growth_mom: growthRate(now, baseSnapshot(history, today, GROWTH_WINDOWS.mom), minMrr),
+    mrr_growth_3m: growthRate(now, baseSnapshot(history, today, GROWTH_WINDOWS["3m"]), minMrr),
+  };
+}
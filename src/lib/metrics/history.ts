@@ -0,0 +1,96 @@
+/**
+ * Historical metrics reconstruction
+ *
+ * Pure functions, no API or database access.
+ *
+ * Adapters that implement backfillHistory() turn past billing data into:
+ * - Recurring periods: a subscription line was billed for [start, end) at a monthly amount
+ * - Revenue events: payments (positive) and refunds (negative) at a point in time
+ * reconstructHistory() then reads MRR and revenue off those at each history date.
+ */
+
+import type { HistoryGranularity, HistoryPoint } from "../providers/types";
+
+export interface RecurringPeriod {
+  start: number; // Unix seconds, inclusive
+  end: number; // Unix seconds, exclusive
+  monthlyAmount: number;
+}
+
+export interface RevenueEvent {
+  at: number; // Unix seconds
+  amount: number; // Negative for refunds
+}
+
+const DAY_SECONDS = 24 * 60 * 60;
+
+function toDateString(seconds: number): string {
+  return new Date(seconds * 1000).toISOString().split("T")[0];
+}
+
+/**
+ * End-of-day timestamps (UTC) of the history points between two dates, inclusive
+ * Monthly points fall on the last day of each month
+ *
+ * @param since - YYYY-MM-DD
+ * @param until - YYYY-MM-DD
+ */
+export function historyDates(since: string, until: string, granularity: HistoryGranularity): number[] {
+  const dates: number[] = [];
+  const last = Date.parse(`${until}T23:59:59Z`) / 1000;
+  const cursor = new Date(`${since}T23:59:59Z`);
+
+  if (granularity === "day") {
+    while (cursor.getTime() / 1000 <= last) {
+      dates.push(cursor.getTime() / 1000);
+      cursor.setUTCDate(cursor.getUTCDate() + 1);
+    }
+    return dates;
+  }
+
+  // Day 0 of the next month is the last day of this one
+  let monthEnd = new Date(Date.UTC(cursor.getUTCFullYear(), cursor.getUTCMonth() + 1, 0, 23, 59, 59));
+  while (monthEnd.getTime() / 1000 <= last) {
+    dates.push(monthEnd.getTime() / 1000);
+    monthEnd = new Date(Date.UTC(monthEnd.getUTCFullYear(), monthEnd.getUTCMonth() + 2, 0, 23, 59, 59));
+  }
+  return dates;
+}
+
+/**
+ * MRR and revenue at each date
+ *
+ * MRR is the sum of periods covering the date; total revenue is cumulative up to the date;
+ * last 30 days revenue is the trailing window ending on the date. Amounts are not rounded.
+ */
+export function reconstructHistory(
+  periods: RecurringPeriod[],
+  events: RevenueEvent[],
+  dates: number[],
+  currency: string
+): HistoryPoint[] {
+  const sortedEvents = [...events].sort((a, b) => a.at - b.at);
+
+  return dates.map((date) => {
+    let mrr = 0;
+    for (const period of periods) {
+      if (period.start <= date && date < period.end) mrr += period.monthlyAmount;
+    }
+
+    let totalRevenue = 0;
+    let last30dRevenue = 0;
+    for (const event of sortedEvents) {
+      if (event.at > date) break;
+      totalRevenue += event.amount;
+      if (event.at > date - 30 * DAY_SECONDS) last30dRevenue += event.amount;
+    }
+
+    return {
+      date: toDateString(date),
+      currency,
+      mrr,
+      totalRevenue,
+      last30dRevenue,
+    };
+  });
+}
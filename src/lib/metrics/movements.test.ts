@@ -0,0 +1,113 @@
+import { describe, expect, it } from "vitest";
+import {
+  addMovement,
+  diffCustomerMrr,
+  emptyMovements,
+  netNewMrr,
+  nextCustomerState,
+} from "./movements";
+
+const eur = (customerId: string, mrr: number) => ({ customerId, currency: "EUR", mrr });
+const usd = (customerId: string, mrr: number) => ({ customerId, currency: "USD", mrr });
+
+describe("diffCustomerMrr", () => {
+  it("classifies new, expansion, contraction and churn", () => {
+    const previous = [eur("cus_up", 100), eur("cus_down", 100), eur("cus_same", 50), eur("cus_gone", 80)];
+    const current = [eur("cus_up", 150), eur("cus_down", 60), eur("cus_same", 50), eur("cus_new", 30)];
+
+    expect(diffCustomerMrr(previous, current)).toEqual([
+      { customerId: "cus_up", currency: "EUR", type: "expansion", amount: 50 },
+      { customerId: "cus_down", currency: "EUR", type: "contraction", amount: 40 },
+      { customerId: "cus_new", currency: "EUR", type: "new", amount: 30 },
+      { customerId: "cus_gone", currency: "EUR", type: "churn", amount: 80 },
+    ]);
+  });
+
+  it("counts a churned customer who pays again as reactivation", () => {
+    expect(diffCustomerMrr([eur("cus_back", 0)], [eur("cus_back", 70)])).toEqual([
+      { customerId: "cus_back", currency: "EUR", type: "reactivation", amount: 70 },
+    ]);
+  });
+
+  it("churns a customer whose MRR dropped to zero, once", () => {
+    expect(diffCustomerMrr([eur("cus_zero", 40)], [eur("cus_zero", 0)])).toEqual([
+      { customerId: "cus_zero", currency: "EUR", type: "churn", amount: 40 },
+    ]);
+    expect(diffCustomerMrr([eur("cus_zero", 0)], [])).toEqual([]);
+  });
+
+  it("treats a currency switch as churn in the old currency and reactivation in the new one", () => {
+    const movements = diffCustomerMrr([eur("cus_fx", 100)], [{ customerId: "cus_fx", currency: "USD", mrr: 110 }]);
+    expect(movements).toEqual([
+      { customerId: "cus_fx", currency: "EUR", type: "churn", amount: 100 },
+      { customerId: "cus_fx", currency: "USD", type: "reactivation", amount: 110 },
+    ]);
+  });
+
+  it("diffs a customer billed in several currencies per currency", () => {
+    const previous = [eur("cus_multi", 100), usd("cus_multi", 50)];
+
+    expect(diffCustomerMrr(previous, [eur("cus_multi", 120), usd("cus_multi", 50)])).toEqual([
+      { customerId: "cus_multi", currency: "EUR", type: "expansion", amount: 20 },
+    ]);
+    // Dropping one currency while paying in the other is a contraction, not churn
+    expect(diffCustomerMrr(previous, [eur("cus_multi", 100)])).toEqual([
+      { customerId: "cus_multi", currency: "USD", type: "contraction", amount: 50 },
+    ]);
+    expect(diffCustomerMrr([eur("cus_multi", 100)], [eur("cus_multi", 100), usd("cus_multi", 30)])).toEqual([
+      { customerId: "cus_multi", currency: "USD", type: "expansion", amount: 30 },
+    ]);
+    expect(diffCustomerMrr(previous, [])).toEqual([
+      { customerId: "cus_multi", currency: "EUR", type: "churn", amount: 100 },
+      { customerId: "cus_multi", currency: "USD", type: "churn", amount: 50 },
+    ]);
+  });
+});
+
+describe("nextCustomerState", () => {
+  it("returns changed and new customers, and churned ones at zero", () => {
+    const previous = [eur("cus_same", 50), eur("cus_up", 100), eur("cus_gone", 80), eur("cus_churned", 0)];
+    const current = [eur("cus_same", 50), eur("cus_up", 150), eur("cus_new", 30)];
+
+    expect(nextCustomerState(previous, current)).toEqual([
+      eur("cus_up", 150),
+      eur("cus_new", 30),
+      eur("cus_gone", 0),
+    ]);
+  });
+
+  it("stores a currency switch as the new currency, with the old one at zero", () => {
+    expect(nextCustomerState([eur("cus_fx", 100)], [usd("cus_fx", 100)])).toEqual([
+      usd("cus_fx", 100),
+      eur("cus_fx", 0),
+    ]);
+  });
+
+  it("keeps one entry per currency, so each is stored once", () => {
+    const current = [eur("cus_multi", 100), usd("cus_multi", 50)];
+
+    expect(nextCustomerState([], current)).toEqual(current);
+    expect(nextCustomerState(current, current)).toEqual([]);
+  });
+});
+
+describe("movement totals", () => {
+  it("adds movements up and nets them", () => {
+    const totals = emptyMovements();
+    addMovement(totals, "new", 30);
+    addMovement(totals, "expansion", 50);
+    addMovement(totals, "reactivation", 70);
+    addMovement(totals, "contraction", 40);
+    addMovement(totals, "churn", 80);
+    addMovement(totals, "churn", 20);
+
+    expect(totals).toEqual({
+      new_mrr: 30,
+      expansion_mrr: 50,
+      contraction_mrr: 40,
+      churned_mrr: 100,
+      reactivation_mrr: 70,
+    });
+    expect(netNewMrr(totals)).toBe(10);
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * MRR movements (the MRR waterfall)
+ *
+ * Pure functions, no database access.
+ *
+ * Compares each customer's MRR with the previous sync and classifies the change:
+ * - new: first time the customer pays
+ * - expansion / contraction: a paying customer's MRR went up / down
+ * - churn: a paying customer stopped paying (their previous MRR is lost)
+ * - reactivation: a churned customer pays again
+ *
+ * Churned customers keep a state entry with mrr 0 so a later return counts as reactivation.
+ */
+
+import type { CustomerMrr } from "../providers/types";
+
+export type MrrMovementType = "new" | "expansion" | "contraction" | "churn" | "reactivation";
+
+export interface CustomerMovement {
+  customerId: string;
+  currency: string;
+  type: MrrMovementType;
+  amount: number; // Always positive; contraction and churn reduce MRR
+}
+
+export interface MrrMovements {
+  new_mrr: number;
+  expansion_mrr: number;
+  contraction_mrr: number;
+  churned_mrr: number;
+  reactivation_mrr: number;
+}
+
+const MOVEMENT_FIELDS: Record<MrrMovementType, keyof MrrMovements> = {
+  new: "new_mrr",
+  expansion: "expansion_mrr",
+  contraction: "contraction_mrr",
+  churn: "churned_mrr",
+  reactivation: "reactivation_mrr",
+};
+
+export function emptyMovements(): MrrMovements {
+  return { new_mrr: 0, expansion_mrr: 0, contraction_mrr: 0, churned_mrr: 0, reactivation_mrr: 0 };
+}
+
+/**
+ * Add a movement amount to the matching total
+ */
+export function addMovement(totals: MrrMovements, type: MrrMovementType, amount: number): void {
+  totals[MOVEMENT_FIELDS[type]] += amount;
+}
+
+/**
+ * Net change in MRR: new + expansion + reactivation - contraction - churn
+ */
+export function netNewMrr(movements: MrrMovements): number {
+  return movements.new_mrr
+    + movements.expansion_mrr
+    + movements.reactivation_mrr
+    - movements.contraction_mrr
+    - movements.churned_mrr;
+}
+
+function customerCurrencyKey(entry: CustomerMrr): string {
+  return `${entry.customerId}:${entry.currency}`;
+}
+
+function groupByCustomer(entries: CustomerMrr[]): Map<string, CustomerMrr[]> {
+  const groups = new Map<string, CustomerMrr[]>();
+  for (const entry of entries) {
+    groups.set(entry.customerId, [...(groups.get(entry.customerId) || []), entry]);
+  }
+  return groups;
+}
+
+/**
+ * Classify MRR changes between the stored state and the latest sync
+ *
+ * Entries are per customer and currency, since a customer can be billed in several currencies.
+ * A customer who keeps paying in one currency and adds or drops another expands or contracts;
+ * one who stops paying in every currency churns, and paying again (in any currency) reactivates.
+ *
+ * @param previous - Stored per-customer MRR (mrr 0 = churned earlier)
+ * @param current - Per-customer MRR from the latest sync (paying customers only)
+ */
+export function diffCustomerMrr(previous: CustomerMrr[], current: CustomerMrr[]): CustomerMovement[] {
+  const previousByCustomer = groupByCustomer(previous);
+  const currentByCustomer = groupByCustomer(current.filter((entry) => entry.mrr > 0));
+  const customerIds = new Set([...current, ...previous].map((entry) => entry.customerId));
+  const movements: CustomerMovement[] = [];
+
+  for (const customerId of Array.from(customerIds)) {
+    const before = previousByCustomer.get(customerId) || [];
+    const after = currentByCustomer.get(customerId) || [];
+    const beforeByCurrency = new Map(before.map((entry) => [entry.currency, entry]));
+    const afterCurrencies = new Set(after.map((entry) => entry.currency));
+    const wasPaying = before.filter((entry) => entry.mrr > 0);
+
+    // Still paying in a currency they paid in before
+    const retained = wasPaying.some((entry) => afterCurrencies.has(entry.currency));
+
+    for (const entry of wasPaying) {
+      if (afterCurrencies.has(entry.currency)) continue;
+      movements.push({ customerId, currency: entry.currency, type: retained ? "contraction" : "churn", amount: entry.mrr });
+    }
+
+    for (const entry of after) {
+      const previousMrr = beforeByCurrency.get(entry.currency)?.mrr ?? 0;
+      const change = entry.mrr - previousMrr;
+
+      if (previousMrr > 0) {
+        if (change > 0) movements.push({ customerId, currency: entry.currency, type: "expansion", amount: change });
+        if (change < 0) movements.push({ customerId, currency: entry.currency, type: "contraction", amount: -change });
+      } else {
+        const type = retained ? "expansion" : before.length > 0 ? "reactivation" : "new";
+        movements.push({ customerId, currency: entry.currency, type, amount: entry.mrr });
+      }
+    }
+  }
+
+  return movements;
+}
+
+/**
+ * State to store after a sync: current customers, plus churned ones at mrr 0
+ * Entries are per customer and currency; only those that changed are returned
+ */
+export function nextCustomerState(previous: CustomerMrr[], current: CustomerMrr[]): CustomerMrr[] {
+  const previousByKey = new Map(previous.map((entry) => [customerCurrencyKey(entry), entry]));
+  const currentKeys = new Set(current.map(customerCurrencyKey));
+  const changed: CustomerMrr[] = [];
+
+  for (const entry of current) {
+    const before = previousByKey.get(customerCurrencyKey(entry));
+    if (!before || before.mrr !== entry.mrr) {
+      changed.push(entry);
+    }
+  }
+
+  for (const before of previous) {
+    if (before.mrr > 0 && !currentKeys.has(customerCurrencyKey(before))) {
+      changed.push({ ...before, mrr: 0 });
+    }
+  }
+
+  return changed;
+}
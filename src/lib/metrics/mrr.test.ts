@@ -0,0 +1,187 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_MRR_POLICY,
+  calculateMrr,
+  churnRate,
+  subscriptionMrr,
+  tieredAmount,
+  toMonthly,
+  type MrrPolicy,
+  type RecurringLineItem,
+  type RecurringSubscription,
+} from "./mrr";
+
+const NOW = 1_700_000_000;
+
+function item(overrides: Partial<RecurringLineItem> = {}): RecurringLineItem {
+  return {
+    interval: "month",
+    intervalCount: 1,
+    quantity: 1,
+    pricing: { type: "per_unit", unitAmount: 1000 },
+    ...overrides,
+  };
+}
+
+function subscription(overrides: Partial<RecurringSubscription> = {}): RecurringSubscription {
+  return {
+    status: "active",
+    cancelAtPeriodEnd: false,
+    items: [item()],
+    ...overrides,
+  };
+}
+
+describe("toMonthly", () => {
+  it("normalizes billing intervals to a month", () => {
+    expect(toMonthly(12000, "year")).toBe(1000);
+    expect(toMonthly(3000, "month", 3)).toBe(1000);
+    expect(toMonthly(100, "week")).toBeCloseTo(433);
+    expect(toMonthly(10, "day")).toBe(300);
+  });
+});
+
+describe("subscriptionMrr", () => {
+  it("multiplies per-unit prices by quantity", () => {
+    expect(subscriptionMrr(subscription({ items: [item({ quantity: 5 })] }), NOW)).toBe(5000);
+  });
+
+  it("rounds package quantities up by default and down when asked", () => {
+    const pricing = { type: "per_unit" as const, unitAmount: 1000, packageSize: 10 };
+    expect(subscriptionMrr(subscription({ items: [item({ quantity: 11, pricing })] }), NOW)).toBe(2000);
+    expect(
+      subscriptionMrr(
+        subscription({ items: [item({ quantity: 11, pricing: { ...pricing, packageRounding: "down" } })] }),
+        NOW
+      )
+    ).toBe(1000);
+  });
+
+  it("sums items and converts yearly plans", () => {
+    const yearly = subscription({
+      items: [
+        item({ interval: "year", pricing: { type: "per_unit", unitAmount: 12000 } }),
+        item({ interval: "year", quantity: 2, pricing: { type: "per_unit", unitAmount: 6000 } }),
+      ],
+    });
+    expect(subscriptionMrr(yearly, NOW)).toBe(2000);
+  });
+
+  it("applies percent discounts", () => {
+    const discounted = subscription({ discounts: [{ percentOff: 25, duration: "forever" }] });
+    expect(subscriptionMrr(discounted, NOW)).toBe(750);
+  });
+
+  it("applies amount discounts and never goes below zero", () => {
+    expect(subscriptionMrr(subscription({ discounts: [{ amountOff: 300, duration: "forever" }] }), NOW)).toBe(700);
+    expect(subscriptionMrr(subscription({ discounts: [{ amountOff: 5000, duration: "forever" }] }), NOW)).toBe(0);
+  });
+
+  it("applies item discounts before subscription discounts", () => {
+    const discounted = subscription({
+      items: [item({ discounts: [{ amountOff: 200, duration: "forever" }] })],
+      discounts: [{ percentOff: 50, duration: "forever" }],
+    });
+    expect(subscriptionMrr(discounted, NOW)).toBe(400);
+  });
+
+  it("ignores one-off and expired discounts", () => {
+    const discounted = subscription({
+      discounts: [
+        { percentOff: 50, duration: "once" },
+        { amountOff: 500, duration: "repeating", endsAt: NOW - 1 },
+      ],
+    });
+    expect(subscriptionMrr(discounted, NOW)).toBe(1000);
+  });
+
+  it("keeps repeating discounts until they end", () => {
+    const discounted = subscription({ discounts: [{ amountOff: 500, duration: "repeating", endsAt: NOW + 60 }] });
+    expect(subscriptionMrr(discounted, NOW)).toBe(500);
+  });
+
+  it("counts the last billed amount of metered items", () => {
+    const metered = subscription({
+      items: [item({ metered: true, quantity: 0, lastBilledAmount: 4200 }), item()],
+    });
+    expect(subscriptionMrr(metered, NOW)).toBe(5200);
+    expect(subscriptionMrr(subscription({ items: [item({ metered: true })] }), NOW)).toBe(0);
+  });
+});
+
+describe("tieredAmount", () => {
+  const tiers = [
+    { upTo: 10, unitAmount: 100, flatAmount: 0 },
+    { upTo: 20, unitAmount: 80, flatAmount: 500 },
+    { upTo: null, unitAmount: 50, flatAmount: 0 },
+  ];
+
+  it("prices each tier's units in graduated mode", () => {
+    expect(tieredAmount(tiers, "graduated", 5)).toBe(500);
+    expect(tieredAmount(tiers, "graduated", 15)).toBe(1000 + 400 + 500);
+    expect(tieredAmount(tiers, "graduated", 25)).toBe(1000 + 800 + 500 + 250);
+  });
+
+  it("prices every unit at the tier of the total in volume mode", () => {
+    expect(tieredAmount(tiers, "volume", 10)).toBe(1000);
+    expect(tieredAmount(tiers, "volume", 15)).toBe(15 * 80 + 500);
+    expect(tieredAmount(tiers, "volume", 25)).toBe(25 * 50);
+  });
+
+  it("is zero without units", () => {
+    expect(tieredAmount(tiers, "graduated", 0)).toBe(0);
+  });
+
+  it("is used for tiered line items", () => {
+    const tiered = subscription({ items: [item({ quantity: 15, pricing: { type: "tiered", mode: "volume", tiers } })] });
+    expect(subscriptionMrr(tiered, NOW)).toBe(1700);
+  });
+});
+
+describe("calculateMrr", () => {
+  const subscriptions: RecurringSubscription[] = [
+    subscription({ customerId: "cus_active" }),
+    subscription({ customerId: "cus_trial", status: "trialing" }),
+    subscription({ customerId: "cus_past_due", status: "past_due" }),
+    subscription({ customerId: "cus_canceling", cancelAtPeriodEnd: true }),
+    subscription({ customerId: "cus_canceled", status: "canceled" }),
+    subscription({ customerId: "cus_active" }),
+  ];
+
+  it("counts past_due and canceling but not trials by default", () => {
+    const result = calculateMrr(subscriptions, DEFAULT_MRR_POLICY, NOW);
+    expect(result.mrr).toBe(4000);
+    expect(result.countedSubscriptions).toBe(4);
+    expect(result.excluded).toEqual({ status: 1, trialing: 1, past_due: 0, canceling: 0 });
+    expect(result.byCustomer).toEqual({ cus_active: 2000, cus_past_due: 1000, cus_canceling: 1000 });
+  });
+
+  it("follows the trial, past_due and cancel_at_period_end policy", () => {
+    const strict: MrrPolicy = { includeTrials: false, includePastDue: false, includeCanceling: false };
+    expect(calculateMrr(subscriptions, strict, NOW)).toMatchObject({
+      mrr: 2000,
+      excluded: { status: 1, trialing: 1, past_due: 1, canceling: 1 },
+    });
+
+    const lenient: MrrPolicy = { includeTrials: true, includePastDue: true, includeCanceling: true };
+    expect(calculateMrr(subscriptions, lenient, NOW).mrr).toBe(5000);
+  });
+
+  it("excludes a trial that is also canceling for either reason", () => {
+    const trialCanceling = [subscription({ status: "trialing", cancelAtPeriodEnd: true })];
+    expect(calculateMrr(trialCanceling, { ...DEFAULT_MRR_POLICY, includeTrials: true, includeCanceling: false }, NOW))
+      .toMatchObject({ mrr: 0, excluded: { canceling: 1 } });
+  });
+});
+
+describe("churnRate", () => {
+  it("divides what was lost by the base at the start of the window", () => {
+    // Start: 100 - 10 + 20 = 110
+    expect(churnRate(100, 10, 20)).toBe(0.1818);
+  });
+
+  it("is zero without a base or losses", () => {
+    expect(churnRate(0, 0, 0)).toBe(0);
+    expect(churnRate(100, 10, 0)).toBe(0);
+  });
+});
@@ -0,0 +1,349 @@
+/**
+ * MRR calculation
+ *
+ * Provider-neutral, pure functions (no API or database access) that turn
+ * subscriptions into monthly recurring revenue the way finance teams expect:
+ * - Quantity-aware, including per-unit, package (transform_quantity) and tiered prices
+ * - Metered items count their last billed usage
+ * - Net of recurring discounts (one-off "once" discounts are ignored, expired ones too)
+ * - Trials, past_due and scheduled cancellations are counted according to an MrrPolicy
+ * - Customer activity over a trailing window (new and churned customers/MRR) for
+ *   customer count, ARPA and churn rates
+ *
+ * Adapters map their provider's objects to RecurringSubscription and call calculateMrr().
+ * All amounts are in minor units (cents), like the provider APIs.
+ */
+
+export type BillingInterval = "day" | "week" | "month" | "year";
+
+export type SubscriptionStatus =
+  | "active"
+  | "trialing"
+  | "past_due"
+  | "unpaid"
+  | "paused"
+  | "incomplete"
+  | "incomplete_expired"
+  | "canceled";
+
+export interface PriceTier {
+  upTo: number | null; // Inclusive upper bound, null for the last tier
+  unitAmount: number;
+  flatAmount: number;
+}
+
+export type RecurringPricing =
+  | { type: "per_unit"; unitAmount: number; packageSize?: number; packageRounding?: "up" | "down" }
+  | { type: "tiered"; mode: "graduated" | "volume"; tiers: PriceTier[] };
+
+export interface RecurringDiscount {
+  percentOff?: number | null;
+  amountOff?: number | null; // Per billing period
+  duration: "once" | "repeating" | "forever";
+  endsAt?: number | null; // Unix seconds, null for forever
+}
+
+export interface RecurringLineItem {
+  interval: BillingInterval;
+  intervalCount: number;
+  quantity: number;
+  pricing: RecurringPricing;
+  metered?: boolean;
+  lastBilledAmount?: number | null; // Metered items: amount billed for the last period
+  discounts?: RecurringDiscount[];
+}
+
+export interface RecurringSubscription {
+  customerId?: string;
+  startedAt?: number; // Unix seconds
+  status: SubscriptionStatus;
+  cancelAtPeriodEnd: boolean;
+  items: RecurringLineItem[];
+  discounts?: RecurringDiscount[];
+}
+
+export interface MrrPolicy {
+  includeTrials: boolean;
+  includePastDue: boolean;
+  includeCanceling: boolean; // Subscriptions set to cancel at period end
+}
+
+export type MrrExclusionReason = "status" | "trialing" | "past_due" | "canceling";
+
+export interface MrrResult {
+  mrr: number; // Minor units, not rounded
+  byCustomer: Record<string, number>; // Subscriptions with a customerId, summed per customer
+  countedSubscriptions: number;
+  excluded: Record<MrrExclusionReason, number>;
+}
+
+export const DEFAULT_MRR_POLICY: MrrPolicy = {
+  includeTrials: false,
+  includePastDue: true,
+  includeCanceling: true,
+};
+
+function envFlag(value: string | undefined, fallback: boolean): boolean {
+  if (value === undefined || value === "") return fallback;
+  return value === "true" || value === "1";
+}
+
+/**
+ * MRR policy from MRR_INCLUDE_TRIALS, MRR_INCLUDE_PAST_DUE and MRR_INCLUDE_CANCELING
+ */
+export function getMrrPolicy(): MrrPolicy {
+  return {
+    includeTrials: envFlag(process.env.MRR_INCLUDE_TRIALS, DEFAULT_MRR_POLICY.includeTrials),
+    includePastDue: envFlag(process.env.MRR_INCLUDE_PAST_DUE, DEFAULT_MRR_POLICY.includePastDue),
+    includeCanceling: envFlag(process.env.MRR_INCLUDE_CANCELING, DEFAULT_MRR_POLICY.includeCanceling),
+  };
+}
+
+/**
+ * Normalize an amount billed every `intervalCount` intervals to a monthly amount
+ */
+export function toMonthly(amount: number, interval: BillingInterval, intervalCount: number = 1): number {
+  const perInterval = amount / (intervalCount || 1);
+
+  switch (interval) {
+    case "month":
+      return perInterval;
+    case "year":
+      return perInterval / 12;
+    case "week":
+      return perInterval * 4.33; // Average weeks per month
+    case "day":
+      return perInterval * 30;
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Amount for a tiered price at a given quantity
+ *
+ * graduated: each tier prices the units that fall inside it
+ * volume: the tier containing the total quantity prices every unit
+ */
+export function tieredAmount(tiers: PriceTier[], mode: "graduated" | "volume", quantity: number): number {
+  if (quantity <= 0 || tiers.length === 0) return 0;
+
+  if (mode === "volume") {
+    const tier = tiers.find((t) => t.upTo === null || quantity <= t.upTo) || tiers[tiers.length - 1];
+    return quantity * tier.unitAmount + tier.flatAmount;
+  }
+
+  let amount = 0;
+  let previousUpTo = 0;
+
+  for (const tier of tiers) {
+    const upTo = tier.upTo ?? Infinity;
+    const unitsInTier = Math.min(quantity, upTo) - previousUpTo;
+    if (unitsInTier <= 0) break;
+
+    amount += unitsInTier * tier.unitAmount + tier.flatAmount;
+    previousUpTo = upTo;
+  }
+
+  return amount;
+}
+
+/**
+ * Amount of a line item for one billing period, before discounts
+ */
+export function lineItemPeriodAmount(item: RecurringLineItem): number {
+  if (item.metered) return item.lastBilledAmount || 0;
+
+  const { pricing } = item;
+  if (pricing.type === "tiered") {
+    return tieredAmount(pricing.tiers, pricing.mode, item.quantity);
+  }
+
+  let units = item.quantity;
+  if (pricing.packageSize && pricing.packageSize > 1) {
+    const packages = units / pricing.packageSize;
+    units = pricing.packageRounding === "down" ? Math.floor(packages) : Math.ceil(packages);
+  }
+
+  return units * pricing.unitAmount;
+}
+
+/**
+ * Whether a discount still reduces future invoices at `now`
+ * "once" discounts only affect the first invoice, so they are not recurring revenue
+ */
+export function isRecurringDiscount(discount: RecurringDiscount, now: number): boolean {
+  if (discount.duration === "once") return false;
+  return discount.endsAt == null || discount.endsAt > now;
+}
+
+function applyDiscounts(amount: number, discounts: RecurringDiscount[] | undefined, now: number): number {
+  let discounted = amount;
+
+  for (const discount of discounts || []) {
+    if (!isRecurringDiscount(discount, now)) continue;
+
+    if (discount.percentOff) {
+      discounted -= discounted * (discount.percentOff / 100);
+    }
+    if (discount.amountOff) {
+      discounted -= discount.amountOff;
+    }
+  }
+
+  return Math.max(0, discounted);
+}
+
+/**
+ * Monthly recurring revenue of one subscription, net of discounts
+ * Item discounts apply before subscription discounts (Stripe's order)
+ */
+export function subscriptionMrr(subscription: RecurringSubscription, now: number = Date.now() / 1000): number {
+  if (subscription.items.length === 0) return 0;
+
+  let periodAmount = 0;
+  for (const item of subscription.items) {
+    periodAmount += applyDiscounts(lineItemPeriodAmount(item), item.discounts, now);
+  }
+  periodAmount = applyDiscounts(periodAmount, subscription.discounts, now);
+
+  // Items of one subscription share a billing interval
+  const { interval, intervalCount } = subscription.items[0];
+  return toMonthly(periodAmount, interval, intervalCount);
+}
+
+/**
+ * Why a subscription is left out of MRR under a policy, or null if it counts
+ */
+export function mrrExclusionReason(subscription: RecurringSubscription, policy: MrrPolicy): MrrExclusionReason | null {
+  switch (subscription.status) {
+    case "active":
+      break;
+    case "trialing":
+      if (!policy.includeTrials) return "trialing";
+      break;
+    case "past_due":
+      if (!policy.includePastDue) return "past_due";
+      break;
+    default:
+      return "status";
+  }
+
+  if (subscription.cancelAtPeriodEnd && !policy.includeCanceling) return "canceling";
+  return null;
+}
+
+/**
+ * Total MRR across subscriptions
+ *
+ * @param now - Unix seconds, used to expire repeating discounts
+ */
+export function calculateMrr(
+  subscriptions: RecurringSubscription[],
+  policy: MrrPolicy = DEFAULT_MRR_POLICY,
+  now: number = Date.now() / 1000
+): MrrResult {
+  const result: MrrResult = {
+    mrr: 0,
+    byCustomer: {},
+    countedSubscriptions: 0,
+    excluded: { status: 0, trialing: 0, past_due: 0, canceling: 0 },
+  };
+
+  for (const subscription of subscriptions) {
+    const reason = mrrExclusionReason(subscription, policy);
+    if (reason) {
+      result.excluded[reason]++;
+      continue;
+    }
+
+    const amount = subscriptionMrr(subscription, now);
+    result.mrr += amount;
+    result.countedSubscriptions++;
+
+    if (subscription.customerId) {
+      result.byCustomer[subscription.customerId] = (result.byCustomer[subscription.customerId] || 0) + amount;
+    }
+  }
+
+  return result;
+}
+
+export interface CustomerActivity {
+  activeCustomers: number; // Customers with MRR > 0
+  newCustomers: number; // Active customers whose first subscription started in the window
+  churnedCustomers: number; // Customers whose subscriptions ended in the window and who no longer pay
+  mrr: number;
+  newMrr: number; // MRR of subscriptions started in the window
+  churnedMrr: number; // MRR of subscriptions that ended in the window
+}
+
+/**
+ * Customer activity over a trailing window
+ *
+ * @param current - Current subscriptions (filtered by the MRR policy here)
+ * @param ended - Subscriptions that ended inside the window, priced as they were billed
+ * @param windowStart - Unix seconds
+ */
+export function customerActivity(
+  current: RecurringSubscription[],
+  ended: RecurringSubscription[],
+  windowStart: number,
+  policy: MrrPolicy = DEFAULT_MRR_POLICY,
+  now: number = Date.now() / 1000
+): CustomerActivity {
+  const activity: CustomerActivity = {
+    activeCustomers: 0,
+    newCustomers: 0,
+    churnedCustomers: 0,
+    mrr: 0,
+    newMrr: 0,
+    churnedMrr: 0,
+  };
+  const customers = new Map<string, { mrr: number; firstStartedAt: number }>();
+
+  for (const subscription of current) {
+    if (mrrExclusionReason(subscription, policy)) continue;
+
+    const amount = subscriptionMrr(subscription, now);
+    const startedAt = subscription.startedAt ?? 0;
+    activity.mrr += amount;
+    if (startedAt >= windowStart) activity.newMrr += amount;
+
+    if (subscription.customerId) {
+      const customer = customers.get(subscription.customerId) || { mrr: 0, firstStartedAt: Infinity };
+      customer.mrr += amount;
+      customer.firstStartedAt = Math.min(customer.firstStartedAt, startedAt);
+      customers.set(subscription.customerId, customer);
+    }
+  }
+
+  const churnedIds = new Set<string>();
+  for (const subscription of ended) {
+    activity.churnedMrr += subscriptionMrr(subscription, now);
+    if (subscription.customerId && !(customers.get(subscription.customerId)?.mrr)) {
+      churnedIds.add(subscription.customerId);
+    }
+  }
+
+  for (const customer of Array.from(customers.values())) {
+    if (customer.mrr <= 0) continue;
+    activity.activeCustomers++;
+    if (customer.firstStartedAt >= windowStart) activity.newCustomers++;
+  }
+  activity.churnedCustomers = churnedIds.size;
+
+  return activity;
+}
+
+/**
+ * Share of the base at the start of a window that was lost during it
+ * The starting base is reconstructed as current - added + lost
+ *
+ * @returns Fraction between 0 and 1, rounded to 4 decimals
+ */
+export function churnRate(current: number, added: number, lost: number): number {
+  const startingBase = current - added + lost;
+  if (startingBase <= 0 || lost <= 0) return 0;
+  return Math.round(Math.min(1, lost / startingBase) * 10000) / 10000;
+}
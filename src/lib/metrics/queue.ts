@@ -0,0 +1,245 @@
+/**
+ * Sync job queue
+ *
+ * Durable replacement for syncing every connection inline in one request:
+ * - enqueueSyncJobs() adds one sync_jobs row per connected connection; a connection
+ *   never has more than one queued or running job (the per-connection lock)
+ * - enqueueConnectionSync() queues a new connection's first sync, which also backfills history
+ * - runSyncWorker() drains due jobs with a bounded number of parallel lanes, claiming
+ *   them with claim_sync_jobs() (FOR UPDATE SKIP LOCKED) so several workers can run at once
+ * - Provider rate limits (429), server errors (5xx) and network failures are retried with
+ *   exponential backoff; other errors (e.g. revoked credentials) fail the job right away
+ *
+ * Driven by /api/cron/sync-metrics or locally with `npm run sync:worker`.
+ *
+ * IMPORTANT: Only use this server-side (uses the service role client)
+ */
+
+import { randomUUID } from "node:crypto";
+import { supabaseAdmin } from "../supabase/server";
+import { getConnectionsToSync } from "../supabase/queries";
+import { providerErrorStatus } from "../providers/requests";
+import { backfillConnectionHistory, syncConnection, recomputeStartupMetrics } from "./sync";
+
+export type SyncJobStatus = "queued" | "running" | "succeeded" | "failed";
+
+export interface SyncJob {
+  id: string;
+  provider_connection_id: string;
+  startup_id: string;
+  full_sync: boolean;
+  backfill: boolean;
+  status: SyncJobStatus;
+  attempts: number;
+  max_attempts: number;
+  run_after: string;
+  last_error: string | null;
+}
+
+export interface SyncWorkerOptions {
+  workerId?: string;
+  concurrency?: number; // Parallel lanes (default 3)
+  maxJobs?: number; // Stop claiming after this many jobs
+  timeBudgetMs?: number; // Stop claiming once this much time has passed
+}
+
+export interface SyncJobResult {
+  jobId: string;
+  startupId: string;
+  connectionId: string;
+  status: "succeeded" | "retrying" | "failed";
+  attempts: number;
+  error?: string;
+}
+
+export interface SyncWorkerResult {
+  workerId: string;
+  processed: number;
+  succeeded: number;
+  retrying: number;
+  failed: number;
+  results: SyncJobResult[];
+}
+
+const DEFAULT_CONCURRENCY = 3;
+
+// Backoff: 1 min, 2 min, 4 min, ... capped at 1 hour, with ±20% jitter
+const RETRY_BASE_SECONDS = 60;
+const RETRY_MAX_SECONDS = 60 * 60;
+
+// Braintree reports transient failures by error type instead of an HTTP status
+const RETRYABLE_ERROR_TYPES = new Set([
+  "StripeConnectionError",
+  "tooManyRequestsError",
+  "serverError",
+  "serviceUnavailableError",
+  "gatewayTimeoutError",
+]);
+
+/**
+ * Whether a failed sync is worth retrying: rate limits, provider outages and network failures
+ */
+export function isRetryableError(error: any): boolean {
+  const status = providerErrorStatus(error);
+  if (status !== null) return status === 429 || status >= 500;
+
+  if (RETRYABLE_ERROR_TYPES.has(error?.type)) return true;
+  return error instanceof TypeError && /fetch failed/i.test(error.message);
+}
+
+/**
+ * Seconds to wait before the next attempt
+ *
+ * @param attempt - The attempt that just failed, starting at 1
+ */
+export function retryDelaySeconds(attempt: number): number {
+  const delay = Math.min(RETRY_MAX_SECONDS, RETRY_BASE_SECONDS * 2 ** Math.max(0, attempt - 1));
+  return Math.round(delay * (0.8 + Math.random() * 0.4));
+}
+
+/**
+ * Queue a sync job for every connected connection (or one startup's) without a pending job
+ *
+ * @returns Number of jobs added
+ */
+export async function enqueueSyncJobs(options: { startupId?: string; full?: boolean } = {}): Promise<number> {
+  const { data, error } = await supabaseAdmin.rpc("enqueue_sync_jobs", {
+    p_startup_id: options.startupId ?? null,
+    p_full: options.full ?? false,
+  });
+
+  if (error) throw new Error(`Failed to enqueue sync jobs: ${error.message}`);
+  return data ?? 0;
+}
+
+/**
+ * Queue the first sync of a newly connected connection: a full sync, then a history backfill
+ * Connect routes call this and return right away; the next worker run does the work.
+ *
+ * @returns False if a sync of the connection was already running, so nothing was queued
+ */
+export async function enqueueConnectionSync(connectionId: string): Promise<boolean> {
+  const { data, error } = await supabaseAdmin.rpc("enqueue_connection_sync", {
+    p_connection_id: connectionId,
+  });
+
+  if (error) throw new Error(`Failed to enqueue connection sync: ${error.message}`);
+  return !!data;
+}
+
+async function claimSyncJob(workerId: string): Promise<SyncJob | null> {
+  const { data, error } = await supabaseAdmin.rpc("claim_sync_jobs", {
+    p_worker: workerId,
+    p_limit: 1,
+  });
+
+  if (error) throw new Error(`Failed to claim sync job: ${error.message}`);
+  return (data as SyncJob[] | null)?.[0] ?? null;
+}
+
+async function finishSyncJob(job: SyncJob, update: Partial<SyncJob> & { finished_at?: string | null }): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from("sync_jobs")
+    .update({
+      ...update,
+      locked_by: null,
+      locked_at: null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", job.id);
+
+  if (error) console.error(`Failed to update sync job ${job.id}:`, error.message);
+}
+
+/**
+ * Run one claimed job and record the outcome (success, retry with backoff, or failure)
+ */
+async function processSyncJob(job: SyncJob): Promise<SyncJobResult> {
+  const result = {
+    jobId: job.id,
+    startupId: job.startup_id,
+    connectionId: job.provider_connection_id,
+    attempts: job.attempts,
+  };
+
+  // Retried attempts don't count as failed syncs of the connection, only the job's last one
+  const willRetry = (error: unknown) => isRetryableError(error) && job.attempts < job.max_attempts;
+
+  try {
+    const conn = (await getConnectionsToSync(job.startup_id)).find((c) => c.id === job.provider_connection_id);
+    if (!conn) throw new Error("Connection is no longer connected");
+
+    await syncConnection(conn, { full: job.full_sync, trigger: job.backfill ? "connect" : undefined, willRetry });
+
+    // Past months for the chart; the sync itself succeeded, so a failed backfill doesn't fail the job
+    if (job.backfill) {
+      try {
+        await backfillConnectionHistory(conn);
+      } catch (error: any) {
+        console.error(`History backfill for connection ${conn.id} failed:`, error?.message || error);
+      }
+    }
+
+    await finishSyncJob(job, { status: "succeeded", last_error: null, finished_at: new Date().toISOString() });
+    return { ...result, status: "succeeded" };
+  } catch (error: any) {
+    const message = error?.message || String(error);
+    console.error(`Sync job ${job.id} (attempt ${job.attempts}/${job.max_attempts}) failed:`, message);
+
+    if (willRetry(error)) {
+      const runAfter = new Date(Date.now() + retryDelaySeconds(job.attempts) * 1000).toISOString();
+      await finishSyncJob(job, { status: "queued", run_after: runAfter, last_error: message });
+      return { ...result, status: "retrying", error: message };
+    }
+
+    await finishSyncJob(job, { status: "failed", last_error: message, finished_at: new Date().toISOString() });
+    return { ...result, status: "failed", error: message };
+  }
+}
+
+/**
+ * Drain due sync jobs, then recompute startup metrics for every startup that synced
+ * Each lane claims and runs one job at a time, so at most `concurrency` syncs run at once.
+ */
+export async function runSyncWorker(options: SyncWorkerOptions = {}): Promise<SyncWorkerResult> {
+  const workerId = options.workerId || `worker-${randomUUID().slice(0, 8)}`;
+  const concurrency = Math.max(1, options.concurrency || DEFAULT_CONCURRENCY);
+  const deadline = options.timeBudgetMs ? Date.now() + options.timeBudgetMs : Infinity;
+  const maxJobs = options.maxJobs ?? Infinity;
+
+  const results: SyncJobResult[] = [];
+  let claimed = 0;
+
+  async function lane(): Promise<void> {
+    while (claimed < maxJobs && Date.now() < deadline) {
+      claimed++;
+      const job = await claimSyncJob(workerId);
+      if (!job) {
+        claimed--;
+        return;
+      }
+      results.push(await processSyncJob(job));
+    }
+  }
+
+  await Promise.all(Array.from({ length: concurrency }, () => lane()));
+
+  // Combine each startup's connections into its startup-level metrics
+  const syncedStartupIds = new Set(results.filter((r) => r.status === "succeeded").map((r) => r.startupId));
+  for (const startupId of Array.from(syncedStartupIds)) {
+    try {
+      await recomputeStartupMetrics(startupId);
+    } catch (error: any) {
+      console.error(`Error combining metrics for startup ${startupId}:`, error);
+    }
+  }
+
+  return {
+    workerId,
+    processed: results.length,
+    succeeded: results.filter((r) => r.status === "succeeded").length,
+    retrying: results.filter((r) => r.status === "retrying").length,
+    failed: results.filter((r) => r.status === "failed").length,
+    results,
+  };
+}
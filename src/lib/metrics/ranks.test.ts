@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { rankChange, rankDelta, rankHistorySince, type RankScope, type RankSnapshot } from "./ranks";
+
+function snapshot(snapshot_date: string, rank: number, scope: RankScope = "overall", segment = ""): RankSnapshot {
+  return { snapshot_date, scope, segment, rank, total: 50 };
+}
+
+describe("rankHistorySince", () => {
+  it("goes back far enough for the monthly comparison", () => {
+    expect(rankHistorySince("2024-06-15")).toBe("2024-05-15");
+  });
+});
+
+describe("rankChange", () => {
+  it("is null without a snapshot in the scope", () => {
+    expect(rankChange([snapshot("2024-06-15", 3)], "country")).toBeNull();
+  });
+
+  it("compares the latest rank with yesterday, last week and last month", () => {
+    const history = [
+      snapshot("2024-05-16", 12),
+      snapshot("2024-06-08", 7),
+      snapshot("2024-06-14", 5),
+      snapshot("2024-06-15", 3),
+    ];
+
+    expect(rankChange(history, "overall")).toEqual({
+      scope: "overall",
+      segment: "",
+      date: "2024-06-15",
+      rank: 3,
+      total: 50,
+      yesterday: 5,
+      lastWeek: 7,
+      lastMonth: 12,
+    });
+  });
+
+  it("uses the latest snapshot on or before each date, in any order", () => {
+    const history = [snapshot("2024-06-15", 3), snapshot("2024-06-05", 9), snapshot("2024-06-12", 4)];
+    expect(rankChange(history, "overall")).toMatchObject({ yesterday: 4, lastWeek: 9, lastMonth: null });
+  });
+
+  it("ignores other scopes", () => {
+    const history = [snapshot("2024-06-15", 3), snapshot("2024-06-14", 1, "category", "SaaS")];
+    expect(rankChange(history, "overall")?.yesterday).toBeNull();
+  });
+
+  it("starts over when the segment changed", () => {
+    const history = [snapshot("2024-06-14", 2, "country", "SE"), snapshot("2024-06-15", 6, "country", "NO")];
+    expect(rankChange(history, "country")).toMatchObject({ segment: "NO", rank: 6, yesterday: null });
+  });
+});
+
+describe("rankDelta", () => {
+  it("counts places gained, negative when the startup dropped", () => {
+    expect(rankDelta(3, 5)).toBe(2);
+    expect(rankDelta(5, 3)).toBe(-2);
+    expect(rankDelta(3, null)).toBeNull();
+  });
+});
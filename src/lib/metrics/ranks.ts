@@ -0,0 +1,84 @@
+/**
+ * Leaderboard rank history
+ *
+ * Pure functions, no database access; safe to import from client components.
+ *
+ * startup_rank_history holds each startup's daily MRR rank overall, in its country and in
+ * its category (see supabase/migrations/rank_history.sql). A rank change compares the
+ * latest snapshot with the latest one on or before 1, 7 and 30 days earlier, in the same
+ * segment (a startup that moved country starts over).
+ */
+
+export type RankScope = "overall" | "country" | "category";
+
+export interface RankSnapshot {
+  snapshot_date: string; // YYYY-MM-DD
+  scope: RankScope;
+  segment: string; // Country code or category; "" for overall
+  rank: number;
+  total: number;
+}
+
+export interface RankChange {
+  scope: RankScope;
+  segment: string;
+  date: string; // Snapshot the rank is from
+  rank: number;
+  total: number;
+  yesterday: number | null; // Earlier ranks, null without a snapshot from then
+  lastWeek: number | null;
+  lastMonth: number | null;
+}
+
+export const RANK_COMPARISONS = { yesterday: 1, lastWeek: 7, lastMonth: 30 } as const;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function daysBefore(date: string, days: number): string {
+  return new Date(Date.parse(date) - days * DAY_MS).toISOString().split("T")[0];
+}
+
+/**
+ * Oldest snapshot date needed to compare ranks as of `date` (YYYY-MM-DD)
+ */
+export function rankHistorySince(date: string): string {
+  return daysBefore(date, RANK_COMPARISONS.lastMonth + 1);
+}
+
+/**
+ * Latest rank in a scope and the ranks it compares against
+ *
+ * @param history - One startup's snapshots (any order, any scopes)
+ * @returns null if the startup has no snapshot in that scope
+ */
+export function rankChange(history: RankSnapshot[], scope: RankScope): RankChange | null {
+  const snapshots = history
+    .filter((snapshot) => snapshot.scope === scope)
+    .sort((a, b) => b.snapshot_date.localeCompare(a.snapshot_date));
+  const latest = snapshots[0];
+  if (!latest) return null;
+
+  const rankOn = (days: number) => {
+    const date = daysBefore(latest.snapshot_date, days);
+    const past = snapshots.find((snapshot) => snapshot.snapshot_date <= date);
+    return past && past.segment === latest.segment ? Number(past.rank) : null;
+  };
+
+  return {
+    scope,
+    segment: latest.segment,
+    date: latest.snapshot_date,
+    rank: Number(latest.rank),
+    total: Number(latest.total),
+    yesterday: rankOn(RANK_COMPARISONS.yesterday),
+    lastWeek: rankOn(RANK_COMPARISONS.lastWeek),
+    lastMonth: rankOn(RANK_COMPARISONS.lastMonth),
+  };
+}
+
+/**
+ * Places gained since an earlier rank (negative when the startup dropped)
+ */
+export function rankDelta(rank: number, earlier: number | null): number | null {
+  return earlier == null ? null : earlier - rank;
+}
@@ -0,0 +1,83 @@
+/**
+ * Per-currency revenue buckets
+ *
+ * Pure functions, no database access.
+ *
+ * Adapters for accounts that bill in several currencies add amounts to one bucket per
+ * currency and expose the split as `raw.revenueByCurrency` in ProviderMetrics.
+ * syncConnection() then converts the buckets into the connection's primary currency.
+ */
+
+import { convertCurrency, type FxRates } from "./fx";
+
+export interface CurrencyAmounts {
+  mrr: number;
+  totalRevenue: number;
+  last30dRevenue: number;
+}
+
+export type CurrencyBuckets = Record<string, CurrencyAmounts>;
+
+/**
+ * Add an amount (negative for refunds) to a currency bucket
+ */
+export function addToBucket(
+  buckets: CurrencyBuckets,
+  currency: string,
+  field: keyof CurrencyAmounts,
+  amount: number
+): void {
+  const key = currency.toUpperCase();
+  if (!buckets[key]) {
+    buckets[key] = { mrr: 0, totalRevenue: 0, last30dRevenue: 0 };
+  }
+  buckets[key][field] += amount;
+}
+
+/**
+ * The currency the account mostly bills in: largest MRR, then largest total revenue
+ */
+export function primaryCurrency(buckets: CurrencyBuckets, fallback: string = "EUR"): string {
+  const ranked = Object.entries(buckets).sort(
+    ([, a], [, b]) => (b.mrr - a.mrr) || (b.totalRevenue - a.totalRevenue)
+  );
+  return ranked[0]?.[0] || fallback.toUpperCase();
+}
+
+/**
+ * Convert minor units to currency units and round, per bucket
+ *
+ * @param divisor - 100 for amounts in cents
+ */
+export function roundBuckets(buckets: CurrencyBuckets, divisor: number = 1): CurrencyBuckets {
+  const rounded: CurrencyBuckets = {};
+  for (const [currency, amounts] of Object.entries(buckets)) {
+    rounded[currency] = {
+      mrr: Math.round(amounts.mrr / divisor),
+      totalRevenue: Math.round(amounts.totalRevenue / divisor),
+      last30dRevenue: Math.round(amounts.last30dRevenue / divisor),
+    };
+  }
+  return rounded;
+}
+
+/**
+ * Sum all buckets in one currency
+ *
+ * @throws Error if a bucket's currency has no FX rate
+ */
+export function normalizeBuckets(buckets: CurrencyBuckets, currency: string, fx: FxRates): CurrencyAmounts {
+  const total: CurrencyAmounts = { mrr: 0, totalRevenue: 0, last30dRevenue: 0 };
+
+  for (const [bucketCurrency, amounts] of Object.entries(buckets)) {
+    total.mrr += convertCurrency(amounts.mrr, bucketCurrency, currency, fx);
+    total.totalRevenue += convertCurrency(amounts.totalRevenue, bucketCurrency, currency, fx);
+    total.last30dRevenue += convertCurrency(amounts.last30dRevenue, bucketCurrency, currency, fx);
+  }
+
+  return {
+    mrr: Math.round(total.mrr),
+    totalRevenue: Math.round(total.totalRevenue),
+    last30dRevenue: Math.round(total.last30dRevenue),
+  };
+}
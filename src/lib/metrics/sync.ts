@@ -0,0 +1,684 @@
+/**
+ * Metrics sync
+ *
+ * Shared by the cron endpoint and the admin "Sync Now" action:
+ * - syncConnection() fetches metrics for one provider connection and stores them per connection,
+ *   converting multi-currency accounts (raw.revenueByCurrency) into their primary currency,
+ *   and records MRR movements for adapters that report per-customer MRR.
+ *   Connections with a stored sync cursor sync incrementally, with a full reconciliation
+ *   every FULL_SYNC_INTERVAL_DAYS. Each attempt is recorded in sync_runs
+ * - backfillConnectionHistory() fills past startup_metrics_history dates for adapters
+ *   that can reconstruct history (run once, by the queued first sync of a new connection)
+ * - recomputeStartupMetrics() combines all of a startup's connections into
+ *   startup_metrics_current and today's startup_metrics_history snapshot,
+ *   converting to the reporting currency with the FX rates stored for today,
+ *   and updates MRR growth from the history
+ * - snapshotLeaderboardRanks() stores the day's leaderboard ranks once the syncs are done
+ *
+ * IMPORTANT: Only use this server-side (uses the service role client)
+ */
+
+import { supabaseAdmin } from "../supabase/server";
+import { getProviderAdapter } from "../providers/registry";
+import { isRevokedAccessError, trackProviderRequests, type ProviderRequestStats } from "../providers/requests";
+import { revokeProviderConnection } from "../providers/connections";
+import { canRefreshToken, connectionConfig, ensureFreshToken } from "../providers/tokens";
+import type { CustomerMrr, HistoryGranularity, ProviderMetrics, SyncMode } from "../providers/types";
+import { getFxRates, type ConnectionToSync } from "../supabase/queries";
+import {
+  combineConnectionMetrics,
+  toReportingCurrency,
+  type CombinedMetrics,
+  type ConnectionMetrics,
+  type ReportingMetrics,
+} from "./aggregate";
+import { normalizeBuckets, type CurrencyAmounts, type CurrencyBuckets } from "./revenue";
+import { computeMrrGrowth, growthHistoryRange, type GrowthSnapshot, type MrrGrowth } from "./growth";
+import { convertCurrency, type FxRates } from "./fx";
+import {
+  addMovement,
+  diffCustomerMrr,
+  emptyMovements,
+  nextCustomerState,
+  type MrrMovements,
+} from "./movements";
+
+// PostgREST returns at most 1000 rows per request
+const PAGE_SIZE = 1000;
+
+// Incremental syncs are reconciled with a full sync this often (FULL_SYNC_INTERVAL_DAYS)
+const FULL_SYNC_INTERVAL_DAYS = Number(process.env.FULL_SYNC_INTERVAL_DAYS) || 7;
+
+// Consecutive failed syncs before a connection is set to "error" and left out of the cron
+// Attempts the queue retries don't count, so this is failed jobs (cron runs), not attempts
+const SYNC_FAILURES_BEFORE_ERROR = 3;
+
+export type SyncTrigger = "worker" | "admin" | "connect";
+
+// How far back backfillConnectionHistory() reconstructs
+const BACKFILL_MONTHS = 24;
+const BACKFILL_DAYS = 90;
+
+/**
+ * Pick the sync mode for a connection
+ * Full when forced, when there is no cursor yet, or when the last full sync is too old
+ */
+export function chooseSyncMode(conn: ConnectionToSync, forceFull: boolean = false): SyncMode {
+  if (forceFull || !conn.sync_cursor || !conn.last_full_sync_at) return "full";
+
+  const daysSinceFull = (Date.now() - new Date(conn.last_full_sync_at).getTime()) / (24 * 60 * 60 * 1000);
+  return daysSinceFull >= FULL_SYNC_INTERVAL_DAYS ? "full" : "incremental";
+}
+
+/**
+ * Fetch the latest metrics for a connection and store them in provider_metrics_current
+ * Every attempt is recorded in sync_runs; repeated failures put the connection in "error"
+ *
+ * @param options.full - Force a full reconciliation instead of an incremental sync
+ * @param options.trigger - What started the sync, stored with the run (default "worker")
+ * @param options.willRetry - Whether the caller retries after this error; such failures
+ *   are recorded on the run but don't count towards SYNC_FAILURES_BEFORE_ERROR
+ * @throws Error if the provider request or the write fails
+ */
+export async function syncConnection(
+  conn: ConnectionToSync,
+  options: { full?: boolean; trigger?: SyncTrigger; willRetry?: (error: unknown) => boolean } = {}
+): Promise<ProviderMetrics> {
+  const syncMode = chooseSyncMode(conn, options.full);
+  const startedAt = new Date();
+  const before = await getStoredTotals(conn.id);
+  const stats: ProviderRequestStats = { requests: 0 };
+
+  const { data: run, error: runError } = await supabaseAdmin
+    .from("sync_runs")
+    .insert({
+      provider_connection_id: conn.id,
+      startup_id: conn.startup_id,
+      provider: conn.provider,
+      trigger: options.trigger || "worker",
+      sync_mode: syncMode,
+      started_at: startedAt.toISOString(),
+    })
+    .select("id")
+    .single();
+
+  if (runError) throw new Error(`Failed to record sync run for connection ${conn.id}: ${runError.message}`);
+
+  // The run's outcome is only a record; failing to store it doesn't change the sync's result
+  const finishRun = async (fields: Record<string, unknown>) => {
+    const finishedAt = new Date();
+    const { error } = await supabaseAdmin
+      .from("sync_runs")
+      .update({
+        ...fields,
+        finished_at: finishedAt.toISOString(),
+        duration_ms: finishedAt.getTime() - startedAt.getTime(),
+        provider_requests: stats.requests,
+      })
+      .eq("id", run.id);
+
+    if (error) console.error(`Failed to finish sync run ${run.id}:`, error.message);
+  };
+
+  try {
+    const { metrics, totals } = await trackProviderRequests(stats, () => fetchAndStoreMetrics(conn, syncMode));
+
+    // A currency change makes the deltas meaningless, so they are left empty
+    const comparable = before && before.currency === metrics.currency;
+    await finishRun({
+      status: "succeeded",
+      currency: metrics.currency,
+      mrr: totals.mrr,
+      mrr_delta: comparable ? totals.mrr - before.mrr : null,
+      total_revenue_delta: comparable ? totals.totalRevenue - before.totalRevenue : null,
+      last_30d_revenue_delta: comparable ? totals.last30dRevenue - before.last30dRevenue : null,
+    });
+
+    return metrics;
+  } catch (error: any) {
+    const message = error?.message || String(error);
+    await finishRun({ status: "failed", error: message });
+    await recordSyncFailure(conn, error, message, options.willRetry?.(error) ?? false);
+    throw error;
+  }
+}
+
+/**
+ * Count a failed sync; the connection goes to "error" after SYNC_FAILURES_BEFORE_ERROR in a row
+ * A provider that rejects our credentials as revoked marks the connection "revoked" right away
+ *
+ * @param retrying - The sync will be retried; only the error is stored
+ */
+async function recordSyncFailure(conn: ConnectionToSync, error: any, message: string, retrying: boolean): Promise<void> {
+  // ensureFreshToken() already set the connection to reauth_required
+  if (error?.code === "reauth_required") return;
+
+  if (isRevokedAccessError(error)) {
+    try {
+      await revokeProviderConnection(conn.id, message);
+      await recomputeStartupMetrics(conn.startup_id);
+    } catch (revokeError: any) {
+      console.error(`Failed to revoke connection ${conn.id}:`, revokeError.message);
+    }
+    return;
+  }
+
+  const failures = conn.consecutive_failures + (retrying ? 0 : 1);
+
+  const { error: updateError } = await supabaseAdmin
+    .from("provider_connections")
+    .update({
+      consecutive_failures: failures,
+      last_sync_error: message,
+      ...(failures >= SYNC_FAILURES_BEFORE_ERROR ? { status: "error" } : {}),
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", conn.id);
+
+  if (updateError) console.error(`Failed to record sync failure for connection ${conn.id}:`, updateError.message);
+  conn.consecutive_failures = failures;
+}
+
+async function getStoredTotals(connectionId: string): Promise<(CurrencyAmounts & { currency: string }) | null> {
+  const { data } = await supabaseAdmin
+    .from("provider_metrics_current")
+    .select("currency, mrr, total_revenue, last_30d_revenue")
+    .eq("provider_connection_id", connectionId)
+    .maybeSingle();
+
+  if (!data) return null;
+  return {
+    currency: data.currency,
+    mrr: Number(data.mrr),
+    totalRevenue: Number(data.total_revenue),
+    last30dRevenue: Number(data.last_30d_revenue),
+  };
+}
+
+async function fetchAndStoreMetrics(
+  conn: ConnectionToSync,
+  syncMode: SyncMode
+): Promise<{ metrics: ProviderMetrics; totals: CurrencyAmounts }> {
+  const adapter = getProviderAdapter(conn.provider);
+  const fetchMetrics = () => adapter.fetchMetrics({
+    ...connectionConfig(conn),
+    syncMode,
+    syncCursor: syncMode === "incremental" ? conn.sync_cursor : null,
+  });
+
+  await ensureFreshToken(conn);
+
+  let metrics: ProviderMetrics;
+  try {
+    metrics = await fetchMetrics();
+  } catch (error) {
+    // Tokens can be invalidated before their expiry; refresh once and retry
+    if (!isRevokedAccessError(error) || !canRefreshToken(conn)) throw error;
+    await ensureFreshToken(conn, { force: true });
+    metrics = await fetchMetrics();
+  }
+
+  const now = new Date().toISOString();
+  const today = now.split("T")[0];
+  const revenueByCurrency: CurrencyBuckets | null = metrics.raw?.revenueByCurrency || null;
+  let totals = { mrr: metrics.mrr, totalRevenue: metrics.totalRevenue, last30dRevenue: metrics.last30dRevenue };
+
+  // Adapters report the primary currency only; fold the other currencies in
+  // Without rates for every currency the primary-currency figures are kept
+  if (revenueByCurrency && Object.keys(revenueByCurrency).length > 1) {
+    try {
+      totals = normalizeBuckets(revenueByCurrency, metrics.currency, await getFxRates(today));
+    } catch (error: any) {
+      console.error(`Cannot normalize currencies for connection ${conn.id}:`, error.message);
+    }
+  }
+
+  const { error } = await supabaseAdmin
+    .from("provider_metrics_current")
+    .upsert({
+      provider_connection_id: conn.id,
+      startup_id: conn.startup_id,
+      provider: conn.provider,
+      currency: metrics.currency,
+      mrr: totals.mrr,
+      total_revenue: totals.totalRevenue,
+      last_30d_revenue: totals.last30dRevenue,
+      revenue_by_currency: revenueByCurrency,
+      // Customer metrics are optional in the adapter contract
+      // ARR and ARPA follow the (possibly normalized) MRR
+      active_customers: metrics.activeCustomers ?? null,
+      arpa: metrics.activeCustomers ? Math.round(totals.mrr / metrics.activeCustomers) : metrics.arpa ?? null,
+      arr: metrics.arr !== undefined ? totals.mrr * 12 : null,
+      logo_churn_rate: metrics.logoChurnRate ?? null,
+      revenue_churn_rate: metrics.revenueChurnRate ?? null,
+      provider_last_synced_at: now,
+      updated_at: now,
+    }, {
+      onConflict: "provider_connection_id",
+    });
+
+  if (error) throw new Error(`Failed to store metrics for connection ${conn.id}: ${error.message}`);
+
+  await supabaseAdmin
+    .from("provider_connections")
+    .update({
+      last_synced_at: now,
+      // A successful sync clears the failure streak (and brings an errored connection back)
+      status: "connected",
+      consecutive_failures: 0,
+      last_sync_error: null,
+      sync_cursor: metrics.syncCursor ?? null,
+      // Adapters that ignore the cursor always read everything
+      ...(syncMode === "full" || !metrics.syncCursor ? { last_full_sync_at: now } : {}),
+      updated_at: now,
+    })
+    .eq("id", conn.id);
+
+  if (metrics.customerMrr) {
+    await recordMrrMovements(conn, metrics.currency, metrics.customerMrr, today);
+  }
+
+  return { metrics, totals };
+}
+
+/**
+ * Diff per-customer MRR against the stored state and add today's movements
+ * Movements are stored in the connection's currency; the first sync only records the baseline
+ *
+ * @param customerId - Only diff this customer (webhook updates); customerMrr holds just their entries
+ * @returns Today's movements from this call, in the connection's currency (empty for the baseline)
+ */
+export async function recordMrrMovements(
+  conn: Pick<ConnectionToSync, "id" | "startup_id">,
+  currency: string,
+  customerMrr: CustomerMrr[],
+  today: string,
+  customerId?: string
+): Promise<MrrMovements> {
+  const previous: CustomerMrr[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    let query = supabaseAdmin
+      .from("provider_customer_mrr")
+      .select("customer_id, currency, mrr")
+      .eq("provider_connection_id", conn.id);
+    if (customerId) query = query.eq("customer_id", customerId);
+
+    const { data, error } = await query.range(from, from + PAGE_SIZE - 1);
+
+    if (error) throw new Error(`Failed to load customer MRR for connection ${conn.id}: ${error.message}`);
+
+    previous.push(...(data || []).map((row) => ({
+      customerId: row.customer_id,
+      currency: row.currency,
+      mrr: Number(row.mrr),
+    })));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  let isBaseline = previous.length === 0;
+  if (isBaseline && customerId) {
+    // A customer without state is new, unless the connection has no baseline at all
+    const { count } = await supabaseAdmin
+      .from("provider_customer_mrr")
+      .select("customer_id", { count: "exact", head: true })
+      .eq("provider_connection_id", conn.id);
+    isBaseline = !count;
+    if (isBaseline) return emptyMovements();
+  }
+
+  const movements = diffCustomerMrr(previous, customerMrr);
+  const changed = nextCustomerState(previous, customerMrr);
+  const now = new Date().toISOString();
+
+  for (let i = 0; i < changed.length; i += PAGE_SIZE) {
+    const { error } = await supabaseAdmin
+      .from("provider_customer_mrr")
+      .upsert(changed.slice(i, i + PAGE_SIZE).map((entry) => ({
+        provider_connection_id: conn.id,
+        customer_id: entry.customerId,
+        currency: entry.currency,
+        mrr: entry.mrr,
+        updated_at: now,
+      })), {
+        onConflict: "provider_connection_id,customer_id,currency",
+      });
+
+    if (error) throw new Error(`Failed to store customer MRR for connection ${conn.id}: ${error.message}`);
+  }
+
+  const totals = emptyMovements();
+  if (isBaseline || movements.length === 0) return totals;
+
+  let fx: FxRates | null = null;
+
+  for (const movement of movements) {
+    let amount = movement.amount;
+    if (movement.currency !== currency) {
+      fx = fx || await getFxRates(today);
+      try {
+        amount = convertCurrency(amount, movement.currency, currency, fx);
+      } catch (error: any) {
+        console.error(`Skipping MRR movement for customer ${movement.customerId}:`, error.message);
+        continue;
+      }
+    }
+    addMovement(totals, movement.type, amount);
+  }
+
+  // Several syncs a day add up into the same row
+  const { data: existing } = await supabaseAdmin
+    .from("mrr_movements")
+    .select("*")
+    .eq("provider_connection_id", conn.id)
+    .eq("movement_date", today)
+    .maybeSingle();
+
+  const row = {
+    provider_connection_id: conn.id,
+    startup_id: conn.startup_id,
+    movement_date: today,
+    currency,
+    new_mrr: totals.new_mrr + Number(existing?.new_mrr || 0),
+    expansion_mrr: totals.expansion_mrr + Number(existing?.expansion_mrr || 0),
+    contraction_mrr: totals.contraction_mrr + Number(existing?.contraction_mrr || 0),
+    churned_mrr: totals.churned_mrr + Number(existing?.churned_mrr || 0),
+    reactivation_mrr: totals.reactivation_mrr + Number(existing?.reactivation_mrr || 0),
+    updated_at: now,
+  };
+
+  const { error } = await supabaseAdmin
+    .from("mrr_movements")
+    .upsert(row, { onConflict: "provider_connection_id,movement_date" });
+
+  if (error) throw new Error(`Failed to store MRR movements for connection ${conn.id}: ${error.message}`);
+  return totals;
+}
+
+/**
+ * Sum a startup's movements for a day in the combined currency
+ */
+async function startupMovementsForDay(
+  startupId: string,
+  connectionIds: string[],
+  currency: string,
+  day: string,
+  fx: FxRates
+): Promise<MrrMovements> {
+  const { data: rows, error } = await supabaseAdmin
+    .from("mrr_movements")
+    .select("currency, new_mrr, expansion_mrr, contraction_mrr, churned_mrr, reactivation_mrr")
+    .in("provider_connection_id", connectionIds)
+    .eq("movement_date", day);
+
+  if (error) throw error;
+
+  const totals = emptyMovements();
+  for (const row of rows || []) {
+    try {
+      const fields = Object.keys(totals) as Array<keyof MrrMovements>;
+      const converted = fields.map((field) => convertCurrency(Number(row[field]), row.currency, currency, fx));
+      fields.forEach((field, i) => { totals[field] += converted[i]; });
+    } catch (error: any) {
+      console.error(`Cannot convert MRR movements for startup ${startupId}:`, error.message);
+    }
+  }
+
+  for (const field of Object.keys(totals) as Array<keyof MrrMovements>) {
+    totals[field] = Math.round(totals[field]);
+  }
+  return totals;
+}
+
+function customerFields(combined: CombinedMetrics) {
+  return {
+    active_customers: combined.active_customers,
+    arpa: combined.arpa,
+    arr: combined.arr,
+    logo_churn_rate: combined.logo_churn_rate,
+    revenue_churn_rate: combined.revenue_churn_rate,
+  };
+}
+
+/**
+ * MRR growth against the startup's history (see ./growth)
+ * A failed history read leaves growth empty rather than failing the recompute.
+ */
+async function startupGrowth(
+  startupId: string,
+  combined: CombinedMetrics,
+  mrrReporting: number | null,
+  today: string
+): Promise<MrrGrowth> {
+  const { since, until } = growthHistoryRange(today);
+  const { data, error } = await supabaseAdmin
+    .from("startup_metrics_history")
+    .select("snapshot_date, currency, mrr, mrr_reporting")
+    .eq("startup_id", startupId)
+    .gte("snapshot_date", since)
+    .lte("snapshot_date", until);
+
+  if (error) {
+    console.error(`Cannot load history for growth of startup ${startupId}:`, error.message);
+    return { mrr_growth_mom: null, mrr_growth_3m: null };
+  }
+
+  return computeMrrGrowth(
+    { currency: combined.currency, mrr: combined.mrr, mrr_reporting: mrrReporting },
+    (data || []) as GrowthSnapshot[],
+    today
+  );
+}
+
+/**
+ * Recompute a startup's combined metrics from its connected providers
+ * Writes startup_metrics_current and upserts today's history snapshot
+ *
+ * Reporting-currency columns are left empty (and logged) if no FX rate is stored
+ * for the startup's currency, so the native figures are still saved. Connections that
+ * can't be converted to the combined currency are left out (and logged).
+ *
+ * Without a connected provider nothing is written: the listing keeps its last numbers as
+ * unverified, and leaderboard_page() / snapshot_leaderboard_ranks() no longer rank it.
+ */
+export async function recomputeStartupMetrics(startupId: string): Promise<void> {
+  const { data: connections, error: connError } = await supabaseAdmin
+    .from("provider_connections")
+    .select("id")
+    .eq("startup_id", startupId)
+    .eq("status", "connected");
+
+  if (connError) throw connError;
+
+  const connectionIds = (connections || []).map((c) => c.id);
+  if (connectionIds.length === 0) return;
+
+  const { data: rows, error } = await supabaseAdmin
+    .from("provider_metrics_current")
+    .select("provider, currency, mrr, total_revenue, last_30d_revenue, active_customers, logo_churn_rate, revenue_churn_rate, provider_last_synced_at")
+    .in("provider_connection_id", connectionIds);
+
+  if (error) throw error;
+
+  const now = new Date().toISOString();
+  const today = now.split("T")[0];
+  const fx = await getFxRates(today);
+
+  const combined = combineConnectionMetrics((rows || []) as ConnectionMetrics[], fx);
+  if (!combined) return;
+
+  for (const row of combined.skipped) {
+    console.error(`Left ${row.provider} (${row.currency}) out of startup ${startupId}'s metrics: no FX rate to ${combined.currency}`);
+  }
+
+  let reporting: ReportingMetrics | Record<string, null> = {
+    reporting_currency: null,
+    mrr_reporting: null,
+    total_revenue_reporting: null,
+    last_30d_revenue_reporting: null,
+    fx_rate_date: null,
+  };
+  try {
+    reporting = toReportingCurrency(combined, fx);
+  } catch (error: any) {
+    console.error(`Cannot normalize metrics for startup ${startupId}:`, error.message);
+  }
+
+  const growth = await startupGrowth(startupId, combined, reporting.mrr_reporting, today);
+
+  const { error: upsertError } = await supabaseAdmin
+    .from("startup_metrics_current")
+    .upsert({
+      startup_id: startupId,
+      currency: combined.currency,
+      mrr: combined.mrr,
+      total_revenue: combined.total_revenue,
+      last_30d_revenue: combined.last_30d_revenue,
+      provider: combined.provider,
+      providers: combined.providers,
+      ...customerFields(combined),
+      provider_last_synced_at: combined.provider_last_synced_at,
+      ...reporting,
+      ...growth,
+      updated_at: now,
+    }, {
+      onConflict: "startup_id",
+    });
+
+  if (upsertError) throw upsertError;
+
+  const movements = await startupMovementsForDay(startupId, connectionIds, combined.currency, today, fx);
+
+  // Daily snapshot: one row per startup per day, refreshed on every recompute
+  const snapshot = {
+    startup_id: startupId,
+    currency: combined.currency,
+    mrr: combined.mrr,
+    total_revenue: combined.total_revenue,
+    last_30d_revenue: combined.last_30d_revenue,
+    provider: combined.provider,
+    ...customerFields(combined),
+    ...reporting,
+    ...movements,
+    snapshot_date: today,
+  };
+
+  const { data: existing, error: existingError } = await supabaseAdmin
+    .from("startup_metrics_history")
+    .select("id")
+    .eq("startup_id", startupId)
+    .eq("snapshot_date", today)
+    .maybeSingle();
+
+  if (existingError) throw existingError;
+
+  const { error: historyError } = existing
+    ? await supabaseAdmin.from("startup_metrics_history").update(snapshot).eq("id", existing.id)
+    : await supabaseAdmin.from("startup_metrics_history").insert(snapshot);
+
+  if (historyError) throw new Error(`Failed to store metrics history for startup ${startupId}: ${historyError.message}`);
+}
+
+/**
+ * Reconstruct past history for a connection and insert it into startup_metrics_history
+ *
+ * Only dates without a snapshot are written, so real snapshots are never overwritten.
+ * Granularity comes from HISTORY_BACKFILL_GRANULARITY ("month" by default, or "day").
+ *
+ * @returns Number of history rows inserted (0 if the adapter can't backfill)
+ */
+export async function backfillConnectionHistory(conn: ConnectionToSync): Promise<number> {
+  const adapter = getProviderAdapter(conn.provider);
+  if (!adapter.backfillHistory) return 0;
+
+  const granularity: HistoryGranularity = process.env.HISTORY_BACKFILL_GRANULARITY === "day" ? "day" : "month";
+  const since = new Date();
+  if (granularity === "day") {
+    since.setUTCDate(since.getUTCDate() - BACKFILL_DAYS);
+  } else {
+    since.setUTCMonth(since.getUTCMonth() - BACKFILL_MONTHS, 1);
+  }
+  const yesterday = new Date(Date.now() - 24 * 60 * 60 * 1000);
+
+  await ensureFreshToken(conn);
+  const points = await adapter.backfillHistory(connectionConfig(conn), {
+    granularity,
+    since: since.toISOString().split("T")[0],
+    until: yesterday.toISOString().split("T")[0],
+  });
+
+  const { data: existing, error } = await supabaseAdmin
+    .from("startup_metrics_history")
+    .select("snapshot_date")
+    .eq("startup_id", conn.startup_id)
+    .gte("snapshot_date", since.toISOString().split("T")[0]);
+
+  if (error) throw error;
+
+  const existingDates = new Set((existing || []).map((row) => row.snapshot_date));
+  const fxByMonth = new Map<string, FxRates>();
+  const rows = [];
+
+  for (const point of points) {
+    // Skip dates already snapshotted and the time before the startup billed anything
+    if (existingDates.has(point.date) || (point.mrr === 0 && point.totalRevenue === 0)) continue;
+
+    // Rates of the point's month (one lookup per month keeps daily backfills cheap)
+    const month = point.date.slice(0, 7);
+    let fx = fxByMonth.get(month);
+    if (!fx) {
+      fx = await getFxRates(point.date);
+      fxByMonth.set(month, fx);
+    }
+
+    const combined = combineConnectionMetrics([{
+      provider: conn.provider,
+      currency: point.currency,
+      mrr: point.mrr,
+      total_revenue: point.totalRevenue,
+      last_30d_revenue: point.last30dRevenue,
+      provider_last_synced_at: null,
+    }], fx)!;
+
+    let reporting: ReportingMetrics | Record<string, null> = {};
+    try {
+      reporting = toReportingCurrency(combined, fx);
+    } catch (error: any) {
+      console.error(`Cannot normalize backfilled metrics for ${point.date}:`, error.message);
+    }
+
+    rows.push({
+      startup_id: conn.startup_id,
+      currency: combined.currency,
+      mrr: combined.mrr,
+      total_revenue: combined.total_revenue,
+      last_30d_revenue: combined.last_30d_revenue,
+      provider: combined.provider,
+      ...customerFields(combined),
+      ...reporting,
+      snapshot_date: point.date,
+    });
+  }
+
+  for (let i = 0; i < rows.length; i += PAGE_SIZE) {
+    const { error: insertError } = await supabaseAdmin
+      .from("startup_metrics_history")
+      .insert(rows.slice(i, i + PAGE_SIZE));
+
+    if (insertError) throw new Error(`Failed to store backfilled history: ${insertError.message}`);
+  }
+
+  return rows.length;
+}
+
+/**
+ * Store every startup's rank (overall, in its country and in its category) for a day
+ * Re-running on the same day refreshes that day's ranks.
+ *
+ * @param date - YYYY-MM-DD (today by default)
+ * @returns Number of rank rows written
+ */
+export async function snapshotLeaderboardRanks(date: string = new Date().toISOString().split("T")[0]): Promise<number> {
+  const { data, error } = await supabaseAdmin.rpc("snapshot_leaderboard_ranks", { p_date: date });
+  if (error) throw new Error(`Failed to snapshot leaderboard ranks: ${error.message}`);
+  return Number(data) || 0;
+}
@@ -0,0 +1,203 @@
+/**
+ * Real-time metric updates from provider webhooks
+ *
+ * Applies single events to a connection's current metrics between syncs:
+ * - applyRevenueChange() adds a payment (or subtracts a refund) to total and last 30 days revenue
+ * - applyCustomerMrrChange() re-prices one customer's subscriptions and moves MRR by the
+ *   difference, recording the MRR movement like a sync would
+ * Both then recompute the startup's combined metrics.
+ *
+ * These are deltas on top of the last sync. The next sync recomputes everything from the
+ * provider (and its cursor), so anything a webhook misses, such as revenue ageing out of
+ * the 30-day window, is corrected there.
+ *
+ * IMPORTANT: Only use this server-side (uses the service role client)
+ */
+
+import { supabaseAdmin } from "../supabase/server";
+import { getProviderAdapter } from "../providers/registry";
+import { connectionConfig, ensureFreshToken } from "../providers/tokens";
+import type { ProviderName } from "../providers/types";
+import { getConnectionsToSync, getFxRates, type ConnectionToSync } from "../supabase/queries";
+import { addToBucket, normalizeBuckets, type CurrencyBuckets } from "./revenue";
+import { netNewMrr } from "./movements";
+import { recomputeStartupMetrics, recordMrrMovements } from "./sync";
+
+/**
+ * Record a webhook event as processed
+ *
+ * @returns false if the event was already processed (a redelivery)
+ */
+export async function claimWebhookEvent(
+  eventId: string,
+  provider: ProviderName,
+  providerAccountId: string | null,
+  type: string
+): Promise<boolean> {
+  const { error } = await supabaseAdmin
+    .from("provider_webhook_events")
+    .insert({ event_id: eventId, provider, provider_account_id: providerAccountId, type });
+
+  if (!error) return true;
+  if (error.code === "23505") return false; // unique_violation
+  throw new Error(`Failed to record webhook event ${eventId}: ${error.message}`);
+}
+
+/**
+ * Forget a webhook event whose processing failed, so the provider's retry is applied
+ */
+export async function releaseWebhookEvent(eventId: string): Promise<void> {
+  await supabaseAdmin.from("provider_webhook_events").delete().eq("event_id", eventId);
+}
+
+/**
+ * The connected connections for a provider account, with their credentials
+ * One account can be connected to several startups.
+ */
+export async function getConnectionsByAccount(
+  provider: ProviderName,
+  providerAccountId: string
+): Promise<ConnectionToSync[]> {
+  const { data, error } = await supabaseAdmin
+    .from("provider_connections")
+    .select("id, startup_id")
+    .eq("provider", provider)
+    .eq("provider_account_id", providerAccountId)
+    .eq("status", "connected");
+
+  if (error) throw error;
+
+  const connections: ConnectionToSync[] = [];
+  for (const startupId of Array.from(new Set((data || []).map((row) => row.startup_id)))) {
+    const ids = new Set((data || []).filter((row) => row.startup_id === startupId).map((row) => row.id));
+    connections.push(...(await getConnectionsToSync(startupId)).filter((conn) => ids.has(conn.id)));
+  }
+  return connections;
+}
+
+/**
+ * Every connection for a provider account that isn't revoked yet, whatever its sync status
+ * Deauthorization has to reach connections in "error" or "reauth_required" too, and one
+ * account can be connected to several startups.
+ */
+export async function getRevocableConnectionsByAccount(
+  provider: ProviderName,
+  providerAccountId: string
+): Promise<{ id: string; startup_id: string }[]> {
+  const { data, error } = await supabaseAdmin
+    .from("provider_connections")
+    .select("id, startup_id")
+    .eq("provider", provider)
+    .eq("provider_account_id", providerAccountId)
+    .neq("status", "revoked");
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Add a payment (positive) or refund (negative) to the connection's revenue
+ *
+ * @param amount - In currency units (not cents)
+ * @returns false if the connection has no synced metrics yet or the amount can't be converted
+ */
+export async function applyRevenueChange(conn: ConnectionToSync, currency: string, amount: number): Promise<boolean> {
+  const { data: row } = await supabaseAdmin
+    .from("provider_metrics_current")
+    .select("currency, mrr, total_revenue, last_30d_revenue, revenue_by_currency")
+    .eq("provider_connection_id", conn.id)
+    .maybeSingle();
+
+  // Nothing to build on; the first sync will include this payment
+  if (!row) return false;
+
+  const buckets: CurrencyBuckets = row.revenue_by_currency || {
+    [row.currency.toUpperCase()]: {
+      mrr: Number(row.mrr),
+      totalRevenue: Number(row.total_revenue),
+      last30dRevenue: Number(row.last_30d_revenue),
+    },
+  };
+  addToBucket(buckets, currency, "totalRevenue", amount);
+  addToBucket(buckets, currency, "last30dRevenue", amount);
+
+  let totals = buckets[row.currency.toUpperCase()];
+  if (Object.keys(buckets).length > 1) {
+    const today = new Date().toISOString().split("T")[0];
+    try {
+      totals = normalizeBuckets(buckets, row.currency, await getFxRates(today));
+    } catch (error: any) {
+      console.error(`Cannot apply ${currency} revenue to connection ${conn.id}:`, error.message);
+      return false;
+    }
+  }
+
+  const { error } = await supabaseAdmin
+    .from("provider_metrics_current")
+    .update({
+      total_revenue: Math.round(totals.totalRevenue),
+      last_30d_revenue: Math.round(totals.last30dRevenue),
+      revenue_by_currency: row.revenue_by_currency ? buckets : null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("provider_connection_id", conn.id);
+
+  if (error) throw new Error(`Failed to apply revenue to connection ${conn.id}: ${error.message}`);
+
+  await recomputeStartupMetrics(conn.startup_id);
+  return true;
+}
+
+/**
+ * Re-price one customer and move the connection's MRR by the change
+ *
+ * @returns false if the adapter can't price single customers or the connection has no baseline yet
+ */
+export async function applyCustomerMrrChange(conn: ConnectionToSync, customerId: string): Promise<boolean> {
+  const adapter = getProviderAdapter(conn.provider);
+  if (!adapter.fetchCustomerMrr) return false;
+
+  const { data: row } = await supabaseAdmin
+    .from("provider_metrics_current")
+    .select("currency, mrr, arr, arpa, active_customers")
+    .eq("provider_connection_id", conn.id)
+    .maybeSingle();
+
+  if (!row) return false;
+
+  await ensureFreshToken(conn);
+  const customerMrr = await adapter.fetchCustomerMrr(connectionConfig(conn), customerId);
+
+  const today = new Date().toISOString().split("T")[0];
+  const movements = await recordMrrMovements(conn, row.currency, customerMrr, today, customerId);
+  const change = netNewMrr(movements);
+  if (!change) return false;
+
+  // A customer that starts or stops paying changes the customer count
+  // (a currency switch is churn plus reactivation and nets out)
+  let activeCustomers: number | null = row.active_customers;
+  if (activeCustomers !== null) {
+    if (customerMrr.length > 0 && !movements.churned_mrr && (movements.new_mrr || movements.reactivation_mrr)) {
+      activeCustomers++;
+    } else if (customerMrr.length === 0 && movements.churned_mrr) {
+      activeCustomers = Math.max(0, activeCustomers - 1);
+    }
+  }
+
+  const mrr = Math.round(Number(row.mrr) + change);
+  const { error } = await supabaseAdmin
+    .from("provider_metrics_current")
+    .update({
+      mrr,
+      arr: row.arr !== null ? mrr * 12 : null,
+      active_customers: activeCustomers,
+      arpa: activeCustomers ? Math.round(mrr / activeCustomers) : row.arpa,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("provider_connection_id", conn.id);
+
+  if (error) throw new Error(`Failed to apply MRR change to connection ${conn.id}: ${error.message}`);
+
+  await recomputeStartupMetrics(conn.startup_id);
+  return true;
+}
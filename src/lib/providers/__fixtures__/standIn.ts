@@ -0,0 +1,82 @@
+/**
+ * Recorded-fixture HTTP stand-in for adapter tests
+ *
+ * Serves provider responses recorded under this directory on a local port, so adapters
+ * run against it through their base URL overrides (PAYPAL_API_BASE_URL,
+ * BRAINTREE_ENVIRONMENT). Every request is kept for assertions.
+ */
+
+import { readFileSync } from "node:fs";
+import { createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+
+export interface StandInRequest {
+  method: string;
+  path: string; // Without the query string
+  query: URLSearchParams;
+  headers: Record<string, string | string[] | undefined>;
+  body: string;
+}
+
+export interface StandInResponse {
+  status?: number;
+  contentType: string;
+  body: string;
+}
+
+export interface StandIn {
+  url: string;
+  requests: StandInRequest[];
+  close(): Promise<void>;
+}
+
+/**
+ * Read a recorded response, e.g. fixture("paypal/token.json")
+ */
+export function fixture(name: string): string {
+  return readFileSync(new URL(name, import.meta.url), "utf8");
+}
+
+/**
+ * Start a stand-in on a random local port
+ *
+ * @param handle - Response for a request; null answers 404
+ */
+export async function startStandIn(handle: (request: StandInRequest) => StandInResponse | null): Promise<StandIn> {
+  const requests: StandInRequest[] = [];
+
+  const server = createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on("data", (chunk: Buffer) => chunks.push(chunk));
+    req.on("end", () => {
+      const url = new URL(req.url || "/", "http://localhost");
+      const request: StandInRequest = {
+        method: req.method || "GET",
+        path: url.pathname,
+        query: url.searchParams,
+        headers: req.headers,
+        body: Buffer.concat(chunks).toString("utf8"),
+      };
+      requests.push(request);
+
+      const response = handle(request);
+      if (!response) {
+        res.writeHead(404, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ message: `No fixture for ${request.method} ${request.path}` }));
+        return;
+      }
+
+      res.writeHead(response.status || 200, { "Content-Type": response.contentType });
+      res.end(response.body);
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    close: () => new Promise<void>((resolve, reject) => server.close((error) => (error ? reject(error) : resolve()))),
+  };
+}
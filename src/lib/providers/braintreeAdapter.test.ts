@@ -0,0 +1,190 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { fixture, startStandIn, type StandIn } from "./__fixtures__/standIn";
+import { braintreeAdapter } from "./braintreeAdapter";
+import type { ProviderConnectionConfig } from "./types";
+
+const NOW = new Date("2024-06-15T12:00:00Z");
+
+const CREDENTIALS = { merchantId: "fixture_merchant", publicKey: "fixture_public", privateKey: "fixture_private" };
+const MERCHANT_PATH = `/merchants/${CREDENTIALS.merchantId}`;
+
+const config: ProviderConnectionConfig = {
+  providerConnectionId: "00000000-0000-0000-0000-000000000002",
+  providerAccountId: CREDENTIALS.merchantId,
+  accessToken: JSON.stringify({ publicKey: CREDENTIALS.publicKey, privateKey: CREDENTIALS.privateKey }),
+};
+
+type Range = { min?: string; max?: string };
+
+interface RecordedTransaction {
+  id: string;
+  xml: string;
+  createdAt: string;
+  settledAt: string;
+}
+
+function xmlValue(xml: string, tag: string): string {
+  return new RegExp(`<${tag}[^>]*>([^<]*)</${tag}>`).exec(xml)![1];
+}
+
+function blocks(xml: string, tag: string): string[] {
+  return xml.match(new RegExp(`  <${tag}>[\\s\\S]*?\\n  </${tag}>\\n`, "g")) || [];
+}
+
+function inRange(value: string, range: Range | undefined): boolean {
+  if (!range) return true;
+  const at = Date.parse(value);
+  return (!range.min || at >= Date.parse(range.min)) && (!range.max || at <= Date.parse(range.max));
+}
+
+/**
+ * Keep the recorded search results for `ids` only
+ */
+function withIds(xml: string, tag: string, ids: string[]): string {
+  return blocks(xml, tag).reduce(
+    (filtered, block) => (ids.includes(xmlValue(block, "id")) ? filtered : filtered.replace(block, "")),
+    xml
+  );
+}
+
+function searchIds(ids: string[]): string {
+  const recorded = fixture("braintree/transaction_search_ids.xml");
+  return recorded.replace(/<item>([^<]*)<\/item>\n\s*/g, (item, id) => (ids.includes(id) ? item : ""));
+}
+
+let standIn: StandIn;
+
+beforeAll(async () => {
+  const transactionsXml = fixture("braintree/transactions.xml");
+  const transactions: RecordedTransaction[] = blocks(transactionsXml, "transaction").map((xml) => ({
+    id: xmlValue(xml, "id"),
+    xml,
+    createdAt: xmlValue(xml, "created-at"),
+    settledAt: /<timestamp[^>]*>([^<]*)<\/timestamp>\s*<status>settled</.exec(xml)![1],
+  }));
+  const validAuth = `Basic ${Buffer.from(`${CREDENTIALS.publicKey}:${CREDENTIALS.privateKey}`).toString("base64")}`;
+  const xml = (body: string) => ({ contentType: "application/xml; charset=utf-8", body });
+
+  standIn = await startStandIn((request) => {
+    if (request.headers.authorization !== validAuth) {
+      return { status: 401, contentType: "text/plain", body: "" };
+    }
+
+    const search = request.body ? JSON.parse(request.body).search : {};
+
+    switch (`${request.method} ${request.path}`) {
+      case `GET ${MERCHANT_PATH}/plans`:
+        return xml(fixture("braintree/plans.xml"));
+      case `POST ${MERCHANT_PATH}/subscriptions/advanced_search_ids`:
+        return xml(fixture("braintree/subscription_search_ids.xml"));
+      case `POST ${MERCHANT_PATH}/subscriptions/advanced_search`:
+        return xml(withIds(fixture("braintree/subscriptions.xml"), "subscription", search.ids));
+      case `POST ${MERCHANT_PATH}/transactions/advanced_search_ids`:
+        // Every recorded transaction is settled; apply the date bounds like Braintree does
+        return xml(searchIds(
+          transactions
+            .filter((t) => inRange(t.createdAt, search.created_at) && inRange(t.settledAt, search.settled_at))
+            .map((t) => t.id)
+        ));
+      case `POST ${MERCHANT_PATH}/transactions/advanced_search`:
+        return xml(withIds(transactionsXml, "transaction", search.ids));
+      default:
+        return null;
+    }
+  });
+
+  // Read when the gateway is created
+  process.env.BRAINTREE_ENVIRONMENT = standIn.url;
+});
+
+afterAll(async () => {
+  delete process.env.BRAINTREE_ENVIRONMENT;
+  await standIn.close();
+});
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ["Date"] });
+  vi.setSystemTime(NOW);
+  standIn.requests.length = 0;
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+function transactionSearches() {
+  return standIn.requests
+    .filter((request) => request.path === `${MERCHANT_PATH}/transactions/advanced_search_ids`)
+    .map((request) => JSON.parse(request.body).search);
+}
+
+describe("braintreeAdapter.fetchMetrics", () => {
+  it("computes MRR from active subscriptions and revenue net of credits", async () => {
+    const metrics = await braintreeAdapter.fetchMetrics(config);
+
+    // 49 + 480 / 12 + 59 (with add-on)
+    expect(metrics).toMatchObject({ currency: "EUR", mrr: 148, totalRevenue: 588, last30dRevenue: 59 });
+    expect(metrics.raw).toMatchObject({ syncMode: "full", subscriptionCount: 3, transactionCount: 5 });
+    expect(metrics.syncCursor).toEqual({ syncedAt: NOW.toISOString(), totalRevenue: 588 });
+  });
+
+  it("only searches settled transactions, up to the sync time", async () => {
+    await braintreeAdapter.fetchMetrics(config);
+
+    expect(transactionSearches()).toEqual([
+      { status: ["settled"], settled_at: { max: NOW.toISOString() } },
+    ]);
+  });
+
+  it("adds what settled since the cursor and re-reads the last 30 days when incremental", async () => {
+    const metrics = await braintreeAdapter.fetchMetrics({
+      ...config,
+      syncMode: "incremental",
+      // Before the refund settled
+      syncCursor: { syncedAt: "2024-06-14T12:00:00.000Z", totalRevenue: 637 },
+    });
+
+    expect(transactionSearches()).toEqual([
+      { status: ["settled"], settled_at: { min: "2024-06-14T12:00:01.000Z", max: NOW.toISOString() } },
+      { status: ["settled"], created_at: { min: "2024-05-16T12:00:00.000Z", max: NOW.toISOString() } },
+    ]);
+    expect(metrics).toMatchObject({ mrr: 148, totalRevenue: 588, last30dRevenue: 59 });
+    expect(metrics.raw).toMatchObject({ syncMode: "incremental" });
+  });
+
+  it("does a full sync when the cursor is missing or malformed", async () => {
+    const metrics = await braintreeAdapter.fetchMetrics({
+      ...config,
+      syncMode: "incremental",
+      syncCursor: { syncedAt: 1718366400 },
+    });
+
+    expect(metrics.raw).toMatchObject({ syncMode: "full" });
+    expect(metrics.totalRevenue).toBe(588);
+  });
+
+  it("asks to reconnect when the stored keys can't be read", async () => {
+    await expect(braintreeAdapter.fetchMetrics({ ...config, accessToken: "not-json" })).rejects.toThrow(
+      "Reconnect Braintree"
+    );
+    expect(standIn.requests).toEqual([]);
+  });
+});
+
+describe("braintreeAdapter.connectWithCredentials", () => {
+  it("stores the key pair once Braintree lists the plans", async () => {
+    await expect(braintreeAdapter.connectWithCredentials!(CREDENTIALS)).resolves.toEqual({
+      providerAccountId: CREDENTIALS.merchantId,
+      accessToken: config.accessToken,
+    });
+  });
+
+  it("rejects keys Braintree doesn't accept", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+
+    await expect(
+      braintreeAdapter.connectWithCredentials!({ ...CREDENTIALS, privateKey: "wrong" })
+    ).rejects.toThrow("Braintree rejected these API keys");
+  });
+});
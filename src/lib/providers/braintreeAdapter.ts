@@ -0,0 +1,270 @@
+/**
+ * Braintree Payment Provider Adapter
+ *
+ * Implements PaymentProviderAdapter for Braintree merchant accounts.
+ *
+ * This adapter:
+ * - Authenticates with founder-supplied merchant API keys (no OAuth)
+ * - Calculates MRR from active Recurring Billing subscriptions and their plans
+ * - Calculates total revenue from settled sales, net of settled credits (refunds)
+ * - Calculates last 30 days revenue
+ * - Supports incremental syncs: the revenue total is carried in the sync cursor, so only
+ *   transactions settled since the last sync and the last 30 days are searched; full syncs
+ *   (first sync and periodic reconciliation) read the whole history
+ *
+ * Credentials are stored in provider_tokens.access_token as JSON:
+ * { "publicKey": "...", "privateKey": "..." } with the merchant ID as provider_account_id.
+ *
+ * BRAINTREE_ENVIRONMENT selects "production" (default), "sandbox", or a base URL
+ * (e.g. http://localhost:4010) for a recorded-fixture HTTP stand-in.
+ */
+
+import braintree from "braintree";
+import type { Readable } from "stream";
+import type {
+  PaymentProviderAdapter,
+  ProviderMetrics,
+  ProviderConnectionConfig,
+  ProviderCredentialConnection,
+} from "./types";
+import { countProviderRequest } from "./requests";
+
+interface BraintreeCredentials {
+  merchantId: string;
+  publicKey: string;
+  privateKey: string;
+}
+
+// @types/braintree leaves subscription search untyped; these are the fields used here
+type SubscriptionSearchFn = (search: {
+  status: braintree.MultiValueSearchFn<braintree.SubscriptionStatus>;
+}) => void;
+
+/**
+ * Checkpoint stored between incremental syncs
+ */
+interface BraintreeSyncCursor {
+  syncedAt: string; // ISO; settled transactions up to here are in totalRevenue
+  totalRevenue: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function readSyncCursor(config: ProviderConnectionConfig): BraintreeSyncCursor | null {
+  const cursor = config.syncCursor as Partial<BraintreeSyncCursor> | null | undefined;
+  if (config.syncMode !== "incremental" || !cursor) return null;
+  if (typeof cursor.syncedAt !== "string" || typeof cursor.totalRevenue !== "number") return null;
+  return cursor as BraintreeSyncCursor;
+}
+
+/**
+ * Key pair stored by connectWithCredentials()
+ *
+ * @throws Error asking to reconnect if it can't be read
+ */
+function readKeyPair(accessToken: string): Pick<BraintreeCredentials, "publicKey" | "privateKey"> {
+  try {
+    const keys = JSON.parse(accessToken);
+    if (keys?.publicKey && keys?.privateKey) return keys;
+  } catch {
+    // Not JSON; reported below
+  }
+  throw new Error("The stored Braintree API keys can't be read. Reconnect Braintree with a public and private key.");
+}
+
+/**
+ * Settled amount of a transaction; credits are refunds and reduce revenue
+ */
+function transactionAmount(transaction: braintree.Transaction): number {
+  const sign = transaction.type === braintree.Transaction.Type.Credit ? -1 : 1;
+  return sign * Number(transaction.amount);
+}
+
+/**
+ * Resolve the Braintree environment from BRAINTREE_ENVIRONMENT
+ */
+function getEnvironment(): braintree.Environment {
+  const value = process.env.BRAINTREE_ENVIRONMENT || "production";
+
+  if (value === "production") return braintree.Environment.Production;
+  if (value === "sandbox") return braintree.Environment.Sandbox;
+
+  // Anything else is treated as the base URL of a stand-in server
+  const url = new URL(value);
+  const ssl = url.protocol === "https:";
+  const port = url.port || (ssl ? "443" : "80");
+  return new braintree.Environment(url.hostname, port, url.origin, ssl, url.hostname, port);
+}
+
+function createGateway(credentials: BraintreeCredentials): braintree.BraintreeGateway {
+  return new braintree.BraintreeGateway({
+    environment: getEnvironment(),
+    merchantId: credentials.merchantId,
+    publicKey: credentials.publicKey,
+    privateKey: credentials.privateKey,
+  });
+}
+
+/**
+ * Collect every result of a Braintree search stream
+ */
+function collect<T>(stream: Readable): Promise<T[]> {
+  return new Promise((resolve, reject) => {
+    const items: T[] = [];
+    stream.on("data", (item: T) => items.push(item));
+    stream.on("end", () => resolve(items));
+    stream.on("error", reject);
+  });
+}
+
+/**
+ * Check that merchant API keys are valid by listing plans
+ */
+async function verifyBraintreeCredentials(credentials: BraintreeCredentials): Promise<boolean> {
+  try {
+    await createGateway(credentials).plan.all();
+    return true;
+  } catch (error) {
+    console.error("Braintree credential check failed:", error);
+    return false;
+  }
+}
+
+/**
+ * Braintree adapter implementation
+ */
+export const braintreeAdapter: PaymentProviderAdapter = {
+  name: "braintree",
+  displayName: "Braintree",
+  authKind: "credentials",
+  logoUrl: "/providers/braintree.svg",
+  description: "Connect with merchant API keys from Settings → API. Subscriptions and settled transactions are read to compute MRR and revenue.",
+  credentialFields: [
+    { name: "merchantId", label: "Merchant ID", placeholder: "abc123xyz" },
+    { name: "publicKey", label: "Public Key", placeholder: "public key" },
+    { name: "privateKey", label: "Private Key", placeholder: "private key", secret: true },
+  ],
+
+  async connectWithCredentials(fields: Record<string, string>): Promise<ProviderCredentialConnection> {
+    const credentials: BraintreeCredentials = {
+      merchantId: fields.merchantId,
+      publicKey: fields.publicKey,
+      privateKey: fields.privateKey,
+    };
+
+    const isValid = await verifyBraintreeCredentials(credentials);
+    if (!isValid) {
+      throw new Error("Braintree rejected these API keys. Check the merchant ID and key pair.");
+    }
+
+    return {
+      providerAccountId: credentials.merchantId,
+      accessToken: JSON.stringify({
+        publicKey: credentials.publicKey,
+        privateKey: credentials.privateKey,
+      }),
+    };
+  },
+
+  async fetchMetrics(config: ProviderConnectionConfig): Promise<ProviderMetrics> {
+    const { publicKey, privateKey } = readKeyPair(config.accessToken);
+    const gateway = createGateway({
+      merchantId: config.providerAccountId,
+      publicKey,
+      privateKey,
+    });
+
+    // Plans carry the billing frequency (in months) and currency for their subscriptions
+    // Searches page internally; each is counted as one request
+    countProviderRequest();
+    const plans = await gateway.plan.all();
+    const plansById = new Map(plans.map((plan) => [plan.id, plan]));
+
+    countProviderRequest();
+    const activeOnly: SubscriptionSearchFn = (search) => {
+      search.status().in([braintree.Subscription.Status.Active]);
+    };
+    const subscriptions = await collect<braintree.Subscription>(gateway.subscription.search(activeOnly));
+
+    // Calculate MRR from active subscriptions
+    // nextBillingPeriodAmount includes add-ons and discounts
+    let mrr = 0;
+    const currency = plansById.get(subscriptions[0]?.planId)?.currencyIsoCode || "EUR";
+
+    for (const subscription of subscriptions) {
+      const plan = plansById.get(subscription.planId);
+      const frequency = plan?.billingFrequency || 1;
+      const amount = Number(subscription.nextBillingPeriodAmount || subscription.price || 0);
+
+      mrr += amount / frequency;
+    }
+
+    // Calculate revenue from settled transactions
+    // Settled only: settling transactions are counted once they settle, so incremental
+    // syncs (bounded by settledAt) and full syncs agree
+    // Whole seconds, so the next sync's window starts right after this one
+    const now = new Date(Math.floor(Date.now() / 1000) * 1000);
+    const thirtyDaysAgo = new Date(now.getTime() - 30 * DAY_MS);
+    const cursor = readSyncCursor(config);
+
+    const searchSettled = (bound: (search: Parameters<braintree.TransactionSearchFn>[0]) => void) => {
+      countProviderRequest();
+      return collect<braintree.Transaction>(
+        gateway.transaction.search((search) => {
+          search.status().in(["settled"]);
+          bound(search);
+        })
+      );
+    };
+
+    let totalRevenue = 0;
+    let last30dRevenue = 0;
+    let transactionCount = 0;
+
+    if (cursor) {
+      // Incremental: previous total + what settled since, and the trailing 30 days
+      const settledSince = await searchSettled((search) => {
+        search.settledAt().between(new Date(Date.parse(cursor.syncedAt) + 1000), now);
+      });
+      const recent = await searchSettled((search) => {
+        search.createdAt().between(thirtyDaysAgo, now);
+      });
+
+      totalRevenue = cursor.totalRevenue + settledSince.reduce((sum, t) => sum + transactionAmount(t), 0);
+      last30dRevenue = recent.reduce((sum, t) => sum + transactionAmount(t), 0);
+      transactionCount = settledSince.length + recent.length;
+    } else {
+      const transactions = await searchSettled((search) => {
+        search.settledAt().max(now);
+      });
+
+      for (const transaction of transactions) {
+        const amount = transactionAmount(transaction);
+        totalRevenue += amount;
+
+        if (new Date(transaction.createdAt).getTime() >= thirtyDaysAgo.getTime()) {
+          last30dRevenue += amount;
+        }
+      }
+      transactionCount = transactions.length;
+    }
+
+    const syncCursor: BraintreeSyncCursor = {
+      syncedAt: now.toISOString(),
+      totalRevenue: Math.round(totalRevenue * 100) / 100,
+    };
+
+    return {
+      currency: currency.toUpperCase(),
+      mrr: Math.round(mrr),
+      totalRevenue: Math.round(totalRevenue),
+      last30dRevenue: Math.round(last30dRevenue),
+      syncCursor: { ...syncCursor },
+      raw: {
+        syncMode: cursor ? "incremental" : "full",
+        subscriptionCount: subscriptions.length,
+        transactionCount,
+      },
+    };
+  },
+};
@@ -0,0 +1,222 @@
+/**
+ * Chargebee Payment Provider Adapter
+ *
+ * Implements PaymentProviderAdapter for Chargebee sites.
+ *
+ * This adapter:
+ * - Authenticates with a founder-supplied read-only API key (no OAuth)
+ * - Calculates MRR from active subscriptions (Chargebee's own `mrr` field when available)
+ * - Calculates total revenue from paid invoices, net of refunds issued via credit notes
+ * - Calculates last 30 days revenue
+ *
+ * The Chargebee site name (e.g. "acme" for acme.chargebee.com) is stored as provider_account_id.
+ * Amounts are integers in cents, timestamps are unix seconds.
+ */
+
+import type {
+  PaymentProviderAdapter,
+  ProviderMetrics,
+  ProviderConnectionConfig,
+  ProviderCredentialConnection,
+} from "./types";
+import { toMonthly } from "../metrics/mrr";
+import { countProviderRequest } from "./requests";
+
+interface ChargebeeListResponse<K extends string, T> {
+  list: Array<Record<K, T>>;
+  next_offset?: string;
+}
+
+interface ChargebeeSubscription {
+  id: string;
+  status: string;
+  currency_code: string;
+  mrr?: number;
+  plan_unit_price?: number;
+  plan_quantity?: number;
+  billing_period?: number;
+  billing_period_unit?: "day" | "week" | "month" | "year";
+}
+
+interface ChargebeeInvoice {
+  id: string;
+  amount_paid: number;
+  currency_code: string;
+  paid_at?: number;
+  date: number;
+}
+
+interface ChargebeeCreditNote {
+  id: string;
+  amount_refunded: number;
+  currency_code: string;
+  date: number;
+}
+
+// Site names are a subdomain of chargebee.com; anything else could point the API key elsewhere
+const SITE_PATTERN = /^[a-z0-9-]+$/i;
+
+function baseUrl(site: string): string {
+  if (!SITE_PATTERN.test(site)) throw new Error(`Invalid Chargebee site name: ${site}`);
+  return process.env.CHARGEBEE_API_BASE_URL || `https://${site}.chargebee.com/api/v2`;
+}
+
+/**
+ * Fetch one page of a Chargebee list endpoint
+ */
+async function listPage<K extends string, T>(
+  site: string,
+  apiKey: string,
+  resource: string,
+  query: Record<string, string>
+): Promise<ChargebeeListResponse<K, T>> {
+  const params = new URLSearchParams(query);
+
+  countProviderRequest();
+  const response = await fetch(`${baseUrl(site)}/${resource}?${params.toString()}`, {
+    headers: {
+      Authorization: `Basic ${Buffer.from(`${apiKey}:`).toString("base64")}`,
+    },
+    cache: "no-store",
+  });
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(`Chargebee API error (${response.status}): ${body?.message || response.statusText}`);
+  }
+
+  return response.json();
+}
+
+/**
+ * Fetch every page of a Chargebee list endpoint
+ * Chargebee uses offset pagination via next_offset
+ */
+async function listAll<K extends string, T>(
+  site: string,
+  apiKey: string,
+  resource: string,
+  key: K,
+  query: Record<string, string> = {}
+): Promise<T[]> {
+  let results: T[] = [];
+  let offset: string | undefined;
+
+  do {
+    const page = await listPage<K, T>(site, apiKey, resource, {
+      limit: "100",
+      ...query,
+      ...(offset ? { offset } : {}),
+    });
+    results = results.concat(page.list.map((entry) => entry[key]));
+    offset = page.next_offset;
+  } while (offset);
+
+  return results;
+}
+
+/**
+ * Monthly amount of a subscription in cents
+ */
+function subscriptionMonthlyAmount(subscription: ChargebeeSubscription): number {
+  if (typeof subscription.mrr === "number") return subscription.mrr;
+
+  if (!subscription.billing_period_unit) return 0;
+
+  const amount = (subscription.plan_unit_price || 0) * (subscription.plan_quantity || 1);
+  return toMonthly(amount, subscription.billing_period_unit, subscription.billing_period || 1);
+}
+
+/**
+ * Chargebee adapter implementation
+ */
+export const chargebeeAdapter: PaymentProviderAdapter = {
+  name: "chargebee",
+  displayName: "Chargebee",
+  authKind: "credentials",
+  logoUrl: "/providers/chargebee.svg",
+  description: "Connect with a read-only API key from Settings → Configure Chargebee → API Keys. Subscriptions, invoices and credit notes are read to compute MRR and revenue.",
+  credentialFields: [
+    { name: "site", label: "Site Name", placeholder: "acme (from acme.chargebee.com)" },
+    { name: "apiKey", label: "Read-only API Key", placeholder: "live_...", secret: true },
+  ],
+
+  async connectWithCredentials(fields: Record<string, string>): Promise<ProviderCredentialConnection> {
+    const site = fields.site.replace(/^https?:\/\//, "").replace(/\.chargebee\.com\/?$/, "");
+    if (!SITE_PATTERN.test(site)) {
+      throw new Error("Enter the Chargebee site name only, e.g. \"acme\" for acme.chargebee.com.");
+    }
+
+    // One request is enough to check the key
+    try {
+      await listPage(site, fields.apiKey, "subscriptions", { limit: "1" });
+    } catch (error: any) {
+      console.error("Chargebee credential check failed:", error?.message || error);
+      throw new Error("Chargebee rejected this API key. Check the site name and use a read-only key.");
+    }
+
+    return {
+      providerAccountId: site,
+      accessToken: fields.apiKey,
+      scope: "read_only",
+    };
+  },
+
+  async fetchMetrics(config: ProviderConnectionConfig): Promise<ProviderMetrics> {
+    const site = config.providerAccountId;
+
+    const subscriptions = await listAll<"subscription", ChargebeeSubscription>(
+      site, config.accessToken, "subscriptions", "subscription", { "status[in]": '["active","non_renewing"]' }
+    );
+
+    // Calculate MRR from active subscriptions
+    let mrr = 0;
+    const currency = subscriptions[0]?.currency_code || "EUR";
+
+    for (const subscription of subscriptions) {
+      mrr += subscriptionMonthlyAmount(subscription);
+    }
+
+    // Calculate revenue from paid invoices, netting refunds from credit notes
+    const invoices = await listAll<"invoice", ChargebeeInvoice>(
+      site, config.accessToken, "invoices", "invoice", { "status[is]": "paid" }
+    );
+    const creditNotes = await listAll<"credit_note", ChargebeeCreditNote>(
+      site, config.accessToken, "credit_notes", "credit_note"
+    );
+
+    const thirtyDaysAgo = Math.floor(Date.now() / 1000) - (30 * 24 * 60 * 60);
+    let totalRevenue = 0;
+    let last30dRevenue = 0;
+
+    for (const invoice of invoices) {
+      const amount = invoice.amount_paid / 100;
+      totalRevenue += amount;
+
+      if ((invoice.paid_at || invoice.date) >= thirtyDaysAgo) {
+        last30dRevenue += amount;
+      }
+    }
+
+    for (const creditNote of creditNotes) {
+      const amount = (creditNote.amount_refunded || 0) / 100;
+      totalRevenue -= amount;
+
+      if (creditNote.date >= thirtyDaysAgo) {
+        last30dRevenue -= amount;
+      }
+    }
+
+    return {
+      currency: currency.toUpperCase(),
+      mrr: Math.round(mrr / 100), // Convert from cents to currency units
+      totalRevenue: Math.round(totalRevenue),
+      last30dRevenue: Math.round(last30dRevenue),
+      raw: {
+        subscriptionCount: subscriptions.length,
+        invoiceCount: invoices.length,
+        creditNoteCount: creditNotes.length,
+      },
+    };
+  },
+};
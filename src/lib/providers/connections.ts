@@ -0,0 +1,107 @@
+/**
+ * Provider connection persistence
+ *
+ * Shared helper used by provider connect/callback routes to record a
+ * connection in provider_connections and its (encrypted) credentials in provider_tokens,
+ * and to mark connections revoked when the founder withdraws access.
+ *
+ * IMPORTANT: Only use this in API routes (uses the service role client)
+ */
+
+import { supabaseAdmin } from "../supabase/server";
+import type { ProviderName } from "./types";
+import { encryptTokens } from "./encryption";
+
+export interface SaveProviderConnectionInput {
+  startupId: string;
+  provider: ProviderName;
+  providerAccountId: string;
+  accessToken: string;
+  refreshToken?: string | null;
+  scope?: string | null;
+  expiresAt?: string | null;
+}
+
+/**
+ * Insert or update the (startup, provider) connection and store its tokens
+ *
+ * @returns The provider_connections row ID
+ * @throws Error if the connection or its tokens could not be saved
+ */
+export async function saveProviderConnection(input: SaveProviderConnectionInput): Promise<string> {
+  const now = new Date().toISOString();
+
+  const { data: connection, error: connError } = await supabaseAdmin
+    .from("provider_connections")
+    .upsert(
+      {
+        startup_id: input.startupId,
+        provider: input.provider,
+        provider_account_id: input.providerAccountId,
+        status: "connected",
+        connected_at: now,
+        // A reconnect starts over: failure streak cleared, next sync is a full one
+        consecutive_failures: 0,
+        last_sync_error: null,
+        sync_cursor: null,
+        last_full_sync_at: null,
+        updated_at: now,
+      },
+      {
+        onConflict: "startup_id,provider",
+      }
+    )
+    .select("id")
+    .single();
+
+  if (connError || !connection) {
+    throw new Error(`Failed to record provider connection: ${connError?.message || "no row returned"}`);
+  }
+
+  const { error: tokenError } = await supabaseAdmin
+    .from("provider_tokens")
+    .upsert(
+      {
+        provider_connection_id: connection.id,
+        ...encryptTokens(connection.id, { accessToken: input.accessToken, refreshToken: input.refreshToken }),
+        scope: input.scope || null,
+        expires_at: input.expiresAt || null,
+        updated_at: now,
+      },
+      {
+        onConflict: "provider_connection_id",
+      }
+    );
+
+  if (tokenError) {
+    throw new Error(`Failed to store provider tokens: ${tokenError.message}`);
+  }
+
+  return connection.id;
+}
+
+/**
+ * Mark a connection revoked and drop its credentials
+ * Revoked connections are no longer synced and the listing shows as unverified until
+ * the founder reconnects (which sets the connection back to "connected").
+ */
+export async function revokeProviderConnection(connectionId: string, reason: string): Promise<void> {
+  const now = new Date().toISOString();
+
+  const { error } = await supabaseAdmin
+    .from("provider_connections")
+    .update({
+      status: "revoked",
+      last_sync_error: reason,
+      sync_cursor: null,
+      updated_at: now,
+    })
+    .eq("id", connectionId);
+
+  if (error) {
+    throw new Error(`Failed to revoke provider connection: ${error.message}`);
+  }
+
+  // The tokens no longer work; don't keep them around
+  await supabaseAdmin.from("provider_tokens").delete().eq("provider_connection_id", connectionId);
+}
@@ -0,0 +1,159 @@
+/**
+ * Provider token encryption
+ *
+ * Envelope encryption for provider_tokens, so a database dump doesn't hand out access to
+ * founders' provider accounts:
+ * - Each row gets its own random data key; access_token and refresh_token are encrypted
+ *   with it (AES-256-GCM, bound to the connection ID and column)
+ * - The data key is stored encrypted ("wrapped") with an app-level master key from
+ *   TOKEN_ENCRYPTION_KEYS, together with that key's ID
+ * - Rotating the master key only re-wraps data keys (`npm run tokens:reencrypt`); the
+ *   token ciphertexts stay the same
+ *
+ * TOKEN_ENCRYPTION_KEYS is a comma-separated list of `<key id>:<base64 32-byte key>`.
+ * The first key encrypts; the others are only used to read rows not yet re-encrypted.
+ *
+ * Rows without a key_id are plaintext from before encryption and are read as-is until
+ * `npm run tokens:reencrypt` encrypts them.
+ *
+ * IMPORTANT: Only use this server-side (reads the master keys from the environment)
+ */
+
+import { createCipheriv, createDecipheriv, randomBytes } from "node:crypto";
+
+const ALGORITHM = "aes-256-gcm";
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+
+export interface ProviderTokens {
+  accessToken: string;
+  refreshToken?: string | null;
+}
+
+/**
+ * provider_tokens columns as stored
+ */
+export interface StoredProviderTokens {
+  access_token: string;
+  refresh_token: string | null;
+  key_id: string | null; // null = plaintext row from before encryption
+  data_key: string | null; // Wrapped data key
+}
+
+export type EncryptedProviderTokens = StoredProviderTokens & { key_id: string; data_key: string };
+
+let cachedKeys: { raw: string; keys: Map<string, Buffer>; currentKeyId: string } | null = null;
+
+function masterKeys(): { keys: Map<string, Buffer>; currentKeyId: string } {
+  const raw = process.env.TOKEN_ENCRYPTION_KEYS || "";
+  if (cachedKeys?.raw === raw) return cachedKeys;
+
+  const keys = new Map<string, Buffer>();
+  for (const entry of raw.split(",").map((part) => part.trim()).filter(Boolean)) {
+    const separator = entry.indexOf(":");
+    const id = entry.slice(0, separator).trim();
+    const key = Buffer.from(entry.slice(separator + 1).trim(), "base64");
+
+    if (separator <= 0 || key.length !== KEY_BYTES) {
+      throw new Error(`TOKEN_ENCRYPTION_KEYS entries must be "<key id>:<base64 ${KEY_BYTES}-byte key>"`);
+    }
+    keys.set(id, key);
+  }
+
+  if (keys.size === 0) {
+    throw new Error("TOKEN_ENCRYPTION_KEYS is not set; provider tokens can't be encrypted");
+  }
+
+  cachedKeys = { raw, keys, currentKeyId: Array.from(keys.keys())[0] };
+  return cachedKeys;
+}
+
+/**
+ * ID of the master key new rows are encrypted with
+ */
+export function currentKeyId(): string {
+  return masterKeys().currentKeyId;
+}
+
+function encrypt(key: Buffer, plaintext: Buffer, aad: string): string {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv(ALGORITHM, key, iv);
+  cipher.setAAD(Buffer.from(aad));
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return [iv, cipher.getAuthTag(), ciphertext].map((part) => part.toString("base64")).join(".");
+}
+
+function decrypt(key: Buffer, value: string, aad: string): Buffer {
+  const [iv, tag, ciphertext] = value.split(".").map((part) => Buffer.from(part, "base64"));
+  if (!iv || !tag || !ciphertext) throw new Error("Malformed encrypted provider token");
+
+  const decipher = createDecipheriv(ALGORITHM, key, iv);
+  decipher.setAAD(Buffer.from(aad));
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+}
+
+function unwrapDataKey(connectionId: string, row: StoredProviderTokens): Buffer {
+  const masterKey = masterKeys().keys.get(row.key_id!);
+  if (!masterKey) {
+    throw new Error(`Provider tokens for connection ${connectionId} use unknown key "${row.key_id}"`);
+  }
+  return decrypt(masterKey, row.data_key!, `${row.key_id}:${connectionId}`);
+}
+
+function wrapDataKey(connectionId: string, dataKey: Buffer): { key_id: string; data_key: string } {
+  const { keys, currentKeyId: keyId } = masterKeys();
+  return { key_id: keyId, data_key: encrypt(keys.get(keyId)!, dataKey, `${keyId}:${connectionId}`) };
+}
+
+/**
+ * Encrypt tokens with a new data key, for writing to provider_tokens
+ */
+export function encryptTokens(connectionId: string, tokens: ProviderTokens): EncryptedProviderTokens {
+  const dataKey = randomBytes(KEY_BYTES);
+  return {
+    access_token: encrypt(dataKey, Buffer.from(tokens.accessToken), `${connectionId}:access_token`),
+    refresh_token: tokens.refreshToken
+      ? encrypt(dataKey, Buffer.from(tokens.refreshToken), `${connectionId}:refresh_token`)
+      : null,
+    ...wrapDataKey(connectionId, dataKey),
+  };
+}
+
+/**
+ * Decrypt a provider_tokens row (plaintext rows from before encryption are returned as-is)
+ *
+ * @throws Error if the row's master key isn't configured or the row was tampered with
+ */
+export function decryptTokens(connectionId: string, row: StoredProviderTokens): ProviderTokens {
+  if (!row.key_id) {
+    return { accessToken: row.access_token, refreshToken: row.refresh_token };
+  }
+
+  const dataKey = unwrapDataKey(connectionId, row);
+  return {
+    accessToken: decrypt(dataKey, row.access_token, `${connectionId}:access_token`).toString("utf8"),
+    refreshToken: row.refresh_token
+      ? decrypt(dataKey, row.refresh_token, `${connectionId}:refresh_token`).toString("utf8")
+      : null,
+  };
+}
+
+/**
+ * Re-encrypt a row under the current master key
+ * Encrypted rows only get their data key re-wrapped; plaintext rows are encrypted.
+ *
+ * @returns null if the row already uses the current key
+ */
+export function reencryptTokens(connectionId: string, row: StoredProviderTokens): EncryptedProviderTokens | null {
+  if (!row.key_id) {
+    return encryptTokens(connectionId, { accessToken: row.access_token, refreshToken: row.refresh_token });
+  }
+  if (row.key_id === currentKeyId()) return null;
+
+  return {
+    access_token: row.access_token,
+    refresh_token: row.refresh_token,
+    ...wrapDataKey(connectionId, unwrapDataKey(connectionId, row)),
+  };
+}
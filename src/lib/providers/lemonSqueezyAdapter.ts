@@ -0,0 +1,203 @@
+/**
+ * Lemon Squeezy Payment Provider Adapter
+ *
+ * Implements PaymentProviderAdapter for Lemon Squeezy stores.
+ *
+ * This adapter:
+ * - Authenticates with a founder-supplied API key (no OAuth)
+ * - Calculates MRR from active subscriptions and the price of their subscription item
+ * - Calculates total revenue from paid orders, net of refunded amounts
+ * - Calculates last 30 days revenue
+ * - Buckets MRR and revenue per currency (raw.revenueByCurrency), like the Stripe adapter:
+ *   subscriptions bill in their store's currency, orders carry their own
+ *
+ * Lemon Squeezy uses JSON:API; amounts are integers in cents.
+ */
+
+import type {
+  PaymentProviderAdapter,
+  ProviderMetrics,
+  ProviderConnectionConfig,
+  ProviderCredentialConnection,
+} from "./types";
+import { toMonthly } from "../metrics/mrr";
+import { countProviderRequest } from "./requests";
+import { addToBucket, primaryCurrency, roundBuckets, type CurrencyBuckets } from "../metrics/revenue";
+
+const LEMON_SQUEEZY_API_BASE_URL = process.env.LEMON_SQUEEZY_API_BASE_URL || "https://api.lemonsqueezy.com/v1";
+
+// Subscription statuses that still bill (past_due is retrying payment)
+const ACTIVE_STATUSES = ["active", "past_due"];
+
+interface JsonApiResource<T> {
+  id: string;
+  type: string;
+  attributes: T;
+}
+
+interface JsonApiListResponse<T> {
+  data: Array<JsonApiResource<T>>;
+  links?: { next?: string | null };
+}
+
+interface LemonSqueezySubscription {
+  store_id: number;
+  status: string;
+  first_subscription_item: {
+    price_id: number;
+    quantity: number;
+  } | null;
+}
+
+interface LemonSqueezyPrice {
+  unit_price: number;
+  renewal_interval_unit: "day" | "week" | "month" | "year" | null;
+  renewal_interval_quantity: number | null;
+}
+
+interface LemonSqueezyOrder {
+  status: "pending" | "failed" | "paid" | "refunded" | "partial_refund";
+  currency: string;
+  total: number;
+  refunded_amount: number;
+  created_at: string;
+}
+
+interface LemonSqueezyStore {
+  name: string;
+  currency: string;
+}
+
+async function lemonSqueezyGet<T>(url: string, apiKey: string): Promise<T> {
+  countProviderRequest();
+  const response = await fetch(url.startsWith("http") ? url : `${LEMON_SQUEEZY_API_BASE_URL}${url}`, {
+    headers: {
+      Authorization: `Bearer ${apiKey}`,
+      Accept: "application/vnd.api+json",
+    },
+    cache: "no-store",
+  });
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(`Lemon Squeezy API error (${response.status}): ${body?.errors?.[0]?.detail || response.statusText}`);
+  }
+
+  return response.json();
+}
+
+/**
+ * Fetch every page of a Lemon Squeezy list endpoint
+ */
+async function listAll<T>(path: string, apiKey: string): Promise<Array<JsonApiResource<T>>> {
+  let results: Array<JsonApiResource<T>> = [];
+  let url: string | null = path;
+
+  while (url) {
+    const page: JsonApiListResponse<T> = await lemonSqueezyGet(url, apiKey);
+    results = results.concat(page.data);
+    url = page.links?.next || null;
+  }
+
+  return results;
+}
+
+/**
+ * Lemon Squeezy adapter implementation
+ */
+export const lemonSqueezyAdapter: PaymentProviderAdapter = {
+  name: "lemonsqueezy",
+  displayName: "Lemon Squeezy",
+  authKind: "credentials",
+  logoUrl: "/providers/lemonsqueezy.svg",
+  description: "Connect with an API key from Settings → API. Subscriptions and orders across your stores are read to compute MRR and revenue.",
+  credentialFields: [
+    { name: "apiKey", label: "API Key", placeholder: "eyJ0eXAiOiJKV1Qi...", secret: true },
+  ],
+
+  async connectWithCredentials(fields: Record<string, string>): Promise<ProviderCredentialConnection> {
+    let stores: Array<JsonApiResource<LemonSqueezyStore>>;
+    try {
+      stores = await listAll<LemonSqueezyStore>("/stores", fields.apiKey);
+    } catch {
+      throw new Error("Lemon Squeezy rejected this API key.");
+    }
+
+    if (stores.length === 0) {
+      throw new Error("This Lemon Squeezy account has no stores.");
+    }
+
+    return {
+      providerAccountId: stores.map((store) => store.id).join(","),
+      accessToken: fields.apiKey,
+    };
+  },
+
+  async fetchMetrics(config: ProviderConnectionConfig): Promise<ProviderMetrics> {
+    const subscriptions = await listAll<LemonSqueezySubscription>("/subscriptions?page[size]=100", config.accessToken);
+    const activeSubscriptions = subscriptions.filter((s) => ACTIVE_STATUSES.includes(s.attributes.status));
+
+    // Subscription prices are in their store's currency
+    const stores = await listAll<LemonSqueezyStore>("/stores", config.accessToken);
+    const storeCurrencies = new Map(stores.map((store) => [Number(store.id), store.attributes.currency]));
+
+    // Prices are fetched once per price ID
+    const prices = new Map<number, LemonSqueezyPrice>();
+    const buckets: CurrencyBuckets = {};
+
+    for (const subscription of activeSubscriptions) {
+      const item = subscription.attributes.first_subscription_item;
+      if (!item) continue;
+
+      let price = prices.get(item.price_id);
+      if (!price) {
+        const body = await lemonSqueezyGet<{ data: JsonApiResource<LemonSqueezyPrice> }>(
+          `/prices/${item.price_id}`,
+          config.accessToken
+        );
+        price = body.data.attributes;
+        prices.set(item.price_id, price);
+      }
+
+      if (!price.renewal_interval_unit) continue;
+
+      const currency = storeCurrencies.get(subscription.attributes.store_id);
+      if (!currency) continue;
+
+      const amount = price.unit_price * (item.quantity || 1);
+      addToBucket(buckets, currency, "mrr", toMonthly(amount, price.renewal_interval_unit, price.renewal_interval_quantity || 1));
+    }
+
+    // Calculate revenue from paid orders, netting refunds
+    const orders = await listAll<LemonSqueezyOrder>("/orders?page[size]=100", config.accessToken);
+    const thirtyDaysAgo = Date.now() - (30 * 24 * 60 * 60 * 1000);
+
+    for (const { attributes: order } of orders) {
+      if (!["paid", "refunded", "partial_refund"].includes(order.status)) continue;
+
+      const amount = order.total - (order.refunded_amount || 0);
+      addToBucket(buckets, order.currency, "totalRevenue", amount);
+
+      if (new Date(order.created_at).getTime() >= thirtyDaysAgo) {
+        addToBucket(buckets, order.currency, "last30dRevenue", amount);
+      }
+    }
+
+    // Report the primary currency, keep the split in raw (cents to currency units)
+    const revenueByCurrency = roundBuckets(buckets, 100);
+    const currency = primaryCurrency(revenueByCurrency, "USD");
+    const primary = revenueByCurrency[currency] || { mrr: 0, totalRevenue: 0, last30dRevenue: 0 };
+
+    return {
+      currency,
+      mrr: primary.mrr,
+      totalRevenue: primary.totalRevenue,
+      last30dRevenue: primary.last30dRevenue,
+      raw: {
+        subscriptionCount: activeSubscriptions.length,
+        orderCount: orders.length,
+        revenueByCurrency,
+      },
+    };
+  },
+};
@@ -0,0 +1,194 @@
+/**
+ * Mollie Payment Provider Adapter
+ *
+ * Implements PaymentProviderAdapter for Mollie accounts connected via Mollie Connect (OAuth).
+ *
+ * This adapter:
+ * - Calculates MRR from active subscriptions
+ * - Calculates total revenue from paid payments, net of refunded amounts
+ * - Calculates last 30 days revenue
+ * - Buckets MRR and revenue per currency (raw.revenueByCurrency), like the Stripe adapter
+ * - Refreshes the one-hour OAuth access token with the stored refresh token
+ *
+ * Mollie amounts are decimal strings in currency units (e.g. "10.00").
+ */
+
+import type {
+  PaymentProviderAdapter,
+  ProviderMetrics,
+  ProviderConnectionConfig,
+  RefreshedTokens,
+} from "./types";
+import { countProviderRequest } from "./requests";
+import { addToBucket, primaryCurrency, roundBuckets, type CurrencyBuckets } from "../metrics/revenue";
+
+const MOLLIE_API_BASE_URL = "https://api.mollie.com/v2";
+const MOLLIE_TOKEN_URL = "https://api.mollie.com/oauth2/tokens";
+
+interface MollieAmount {
+  value: string;
+  currency: string;
+}
+
+interface MollieListResponse {
+  count: number;
+  _embedded: Record<string, any[]>;
+  _links: {
+    next: { href: string } | null;
+  };
+}
+
+interface MollieSubscription {
+  id: string;
+  status: string;
+  amount: MollieAmount;
+  interval: string; // e.g. "1 month", "3 months", "14 days"
+}
+
+interface MolliePayment {
+  id: string;
+  status: string;
+  amount: MollieAmount;
+  amountRefunded?: MollieAmount;
+  paidAt?: string;
+  createdAt: string;
+}
+
+/**
+ * Fetch every page of a Mollie list endpoint
+ * Results live under _embedded[resource], pages are linked via _links.next
+ */
+async function listAll<T>(resource: string, accessToken: string): Promise<T[]> {
+  let results: T[] = [];
+  let url: string | null = `${MOLLIE_API_BASE_URL}/${resource}?limit=250`;
+
+  while (url) {
+    countProviderRequest();
+    const response: Response = await fetch(url, {
+      headers: { Authorization: `Bearer ${accessToken}` },
+      cache: "no-store",
+    });
+
+    if (!response.ok) {
+      const body = await response.json().catch(() => null);
+      throw new Error(`Mollie API error (${response.status}): ${body?.detail || response.statusText}`);
+    }
+
+    const page: MollieListResponse = await response.json();
+    results = results.concat((page._embedded?.[resource] || []) as T[]);
+    url = page._links.next?.href || null;
+  }
+
+  return results;
+}
+
+/**
+ * Convert a Mollie interval string to a monthly multiplier
+ * Mollie only allows days, weeks and months (a yearly plan is "12 months");
+ * a missing count means 1, a missing or unknown unit gives 0 (not counted in MRR)
+ */
+function monthlyFactor(interval: string | null | undefined): number {
+  const parts = (interval || "").trim().toLowerCase().split(/\s+/);
+  const [countStr, unit = ""] = /^\d/.test(parts[0]) ? parts : ["1", ...parts];
+  const count = Number(countStr) || 1;
+
+  if (unit.startsWith("month")) return 1 / count;
+  if (unit.startsWith("week")) return 4.33 / count; // Average weeks per month
+  if (unit.startsWith("day")) return 30 / count;
+
+  console.error(`Unknown Mollie subscription interval: "${interval}"`);
+  return 0;
+}
+
+/**
+ * Mollie adapter implementation
+ */
+export const mollieAdapter: PaymentProviderAdapter = {
+  name: "mollie",
+  displayName: "Mollie",
+  authKind: "oauth",
+  logoUrl: "/providers/mollie.svg",
+  description: "Connect your Mollie organization to sync MRR from subscriptions and revenue from paid payments, net of refunds.",
+
+  async refreshAccessToken(config: ProviderConnectionConfig): Promise<RefreshedTokens> {
+    const clientId = process.env.MOLLIE_CLIENT_ID;
+    const clientSecret = process.env.MOLLIE_CLIENT_SECRET;
+    if (!clientId || !clientSecret || !config.refreshToken) {
+      throw new Error("Mollie token refresh needs MOLLIE_CLIENT_ID, MOLLIE_CLIENT_SECRET and a refresh token");
+    }
+
+    countProviderRequest();
+    const response = await fetch(MOLLIE_TOKEN_URL, {
+      method: "POST",
+      headers: {
+        Authorization: `Basic ${Buffer.from(`${clientId}:${clientSecret}`).toString("base64")}`,
+        "Content-Type": "application/x-www-form-urlencoded",
+      },
+      body: new URLSearchParams({
+        grant_type: "refresh_token",
+        refresh_token: config.refreshToken,
+      }),
+      cache: "no-store",
+    });
+
+    const body = await response.json().catch(() => null);
+    if (!response.ok || !body?.access_token) {
+      throw new Error(`Mollie token refresh failed (${response.status}): ${body?.error_description || body?.error || response.statusText}`);
+    }
+
+    return {
+      accessToken: body.access_token,
+      refreshToken: body.refresh_token, // Only present if Mollie rotated it
+      expiresAt: body.expires_in ? new Date(Date.now() + body.expires_in * 1000).toISOString() : null,
+    };
+  },
+
+  async fetchMetrics(config: ProviderConnectionConfig): Promise<ProviderMetrics> {
+    const subscriptions = await listAll<MollieSubscription>("subscriptions", config.accessToken);
+    const activeSubscriptions = subscriptions.filter((s) => s.status === "active");
+
+    // Calculate MRR from active subscriptions, per currency
+    const buckets: CurrencyBuckets = {};
+
+    for (const subscription of activeSubscriptions) {
+      const monthly = Number(subscription.amount.value) * monthlyFactor(subscription.interval);
+      addToBucket(buckets, subscription.amount.currency, "mrr", monthly);
+    }
+
+    // Calculate revenue from paid payments, netting any refunds
+    const payments = await listAll<MolliePayment>("payments", config.accessToken);
+    const thirtyDaysAgo = Date.now() - (30 * 24 * 60 * 60 * 1000);
+    let paidCount = 0;
+
+    for (const payment of payments) {
+      if (payment.status !== "paid") continue;
+      paidCount++;
+
+      // Refunds are in the payment's currency
+      const amount = Number(payment.amount.value) - Number(payment.amountRefunded?.value || 0);
+      addToBucket(buckets, payment.amount.currency, "totalRevenue", amount);
+
+      const paidAt = new Date(payment.paidAt || payment.createdAt).getTime();
+      if (paidAt >= thirtyDaysAgo) {
+        addToBucket(buckets, payment.amount.currency, "last30dRevenue", amount);
+      }
+    }
+
+    // Report the primary currency, keep the split in raw
+    const revenueByCurrency = roundBuckets(buckets);
+    const currency = primaryCurrency(revenueByCurrency);
+    const primary = revenueByCurrency[currency] || { mrr: 0, totalRevenue: 0, last30dRevenue: 0 };
+
+    return {
+      currency,
+      mrr: primary.mrr,
+      totalRevenue: primary.totalRevenue,
+      last30dRevenue: primary.last30dRevenue,
+      raw: {
+        subscriptionCount: activeSubscriptions.length,
+        paymentCount: paidCount,
+        revenueByCurrency,
+      },
+    };
+  },
+};
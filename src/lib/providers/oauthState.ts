@@ -0,0 +1,225 @@
+/**
+ * OAuth state and listing ownership for provider connect flows
+ *
+ * The oauth_session cookie identifies the browser that created a listing: /api/startups/create
+ * records it in startup_owner_sessions, and only that browser may connect the listing's
+ * providers (isStartupOwner()). Otherwise anyone knowing a startup ID could connect their own
+ * account and replace the founder's connection. A founder without that browser (or a listing
+ * created before ownership was recorded) gets an admin-issued claim link instead
+ * (issueOwnerClaim(), redeemOwnerClaim()), which adds the browser that opens it as an owner.
+ *
+ * The `state` sent to the provider is a signed, expiring, single-use nonce:
+ * - It names the startup being connected and is signed (HMAC-SHA256, OAUTH_STATE_SECRET)
+ *   together with the provider and the browser's oauth_session cookie, so a state can't be
+ *   pointed at another startup or completed from another browser
+ * - The nonce is stored in oauth_states and deleted when the callback uses it, so a state
+ *   (and the callback URL carrying it) only works once, within OAUTH_STATE_TTL_MS
+ *
+ * Connect routes must check isStartupOwner() before issuing a state or saving credentials;
+ * callbacks must call consumeOAuthState() before exchanging the code or writing anything.
+ *
+ * IMPORTANT: Only use this server-side (uses the service role client and the state secret)
+ */
+
+import { createHash, createHmac, randomBytes, timingSafeEqual } from "node:crypto";
+import type { NextRequest, NextResponse } from "next/server";
+import { supabaseAdmin } from "../supabase/server";
+import type { ProviderName } from "./types";
+
+export const OAUTH_SESSION_COOKIE = "oauth_session";
+
+// Shown when isStartupOwner() refuses a connection
+export const NOT_STARTUP_OWNER_MESSAGE =
+  "Only the browser this startup was listed from can connect its payment provider. " +
+  "Listed it from another browser? Contact us for an ownership link.";
+
+const OAUTH_STATE_TTL_MS = 10 * 60 * 1000;
+const OWNER_CLAIM_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+// Long enough to come back and reconnect a listing (e.g. after a revocation)
+const OAUTH_SESSION_MAX_AGE_SECONDS = 180 * 24 * 60 * 60;
+
+interface OAuthStatePayload {
+  n: string; // Nonce
+  s: string; // Startup ID
+  e: number; // Expiry (ms since epoch)
+}
+
+function stateSecret(): string {
+  const secret = process.env.OAUTH_STATE_SECRET;
+  if (!secret) throw new Error("OAUTH_STATE_SECRET is not set");
+  return secret;
+}
+
+function sign(provider: ProviderName, payload: string, sessionId: string): Buffer {
+  return createHmac("sha256", stateSecret()).update(`${provider}.${payload}.${sessionId}`).digest();
+}
+
+/**
+ * The browser's OAuth session ID, or a new one if it has none yet
+ * Pass it to setOAuthSessionCookie() on the response (the listing's create response).
+ */
+export function getOAuthSessionId(req: NextRequest): string {
+  return req.cookies.get(OAUTH_SESSION_COOKIE)?.value || randomBytes(24).toString("base64url");
+}
+
+export function setOAuthSessionCookie(response: NextResponse, sessionId: string): void {
+  response.cookies.set(OAUTH_SESSION_COOKIE, sessionId, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "lax", // Sent on the provider's top-level redirect back to the callback
+    path: "/api", // Read by /api/startups/create and the /api/providers routes
+    maxAge: OAUTH_SESSION_MAX_AGE_SECONDS,
+  });
+}
+
+function hashSessionId(sessionId: string): string {
+  return createHash("sha256").update(sessionId).digest("hex");
+}
+
+/**
+ * Record the browser that created a listing as its owner
+ */
+export async function recordStartupOwner(startupId: string, sessionId: string): Promise<void> {
+  // Already recorded when a claim link is opened in an owner's browser
+  const { error } = await supabaseAdmin.from("startup_owner_sessions").upsert(
+    { startup_id: startupId, session_hash: hashSessionId(sessionId) },
+    { onConflict: "startup_id,session_hash", ignoreDuplicates: true }
+  );
+  if (error) throw new Error(`Failed to record startup owner: ${error.message}`);
+}
+
+/**
+ * Create a single-use link token that makes whoever opens it an owner of the listing
+ * Only issue it to someone whose ownership was checked out of band.
+ */
+export async function issueOwnerClaim(startupId: string): Promise<{ token: string; expiresAt: string }> {
+  const token = randomBytes(24).toString("base64url");
+  const expiresAt = new Date(Date.now() + OWNER_CLAIM_TTL_MS).toISOString();
+
+  // Unused links
+  await supabaseAdmin.from("startup_owner_claims").delete().lt("expires_at", new Date().toISOString());
+
+  const { error } = await supabaseAdmin.from("startup_owner_claims").insert({
+    token_hash: hashSessionId(token),
+    startup_id: startupId,
+    expires_at: expiresAt,
+  });
+  if (error) throw new Error(`Failed to store owner claim: ${error.message}`);
+
+  return { token, expiresAt };
+}
+
+/**
+ * Use up a claim token and record this browser as an owner
+ *
+ * @returns The claimed startup ID, or null if the token is unknown, expired or already used
+ */
+export async function redeemOwnerClaim(token: string, sessionId: string): Promise<string | null> {
+  // Deleting the row is what makes the link single-use
+  const { data, error } = await supabaseAdmin
+    .from("startup_owner_claims")
+    .delete()
+    .eq("token_hash", hashSessionId(token))
+    .gt("expires_at", new Date().toISOString())
+    .select("startup_id");
+
+  if (error) throw new Error(`Failed to redeem owner claim: ${error.message}`);
+  if (!data?.length) return null;
+
+  await recordStartupOwner(data[0].startup_id, sessionId);
+  return data[0].startup_id;
+}
+
+/**
+ * Whether this browser created the listing, and so may connect (or replace) its providers
+ */
+export async function isStartupOwner(startupId: string, sessionId: string | undefined): Promise<boolean> {
+  if (!sessionId) return false;
+
+  const { data, error } = await supabaseAdmin
+    .from("startup_owner_sessions")
+    .select("startup_id")
+    .eq("startup_id", startupId)
+    .eq("session_hash", hashSessionId(sessionId))
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to check startup owner: ${error.message}`);
+  return !!data;
+}
+
+/**
+ * Create the `state` for connecting `startupId` to `provider` from this session
+ */
+export async function issueOAuthState(provider: ProviderName, startupId: string, sessionId: string): Promise<string> {
+  const nonce = randomBytes(24).toString("base64url");
+  const expiresAt = Date.now() + OAUTH_STATE_TTL_MS;
+
+  // Unused states from abandoned flows
+  await supabaseAdmin.from("oauth_states").delete().lt("expires_at", new Date().toISOString());
+
+  const { error } = await supabaseAdmin.from("oauth_states").insert({
+    nonce,
+    provider,
+    startup_id: startupId,
+    expires_at: new Date(expiresAt).toISOString(),
+  });
+  if (error) throw new Error(`Failed to store OAuth state: ${error.message}`);
+
+  const payload: OAuthStatePayload = { n: nonce, s: startupId, e: expiresAt };
+  const encoded = Buffer.from(JSON.stringify(payload)).toString("base64url");
+  return `${encoded}.${sign(provider, encoded, sessionId).toString("base64url")}`;
+}
+
+/**
+ * Verify a callback's `state` and use it up
+ *
+ * @returns The startup ID the flow was started for, or null if the state is forged,
+ *   expired, from another session or already used
+ */
+export async function consumeOAuthState(
+  provider: ProviderName,
+  state: string,
+  sessionId: string | undefined
+): Promise<string | null> {
+  const [encoded, signature] = state.split(".");
+  if (!encoded || !signature || !sessionId) {
+    console.error(`Rejected ${provider} OAuth state: malformed or no session cookie`);
+    return null;
+  }
+
+  const expected = sign(provider, encoded, sessionId);
+  const actual = Buffer.from(signature, "base64url");
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    console.error(`Rejected ${provider} OAuth state: bad signature or different session`);
+    return null;
+  }
+
+  let payload: OAuthStatePayload;
+  try {
+    payload = JSON.parse(Buffer.from(encoded, "base64url").toString("utf8"));
+  } catch {
+    return null;
+  }
+
+  if (!payload.n || !payload.s || !(payload.e > Date.now())) {
+    console.error(`Rejected ${provider} OAuth state: expired`);
+    return null;
+  }
+
+  // Deleting the nonce is what makes the state single-use
+  const { data, error } = await supabaseAdmin
+    .from("oauth_states")
+    .delete()
+    .eq("nonce", payload.n)
+    .eq("provider", provider)
+    .eq("startup_id", payload.s)
+    .select("nonce");
+
+  if (error) throw new Error(`Failed to consume OAuth state: ${error.message}`);
+  if (!data?.length) {
+    console.error(`Rejected ${provider} OAuth state: already used`);
+    return null;
+  }
+
+  return payload.s;
+}
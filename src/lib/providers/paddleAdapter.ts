@@ -0,0 +1,206 @@
+/**
+ * Paddle Billing Payment Provider Adapter
+ *
+ * Implements PaymentProviderAdapter for Paddle Billing accounts.
+ *
+ * This adapter:
+ * - Authenticates with a seller-issued API key (no OAuth in Paddle Billing)
+ * - Calculates MRR from active subscriptions
+ * - Calculates total revenue from completed transactions (net of adjustments)
+ * - Calculates last 30 days revenue
+ *
+ * Paddle amounts are strings in the lowest currency denomination (e.g. cents).
+ */
+
+import type {
+  PaymentProviderAdapter,
+  ProviderMetrics,
+  ProviderConnectionConfig,
+  ProviderCredentialConnection,
+} from "./types";
+import { countProviderRequest } from "./requests";
+
+const PADDLE_API_BASE_URL = process.env.PADDLE_API_BASE_URL || "https://api.paddle.com";
+
+interface PaddleListResponse<T> {
+  data: T[];
+  meta: {
+    pagination?: {
+      next: string;
+      has_more: boolean;
+    };
+  };
+}
+
+interface PaddleSubscription {
+  id: string;
+  status: string;
+  currency_code: string;
+  items: Array<{
+    status: string;
+    quantity: number;
+    price: {
+      billing_cycle: { interval: "day" | "week" | "month" | "year"; frequency: number } | null;
+      unit_price: { amount: string; currency_code: string };
+    };
+  }>;
+}
+
+interface PaddleTotals {
+  grand_total: string;
+}
+
+interface PaddleTransaction {
+  id: string;
+  status: string;
+  currency_code: string;
+  billed_at: string | null;
+  created_at: string;
+  details: {
+    totals: PaddleTotals;
+    adjusted_totals?: PaddleTotals;
+  };
+}
+
+/**
+ * Fetch every page of a Paddle list endpoint
+ * Paddle uses cursor pagination with a fully-formed `next` URL
+ */
+async function listAll<T>(path: string, apiKey: string): Promise<T[]> {
+  let results: T[] = [];
+  let url: string | null = `${PADDLE_API_BASE_URL}${path}`;
+
+  while (url) {
+    countProviderRequest();
+    const response: Response = await fetch(url, {
+      headers: {
+        Authorization: `Bearer ${apiKey}`,
+        "Content-Type": "application/json",
+      },
+      cache: "no-store",
+    });
+
+    if (!response.ok) {
+      const body = await response.json().catch(() => null);
+      throw new Error(`Paddle API error (${response.status}): ${body?.error?.detail || response.statusText}`);
+    }
+
+    const page: PaddleListResponse<T> = await response.json();
+    results = results.concat(page.data);
+    url = page.meta.pagination?.has_more ? page.meta.pagination.next : null;
+  }
+
+  return results;
+}
+
+/**
+ * Check that an API key can read subscriptions and transactions
+ */
+async function verifyPaddleApiKey(apiKey: string): Promise<boolean> {
+  for (const path of ["/subscriptions?per_page=1", "/transactions?per_page=1"]) {
+    const response = await fetch(`${PADDLE_API_BASE_URL}${path}`, {
+      headers: { Authorization: `Bearer ${apiKey}` },
+      cache: "no-store",
+    });
+    if (!response.ok) return false;
+  }
+  return true;
+}
+
+/**
+ * Paddle adapter implementation
+ */
+export const paddleAdapter: PaymentProviderAdapter = {
+  name: "paddle",
+  displayName: "Paddle",
+  authKind: "credentials",
+  logoUrl: "/providers/paddle.svg",
+  description: "Paddle Billing uses API keys instead of OAuth. Create a key with read access to subscriptions and transactions under Developer Tools → Authentication.",
+  credentialFields: [
+    { name: "sellerId", label: "Seller ID", placeholder: "12345" },
+    { name: "apiKey", label: "API Key", placeholder: "pdl_live_apikey_...", secret: true },
+  ],
+
+  async connectWithCredentials(fields: Record<string, string>): Promise<ProviderCredentialConnection> {
+    const isValid = await verifyPaddleApiKey(fields.apiKey);
+    if (!isValid) {
+      throw new Error("Paddle rejected this API key. It needs read access to subscriptions and transactions.");
+    }
+
+    return {
+      providerAccountId: fields.sellerId,
+      accessToken: fields.apiKey,
+      scope: "subscription.read transaction.read",
+    };
+  },
+
+  async fetchMetrics(config: ProviderConnectionConfig): Promise<ProviderMetrics> {
+    const subscriptions = await listAll<PaddleSubscription>(
+      "/subscriptions?status=active&per_page=200",
+      config.accessToken
+    );
+
+    // Calculate MRR from active subscriptions
+    let mrr = 0;
+    const currency = subscriptions[0]?.currency_code || "EUR";
+
+    for (const subscription of subscriptions) {
+      for (const item of subscription.items) {
+        const cycle = item.price.billing_cycle;
+        if (!cycle || item.status !== "active") continue; // One-time items carry no billing cycle
+
+        const amount = Number(item.price.unit_price.amount) * (item.quantity || 1);
+        const frequency = cycle.frequency || 1;
+
+        // Normalize to monthly
+        let monthlyAmount = 0;
+        if (cycle.interval === "month") {
+          monthlyAmount = amount / frequency;
+        } else if (cycle.interval === "year") {
+          monthlyAmount = (amount / frequency) / 12;
+        } else if (cycle.interval === "week") {
+          monthlyAmount = (amount / frequency) * 4.33; // Average weeks per month
+        } else if (cycle.interval === "day") {
+          monthlyAmount = (amount / frequency) * 30;
+        }
+
+        mrr += monthlyAmount;
+      }
+    }
+
+    // Calculate revenue from completed transactions
+    // adjusted_totals reflects refunds and credits applied after billing
+    const transactions = await listAll<PaddleTransaction>(
+      "/transactions?status=completed&per_page=200",
+      config.accessToken
+    );
+
+    const thirtyDaysAgo = Date.now() - (30 * 24 * 60 * 60 * 1000);
+    let totalRevenue = 0;
+    let last30dRevenue = 0;
+
+    for (const transaction of transactions) {
+      const totals = transaction.details.adjusted_totals || transaction.details.totals;
+      const amount = Number(totals.grand_total) / 100;
+      if (!amount) continue;
+
+      totalRevenue += amount;
+
+      const billedAt = new Date(transaction.billed_at || transaction.created_at).getTime();
+      if (billedAt >= thirtyDaysAgo) {
+        last30dRevenue += amount;
+      }
+    }
+
+    return {
+      currency: currency.toUpperCase(),
+      mrr: Math.round(mrr / 100), // Convert from lowest denomination to currency units
+      totalRevenue: Math.round(totalRevenue),
+      last30dRevenue: Math.round(last30dRevenue),
+      raw: {
+        subscriptionCount: subscriptions.length,
+        transactionCount: transactions.length,
+      },
+    };
+  },
+};
@@ -0,0 +1,175 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { fixture, startStandIn, type StandIn } from "./__fixtures__/standIn";
+import type { PaymentProviderAdapter, ProviderConnectionConfig } from "./types";
+
+const NOW = new Date("2024-06-15T12:00:00Z");
+
+const CREDENTIALS = { clientId: "fixture-client-id", clientSecret: "fixture-client-secret" };
+
+const config: ProviderConnectionConfig = {
+  providerConnectionId: "00000000-0000-0000-0000-000000000001",
+  providerAccountId: CREDENTIALS.clientId,
+  accessToken: JSON.stringify(CREDENTIALS),
+};
+
+let standIn: StandIn;
+let paypalAdapter: PaymentProviderAdapter;
+
+beforeAll(async () => {
+  const transactions = JSON.parse(fixture("paypal/transactions.json"));
+  const validAuth = `Basic ${Buffer.from(`${CREDENTIALS.clientId}:${CREDENTIALS.clientSecret}`).toString("base64")}`;
+
+  standIn = await startStandIn((request) => {
+    if (request.method === "POST" && request.path === "/v1/oauth2/token") {
+      if (request.headers.authorization !== validAuth) {
+        return {
+          status: 401,
+          contentType: "application/json",
+          body: JSON.stringify({ error: "invalid_client", error_description: "Client Authentication failed" }),
+        };
+      }
+      return { contentType: "application/json", body: fixture("paypal/token.json") };
+    }
+
+    // Like the real API, only return the requested window
+    if (request.method === "GET" && request.path === "/v1/reporting/transactions") {
+      const start = Date.parse(request.query.get("start_date")!);
+      const end = Date.parse(request.query.get("end_date")!);
+      const details = transactions.transaction_details.filter((transaction: any) => {
+        const at = Date.parse(transaction.transaction_info.transaction_initiation_date);
+        return at >= start && at < end;
+      });
+      return {
+        contentType: "application/json",
+        body: JSON.stringify({ ...transactions, transaction_details: details, total_items: details.length }),
+      };
+    }
+
+    return null;
+  });
+
+  // The base URL is read when the adapter module loads
+  process.env.PAYPAL_API_BASE_URL = standIn.url;
+  ({ paypalAdapter } = await import("./paypalAdapter"));
+});
+
+afterAll(async () => {
+  delete process.env.PAYPAL_API_BASE_URL;
+  await standIn.close();
+});
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ["Date"] });
+  vi.setSystemTime(NOW);
+  standIn.requests.length = 0;
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe("paypalAdapter.fetchMetrics", () => {
+  it("counts received subscription payments per currency, net of their refunds", async () => {
+    const metrics = await paypalAdapter.fetchMetrics(config);
+
+    expect(metrics.raw?.revenueByCurrency).toEqual({
+      // 2 x 15 (lapsed) + 3 x 20 - 5 refunded
+      EUR: { mrr: 20, totalRevenue: 85, last30dRevenue: 15 },
+      // Yearly: 120 / 12
+      USD: { mrr: 10, totalRevenue: 240, last30dRevenue: 0 },
+    });
+    expect(metrics).toMatchObject({ currency: "EUR", mrr: 20, totalRevenue: 85, last30dRevenue: 15 });
+    expect(metrics.raw?.subscriptionCount).toBe(2);
+  });
+
+  it("only calls the token and transaction search endpoints", async () => {
+    await paypalAdapter.fetchMetrics(config);
+
+    const paths = new Set(standIn.requests.map((request) => request.path));
+    expect(Array.from(paths).sort()).toEqual(["/v1/oauth2/token", "/v1/reporting/transactions"]);
+  });
+
+  it("reads three years of history in windows of at most 31 days", async () => {
+    await paypalAdapter.fetchMetrics(config);
+
+    const windows = standIn.requests.filter((request) => request.path === "/v1/reporting/transactions");
+    for (const { query } of windows) {
+      const days = (Date.parse(query.get("end_date")!) - Date.parse(query.get("start_date")!)) / 86_400_000;
+      expect(days).toBeLessThanOrEqual(31);
+    }
+    expect(windows[0].query.get("start_date")).toBe("2021-06-16T12:00:00.000Z");
+    expect(windows[windows.length - 1].query.get("end_date")).toBe(NOW.toISOString());
+  });
+
+  it("returns a cursor with the totals and each subscription's last two payments", async () => {
+    const metrics = await paypalAdapter.fetchMetrics(config);
+
+    expect(metrics.raw).toMatchObject({ syncMode: "full" });
+    expect(metrics.syncCursor).toMatchObject({
+      syncedAt: NOW.toISOString(),
+      totalRevenue: { EUR: 85, USD: 240 },
+    });
+    expect(Object.keys(metrics.syncCursor!.subscriptions as object).sort()).toEqual([
+      "I-LAPSED0EUR01",
+      "I-MONTHLY0EUR1",
+      "I-YEARLY0USD01",
+    ]);
+  });
+
+  it("only reads the trailing 30 days when incremental, and matches the full sync", async () => {
+    const full = await paypalAdapter.fetchMetrics(config);
+    standIn.requests.length = 0;
+
+    // As of June 2, before the refund of the June 1 payment
+    const metrics = await paypalAdapter.fetchMetrics({
+      ...config,
+      syncMode: "incremental",
+      syncCursor: {
+        ...full.syncCursor,
+        syncedAt: "2024-06-02T00:00:00.000Z",
+        totalRevenue: { EUR: 90, USD: 240 },
+      },
+    });
+
+    const windows = standIn.requests.filter((request) => request.path === "/v1/reporting/transactions");
+    expect(windows.map(({ query }) => [query.get("start_date"), query.get("end_date")])).toEqual([
+      ["2024-05-16T12:00:00.000Z", NOW.toISOString()],
+    ]);
+    expect(metrics.raw).toMatchObject({ syncMode: "incremental", revenueByCurrency: full.raw?.revenueByCurrency });
+    expect(metrics.syncCursor).toEqual(full.syncCursor);
+  });
+
+  it("does a full sync when the cursor is malformed", async () => {
+    const metrics = await paypalAdapter.fetchMetrics({
+      ...config,
+      syncMode: "incremental",
+      syncCursor: { syncedAt: "2024-06-02T00:00:00.000Z", totalRevenue: 90 },
+    });
+
+    expect(metrics.raw).toMatchObject({ syncMode: "full" });
+    expect(metrics.totalRevenue).toBe(85);
+  });
+
+  it("asks to reconnect when the stored credentials can't be read", async () => {
+    await expect(paypalAdapter.fetchMetrics({ ...config, accessToken: "not-json" })).rejects.toThrow(
+      "Reconnect PayPal"
+    );
+    expect(standIn.requests).toEqual([]);
+  });
+});
+
+describe("paypalAdapter.connectWithCredentials", () => {
+  it("stores the credentials once PayPal issues a token", async () => {
+    await expect(paypalAdapter.connectWithCredentials!(CREDENTIALS)).resolves.toEqual({
+      providerAccountId: CREDENTIALS.clientId,
+      accessToken: JSON.stringify(CREDENTIALS),
+    });
+  });
+
+  it("rejects credentials PayPal doesn't accept", async () => {
+    await expect(
+      paypalAdapter.connectWithCredentials!({ ...CREDENTIALS, clientSecret: "wrong" })
+    ).rejects.toThrow("PayPal rejected these credentials");
+  });
+});
@@ -0,0 +1,358 @@
+/**
+ * PayPal Payment Provider Adapter
+ *
+ * Implements PaymentProviderAdapter for PayPal REST apps using OAuth client credentials.
+ *
+ * This adapter:
+ * - Exchanges the founder's client ID and secret for a short-lived access token per sync
+ * - Reads payments and refunds from the Transaction Search (reporting) API
+ * - Counts received subscription payments (T0002) only, net of their refunds and reversals;
+ *   other T00xx codes include money the merchant sent
+ * - Buckets MRR and revenue per currency (raw.revenueByCurrency), like the Stripe adapter
+ * - Calculates MRR from each subscription's payment history, without extra API calls
+ * - Calculates total revenue (limited to PayPal's 3-year reporting history) and last 30 days revenue
+ * - Syncs incrementally from a cursor (per-currency totals and each subscription's last two
+ *   payments), reading only the windows since the last sync and the trailing 30 days
+ *
+ * PayPal has no "list subscriptions" endpoint, so subscriptions are discovered from their
+ * payments (paypal_reference_id_type "SUB"). A subscription's billing period is the gap
+ * between its last two payments (monthly with a single payment); it counts towards MRR
+ * while its last payment is less than one period (plus SUBSCRIPTION_GRACE_DAYS) old.
+ *
+ * An incremental sync only sees refunds of payments it read, so a refund of a payment older
+ * than the trailing 30 days is left to the next full reconciliation.
+ *
+ * Credentials are stored in provider_tokens.access_token as JSON:
+ * { "clientId": "...", "clientSecret": "..." } with the client ID as provider_account_id.
+ *
+ * PAYPAL_API_BASE_URL overrides the API host (sandbox, or a recorded-fixture HTTP stand-in).
+ */
+
+import type {
+  PaymentProviderAdapter,
+  ProviderMetrics,
+  ProviderConnectionConfig,
+  ProviderCredentialConnection,
+} from "./types";
+import { countProviderRequest } from "./requests";
+import { toMonthly, type BillingInterval } from "../metrics/mrr";
+import { addToBucket, primaryCurrency, roundBuckets, type CurrencyBuckets } from "../metrics/revenue";
+
+const PAYPAL_API_BASE_URL = process.env.PAYPAL_API_BASE_URL || "https://api-m.paypal.com";
+
+// Transaction Search only serves 3 years of history, in windows of at most 31 days
+const HISTORY_DAYS = 3 * 365;
+const WINDOW_DAYS = 31;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Subscription payment received; refunds (T1107) and reversals (T1106) reference it
+const SUBSCRIPTION_PAYMENT_CODE = "T0002";
+const REFUND_CODES = ["T1106", "T1107"];
+const SUBSCRIPTION_GRACE_DAYS = 10;
+// Lapsed subscriptions leave the sync cursor after this long without a payment
+const SUBSCRIPTION_MEMORY_DAYS = 400;
+
+interface PayPalCredentials {
+  clientId: string;
+  clientSecret: string;
+}
+
+interface PayPalMoney {
+  currency_code: string;
+  value: string;
+}
+
+interface PayPalTransaction {
+  transaction_info: {
+    transaction_id: string;
+    transaction_event_code: string;
+    transaction_initiation_date: string;
+    transaction_amount: PayPalMoney;
+    transaction_status: string;
+    paypal_reference_id?: string;
+    paypal_reference_id_type?: string;
+  };
+}
+
+interface SubscriptionPayment {
+  at: number;
+  amount: number;
+  currency: string;
+}
+
+/**
+ * Checkpoint stored between incremental syncs
+ */
+interface PayPalSyncCursor {
+  syncedAt: string; // ISO; transactions before this are in totalRevenue
+  totalRevenue: Record<string, number>; // Per currency
+  subscriptions: Record<string, SubscriptionPayment[]>; // Last two payments of each, oldest first
+}
+
+function readSyncCursor(config: ProviderConnectionConfig): PayPalSyncCursor | null {
+  const cursor = config.syncCursor as Partial<PayPalSyncCursor> | null | undefined;
+  if (config.syncMode !== "incremental" || !cursor) return null;
+  if (typeof cursor.syncedAt !== "string" || Number.isNaN(Date.parse(cursor.syncedAt))) return null;
+  if (!cursor.totalRevenue || typeof cursor.totalRevenue !== "object") return null;
+  if (!cursor.subscriptions || typeof cursor.subscriptions !== "object") return null;
+  return cursor as PayPalSyncCursor;
+}
+
+/**
+ * Credentials stored by connectWithCredentials()
+ *
+ * @throws Error asking to reconnect if they can't be read
+ */
+function readCredentials(accessToken: string): PayPalCredentials {
+  try {
+    const credentials = JSON.parse(accessToken);
+    if (credentials?.clientId && credentials?.clientSecret) return credentials;
+  } catch {
+    // Not JSON; reported below
+  }
+  throw new Error("The stored PayPal credentials can't be read. Reconnect PayPal with a client ID and secret.");
+}
+
+/**
+ * Exchange client credentials for an access token
+ *
+ * @throws Error if PayPal rejects the credentials
+ */
+async function getPayPalAccessToken(credentials: PayPalCredentials): Promise<string> {
+  countProviderRequest();
+  const response = await fetch(`${PAYPAL_API_BASE_URL}/v1/oauth2/token`, {
+    method: "POST",
+    headers: {
+      Authorization: `Basic ${Buffer.from(`${credentials.clientId}:${credentials.clientSecret}`).toString("base64")}`,
+      "Content-Type": "application/x-www-form-urlencoded",
+    },
+    body: new URLSearchParams({ grant_type: "client_credentials" }),
+    cache: "no-store",
+  });
+
+  const body = await response.json().catch(() => null);
+  if (!response.ok || !body?.access_token) {
+    throw new Error(`PayPal token request failed (${response.status}): ${body?.error_description || response.statusText}`);
+  }
+
+  return body.access_token;
+}
+
+async function paypalGet<T>(path: string, accessToken: string): Promise<T> {
+  countProviderRequest();
+  const response = await fetch(`${PAYPAL_API_BASE_URL}${path}`, {
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      "Content-Type": "application/json",
+    },
+    cache: "no-store",
+  });
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(`PayPal API error (${response.status}): ${body?.message || response.statusText}`);
+  }
+
+  return response.json();
+}
+
+/**
+ * Fetch all transactions in [start, end), walking 31-day windows and pages
+ */
+async function listTransactions(start: Date, end: Date, accessToken: string): Promise<PayPalTransaction[]> {
+  let results: PayPalTransaction[] = [];
+
+  for (let windowStart = start; windowStart < end; windowStart = new Date(windowStart.getTime() + WINDOW_DAYS * DAY_MS)) {
+    const windowEnd = new Date(Math.min(windowStart.getTime() + WINDOW_DAYS * DAY_MS, end.getTime()));
+    let page = 1;
+    let totalPages = 1;
+
+    while (page <= totalPages) {
+      const params = new URLSearchParams({
+        start_date: windowStart.toISOString(),
+        end_date: windowEnd.toISOString(),
+        fields: "transaction_info",
+        page_size: "500",
+        page: String(page),
+      });
+
+      const body = await paypalGet<{ transaction_details: PayPalTransaction[]; total_pages: number }>(
+        `/v1/reporting/transactions?${params.toString()}`,
+        accessToken
+      );
+
+      results = results.concat(body.transaction_details || []);
+      totalPages = body.total_pages || 1;
+      page++;
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Billing period closest to the gap between two payments
+ */
+function billingPeriod(gapDays: number): { interval: BillingInterval; count: number; days: number } {
+  if (gapDays <= 10) return { interval: "week", count: 1, days: 7 };
+  if (gapDays <= 45) return { interval: "month", count: 1, days: 30 };
+  if (gapDays <= 120) return { interval: "month", count: 3, days: 91 };
+  if (gapDays <= 240) return { interval: "month", count: 6, days: 182 };
+  return { interval: "year", count: 1, days: 365 };
+}
+
+/**
+ * Monthly amount of a subscription from its payments, or null if it lapsed
+ *
+ * @param payments - Oldest first
+ */
+function subscriptionMonthlyAmount(payments: SubscriptionPayment[], now: number): number | null {
+  const last = payments[payments.length - 1];
+  const previous = payments[payments.length - 2];
+  const period = previous ? billingPeriod((last.at - previous.at) / DAY_MS) : billingPeriod(30);
+
+  if (now - last.at > (period.days + SUBSCRIPTION_GRACE_DAYS) * DAY_MS) return null;
+  return toMonthly(last.amount, period.interval, period.count);
+}
+
+/**
+ * PayPal adapter implementation
+ */
+export const paypalAdapter: PaymentProviderAdapter = {
+  name: "paypal",
+  displayName: "PayPal",
+  authKind: "credentials",
+  logoUrl: "/providers/paypal.svg",
+  description: "Connect a live REST app from the PayPal Developer Dashboard with Transaction Search enabled. MRR is estimated from recurring subscription payments.",
+  credentialFields: [
+    { name: "clientId", label: "Client ID", placeholder: "AbC..." },
+    { name: "clientSecret", label: "Client Secret", placeholder: "EFg...", secret: true },
+  ],
+
+  async connectWithCredentials(fields: Record<string, string>): Promise<ProviderCredentialConnection> {
+    const credentials: PayPalCredentials = {
+      clientId: fields.clientId,
+      clientSecret: fields.clientSecret,
+    };
+
+    try {
+      await getPayPalAccessToken(credentials);
+    } catch {
+      throw new Error("PayPal rejected these credentials. Use a live REST app client ID and secret.");
+    }
+
+    return {
+      providerAccountId: credentials.clientId,
+      accessToken: JSON.stringify(credentials),
+    };
+  },
+
+  async fetchMetrics(config: ProviderConnectionConfig): Promise<ProviderMetrics> {
+    const credentials = readCredentials(config.accessToken);
+    const accessToken = await getPayPalAccessToken(credentials);
+
+    const now = new Date();
+    const thirtyDaysAgo = now.getTime() - (30 * DAY_MS);
+    const cursor = readSyncCursor(config);
+
+    // Incremental: the windows since the last sync, and at least the trailing 30 days
+    const syncedAt = cursor ? Date.parse(cursor.syncedAt) : 0;
+    const start = cursor ? Math.min(syncedAt, thirtyDaysAgo) : now.getTime() - HISTORY_DAYS * DAY_MS;
+    const transactions = await listTransactions(new Date(start), now, accessToken);
+
+    // Calculate revenue from received subscription payments, net of their refunds/reversals
+    // Incremental syncs add what happened since syncedAt to the stored totals
+    const buckets: CurrencyBuckets = {};
+    for (const [currency, amount] of Object.entries(cursor?.totalRevenue || {})) {
+      addToBucket(buckets, currency, "totalRevenue", amount);
+    }
+
+    const paymentsBySubscription = new Map<string, SubscriptionPayment[]>(Object.entries(cursor?.subscriptions || {}));
+    const countedPayments = new Set<string>();
+    const refunds: PayPalTransaction["transaction_info"][] = [];
+
+    for (const { transaction_info: info } of transactions) {
+      if (info.transaction_status !== "S") continue;
+      if (REFUND_CODES.includes(info.transaction_event_code)) {
+        refunds.push(info);
+        continue;
+      }
+
+      const amount = Number(info.transaction_amount.value);
+      if (info.transaction_event_code !== SUBSCRIPTION_PAYMENT_CODE || !(amount > 0)) continue;
+
+      const at = new Date(info.transaction_initiation_date).getTime();
+      const currency = info.transaction_amount.currency_code;
+      countedPayments.add(info.transaction_id);
+
+      if (at >= thirtyDaysAgo) {
+        addToBucket(buckets, currency, "last30dRevenue", amount);
+      }
+      if (at < syncedAt) continue; // Already in the cursor
+
+      addToBucket(buckets, currency, "totalRevenue", amount);
+      if (info.paypal_reference_id_type === "SUB" && info.paypal_reference_id) {
+        const payments = paymentsBySubscription.get(info.paypal_reference_id) || [];
+        paymentsBySubscription.set(info.paypal_reference_id, [...payments, { at, amount, currency }]);
+      }
+    }
+
+    // Refund amounts are negative
+    for (const refund of refunds) {
+      if (!refund.paypal_reference_id || !countedPayments.has(refund.paypal_reference_id)) continue;
+
+      const amount = Number(refund.transaction_amount.value);
+      const at = new Date(refund.transaction_initiation_date).getTime();
+      if (at >= syncedAt) {
+        addToBucket(buckets, refund.transaction_amount.currency_code, "totalRevenue", amount);
+      }
+      if (at >= thirtyDaysAgo) {
+        addToBucket(buckets, refund.transaction_amount.currency_code, "last30dRevenue", amount);
+      }
+    }
+
+    // Calculate MRR from subscriptions that are still being paid
+    let activeSubscriptions = 0;
+    const subscriptions: PayPalSyncCursor["subscriptions"] = {};
+
+    for (const [subscriptionId, allPayments] of Array.from(paymentsBySubscription.entries())) {
+      const payments = allPayments.sort((a, b) => a.at - b.at).slice(-2);
+      if (now.getTime() - payments[payments.length - 1].at <= SUBSCRIPTION_MEMORY_DAYS * DAY_MS) {
+        subscriptions[subscriptionId] = payments;
+      }
+
+      const monthly = subscriptionMonthlyAmount(payments, now.getTime());
+      if (monthly == null) continue;
+
+      addToBucket(buckets, payments[payments.length - 1].currency, "mrr", monthly);
+      activeSubscriptions++;
+    }
+
+    const syncCursor: PayPalSyncCursor = {
+      syncedAt: now.toISOString(),
+      totalRevenue: Object.fromEntries(
+        Object.entries(buckets).map(([currency, amounts]) => [currency, Math.round(amounts.totalRevenue * 100) / 100])
+      ),
+      subscriptions,
+    };
+
+    // Report the primary currency, keep the split in raw
+    const revenueByCurrency = roundBuckets(buckets);
+    const currency = primaryCurrency(revenueByCurrency);
+    const primary = revenueByCurrency[currency] || { mrr: 0, totalRevenue: 0, last30dRevenue: 0 };
+
+    return {
+      currency,
+      mrr: primary.mrr,
+      totalRevenue: primary.totalRevenue,
+      last30dRevenue: primary.last30dRevenue,
+      syncCursor: { ...syncCursor },
+      raw: {
+        syncMode: cursor ? "incremental" : "full",
+        subscriptionCount: activeSubscriptions,
+        transactionCount: transactions.length,
+        revenueByCurrency,
+      },
+    };
+  },
+};
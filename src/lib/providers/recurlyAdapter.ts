@@ -0,0 +1,183 @@
+/**
+ * Recurly Payment Provider Adapter
+ *
+ * Implements PaymentProviderAdapter for Recurly sites (API v2021-02-25).
+ *
+ * This adapter:
+ * - Authenticates with a founder-supplied private API key (no OAuth)
+ * - Calculates MRR from active subscriptions and their plan intervals
+ * - Calculates total revenue from successful purchases/captures, net of refunds
+ * - Calculates last 30 days revenue
+ *
+ * Recurly amounts are decimals in currency units.
+ * RECURLY_API_BASE_URL selects the region (https://v3.eu.recurly.com for EU sites).
+ */
+
+import type {
+  PaymentProviderAdapter,
+  ProviderMetrics,
+  ProviderConnectionConfig,
+  ProviderCredentialConnection,
+} from "./types";
+import { countProviderRequest } from "./requests";
+
+const RECURLY_API_BASE_URL = process.env.RECURLY_API_BASE_URL || "https://v3.recurly.com";
+
+interface RecurlyListResponse<T> {
+  has_more: boolean;
+  next: string | null;
+  data: T[];
+}
+
+interface RecurlySubscription {
+  id: string;
+  state: string;
+  currency: string;
+  subtotal: number; // Per billing period, after add-ons and discounts, before tax
+  plan: { id: string; code: string };
+}
+
+interface RecurlyPlan {
+  id: string;
+  interval_unit: "days" | "months";
+  interval_length: number;
+}
+
+interface RecurlyTransaction {
+  id: string;
+  type: "authorization" | "capture" | "purchase" | "refund" | "verify";
+  status: string;
+  amount: number;
+  currency: string;
+  collected_at: string | null;
+  created_at: string;
+}
+
+interface RecurlySite {
+  id: string;
+  subdomain: string;
+}
+
+/**
+ * Fetch every page of a Recurly list endpoint
+ * Recurly returns the next page as a path with a cursor
+ */
+async function listAll<T>(path: string, apiKey: string): Promise<T[]> {
+  let results: T[] = [];
+  let next: string | null = path;
+
+  while (next) {
+    countProviderRequest();
+    const response: Response = await fetch(`${RECURLY_API_BASE_URL}${next}`, {
+      headers: {
+        Authorization: `Basic ${Buffer.from(`${apiKey}:`).toString("base64")}`,
+        Accept: "application/vnd.recurly.v2021-02-25+json",
+      },
+      cache: "no-store",
+    });
+
+    if (!response.ok) {
+      const body = await response.json().catch(() => null);
+      throw new Error(`Recurly API error (${response.status}): ${body?.error?.message || response.statusText}`);
+    }
+
+    const page: RecurlyListResponse<T> = await response.json();
+    results = results.concat(page.data);
+    next = page.has_more ? page.next : null;
+  }
+
+  return results;
+}
+
+/**
+ * Recurly adapter implementation
+ */
+export const recurlyAdapter: PaymentProviderAdapter = {
+  name: "recurly",
+  displayName: "Recurly",
+  authKind: "credentials",
+  logoUrl: "/providers/recurly.svg",
+  description: "Connect with a private API key from Integrations → API Credentials. Subscriptions, plans and transactions are read to compute MRR and revenue.",
+  credentialFields: [
+    { name: "apiKey", label: "Private API Key", placeholder: "private API key", secret: true },
+  ],
+
+  async connectWithCredentials(fields: Record<string, string>): Promise<ProviderCredentialConnection> {
+    let sites: RecurlySite[];
+    try {
+      sites = await listAll<RecurlySite>("/sites?limit=1", fields.apiKey);
+    } catch (error: any) {
+      console.error("Recurly credential check failed:", error?.message || error);
+      throw new Error("Recurly rejected this API key.");
+    }
+
+    if (sites.length === 0) {
+      throw new Error("No Recurly site is accessible with this API key.");
+    }
+
+    return {
+      providerAccountId: sites[0].subdomain || sites[0].id,
+      accessToken: fields.apiKey,
+    };
+  },
+
+  async fetchMetrics(config: ProviderConnectionConfig): Promise<ProviderMetrics> {
+    const plans = await listAll<RecurlyPlan>("/plans?limit=200", config.accessToken);
+    const plansById = new Map(plans.map((plan) => [plan.id, plan]));
+
+    const subscriptions = await listAll<RecurlySubscription>("/subscriptions?state=active&limit=200", config.accessToken);
+
+    // Calculate MRR from active subscriptions
+    let mrr = 0;
+    const currency = subscriptions[0]?.currency || "EUR";
+
+    for (const subscription of subscriptions) {
+      const plan = plansById.get(subscription.plan.id);
+      const length = plan?.interval_length || 1;
+
+      // Normalize to monthly
+      if (plan?.interval_unit === "days") {
+        mrr += (subscription.subtotal / length) * 30;
+      } else {
+        mrr += subscription.subtotal / length;
+      }
+    }
+
+    // Calculate revenue from successful transactions
+    const transactions = await listAll<RecurlyTransaction>("/transactions?limit=200", config.accessToken);
+    const thirtyDaysAgo = Date.now() - (30 * 24 * 60 * 60 * 1000);
+    let totalRevenue = 0;
+    let last30dRevenue = 0;
+
+    for (const transaction of transactions) {
+      if (transaction.status !== "success") continue;
+
+      let amount = 0;
+      if (transaction.type === "purchase" || transaction.type === "capture") {
+        amount = transaction.amount;
+      } else if (transaction.type === "refund") {
+        amount = -transaction.amount;
+      } else {
+        continue;
+      }
+
+      totalRevenue += amount;
+
+      const collectedAt = new Date(transaction.collected_at || transaction.created_at).getTime();
+      if (collectedAt >= thirtyDaysAgo) {
+        last30dRevenue += amount;
+      }
+    }
+
+    return {
+      currency: currency.toUpperCase(),
+      mrr: Math.round(mrr),
+      totalRevenue: Math.round(totalRevenue),
+      last30dRevenue: Math.round(last30dRevenue),
+      raw: {
+        subscriptionCount: subscriptions.length,
+        transactionCount: transactions.length,
+      },
+    };
+  },
+};
@@ -1,61 +1,109 @@
 /**
  * Provider Adapter Registry
- * 
+ *
  * Central registry for all payment provider adapters.
- * 
+ *
+ * Adapters declare their own id (name), display name, auth kind and logo,
+ * so the provider set is not hard-coded anywhere else.
+ *
  * To add a new provider:
  * 1. Create [provider]Adapter.ts implementing PaymentProviderAdapter
  * 2. Import it here
- * 3. Add it to the adapters record
- * 
+ * 3. Add it to the builtInAdapters list (or call registerProviderAdapter at startup)
+ *
  * Example for Paddle:
  * import { paddleAdapter } from "./paddleAdapter";
- * 
- * const adapters: Record<ProviderName, PaymentProviderAdapter> = {
- *   stripe: stripeAdapter,
- *   paddle: paddleAdapter, // <-- Add here
+ *
+ * const builtInAdapters: PaymentProviderAdapter[] = [
+ *   stripeAdapter,
+ *   paddleAdapter, // <-- Add here
  *   ...
- * };
+ * ];
  */
 
-import type { PaymentProviderAdapter, ProviderName } from "./types";
+import type { PaymentProviderAdapter, ProviderInfo, ProviderName } from "./types";
 import { stripeAdapter } from "./stripeAdapter";
+import { paddleAdapter } from "./paddleAdapter";
+import { mollieAdapter } from "./mollieAdapter";
+import { braintreeAdapter } from "./braintreeAdapter";
+import { paypalAdapter } from "./paypalAdapter";
+import { lemonSqueezyAdapter } from "./lemonSqueezyAdapter";
+import { chargebeeAdapter } from "./chargebeeAdapter";
+import { recurlyAdapter } from "./recurlyAdapter";
 
-// Placeholder stubs for future providers
-const placeholderAdapter: PaymentProviderAdapter = {
-  name: "paddle" as ProviderName,
-  async fetchMetrics() {
-    throw new Error("Provider adapter not yet implemented");
-  },
-};
-
-const adapters: Partial<Record<ProviderName, PaymentProviderAdapter>> = {
-  stripe: stripeAdapter,
-  // Future providers - uncomment and implement when ready:
-  // paddle: paddleAdapter,
-  // braintree: braintreeAdapter,
-  // paypal: paypalAdapter,
-  // mollie: mollieAdapter,
-};
+// Display order on the connect page follows this list
+const builtInAdapters: PaymentProviderAdapter[] = [
+  stripeAdapter,
+  paddleAdapter,
+  lemonSqueezyAdapter,
+  mollieAdapter,
+  chargebeeAdapter,
+  recurlyAdapter,
+  braintreeAdapter,
+  paypalAdapter,
+];
+
+const adapters = new Map<ProviderName, PaymentProviderAdapter>();
+
+/**
+ * Register a provider adapter
+ *
+ * @throws Error if another adapter already uses the same name
+ */
+export function registerProviderAdapter(adapter: PaymentProviderAdapter): void {
+  if (adapters.has(adapter.name)) {
+    throw new Error(`An adapter is already registered for provider: ${adapter.name}`);
+  }
+  if (adapter.authKind === "credentials" && !adapter.connectWithCredentials) {
+    throw new Error(`Credentials provider ${adapter.name} must implement connectWithCredentials`);
+  }
+  adapters.set(adapter.name, adapter);
+}
+
+builtInAdapters.forEach(registerProviderAdapter);
 
 /**
  * Get a provider adapter by name
- * 
+ *
  * @param provider - Provider name (stripe, paddle, etc.)
  * @returns The adapter instance
  * @throws Error if provider is not registered
  */
 export function getProviderAdapter(provider: ProviderName): PaymentProviderAdapter {
-  const adapter = adapters[provider];
+  const adapter = adapters.get(provider);
   if (!adapter) {
-    throw new Error(`No adapter registered for provider: ${provider}. Available: ${Object.keys(adapters).join(", ")}`);
+    throw new Error(`No adapter registered for provider: ${provider}. Available: ${getRegisteredProviders().join(", ")}`);
   }
   return adapter;
 }
 
+/**
+ * Find a provider adapter by name
+ *
+ * @returns The adapter instance, or undefined if provider is not registered
+ */
+export function findProviderAdapter(provider: ProviderName): PaymentProviderAdapter | undefined {
+  return adapters.get(provider);
+}
+
 /**
  * Get list of all registered providers
  */
 export function getRegisteredProviders(): ProviderName[] {
-  return Object.keys(adapters) as ProviderName[];
+  return Array.from(adapters.keys());
+}
+
+/**
+ * Get serializable metadata for all registered providers
+ * Safe to pass from server components to client components
+ */
+export function getProviderInfo(): ProviderInfo[] {
+  return Array.from(adapters.values()).map((adapter) => ({
+    name: adapter.name,
+    displayName: adapter.displayName,
+    authKind: adapter.authKind,
+    logoUrl: adapter.logoUrl,
+    description: adapter.description,
+    credentialFields: adapter.credentialFields,
+  }));
 }
@@ -0,0 +1,52 @@
+/**
+ * Provider request counting
+ *
+ * Adapters call countProviderRequest() before each API call. syncConnection() runs the
+ * adapter inside trackProviderRequests() and stores the count with the sync run.
+ * The count is kept per async context, so parallel syncs don't mix up their numbers.
+ *
+ * Also classifies the errors adapters throw (HTTP status, revoked access).
+ */
+
+import { AsyncLocalStorage } from "node:async_hooks";
+
+export interface ProviderRequestStats {
+  requests: number;
+}
+
+const storage = new AsyncLocalStorage<ProviderRequestStats>();
+
+/**
+ * Run `fn`, counting provider requests into `stats` (still filled in if `fn` throws)
+ */
+export function trackProviderRequests<T>(stats: ProviderRequestStats, fn: () => Promise<T>): Promise<T> {
+  return storage.run(stats, fn);
+}
+
+/**
+ * HTTP status of a provider error, if any
+ * Stripe errors carry `statusCode`; the fetch-based adapters put it in the message ("API error (429): ...")
+ */
+export function providerErrorStatus(error: any): number | null {
+  const status = error?.statusCode ?? error?.status;
+  if (typeof status === "number") return status;
+
+  const match = /\((\d{3})\)/.exec(error?.message || "");
+  return match ? Number(match[1]) : null;
+}
+
+/**
+ * Whether the provider rejected our credentials because access was revoked
+ * (401 for revoked tokens and deleted API keys; Stripe answers account_invalid for deauthorized accounts)
+ */
+export function isRevokedAccessError(error: any): boolean {
+  return providerErrorStatus(error) === 401 || error?.code === "account_invalid";
+}
+
+/**
+ * Count one provider API request; a no-op outside trackProviderRequests()
+ */
+export function countProviderRequest(): void {
+  const stats = storage.getStore();
+  if (stats) stats.requests++;
+}
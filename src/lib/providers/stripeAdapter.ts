@@ -5,9 +5,21 @@
  * 
  * This adapter:
  * - Uses Stripe SDK to fetch subscription and revenue data
- * - Calculates MRR from active subscriptions
- * - Calculates total revenue from all charges/invoices
- * - Calculates last 30 days revenue
+ * - Calculates MRR with the shared MRR module (quantities, discounts, tiered and
+ *   metered prices; trials/past_due/canceling per the MRR policy)
+ * - Calculates total and last 30 days revenue from paid invoices, net of refunds
+ *   and out-of-band credit notes
+ * - Reports MRR per customer for the MRR movement breakdown
+ * - Calculates active customers, ARPA, ARR and 30-day logo/revenue churn
+ * - Reconstructs past MRR and revenue from invoice line periods (backfillHistory)
+ * - Recomputes a single customer's MRR for Connect webhooks (fetchCustomerMrr)
+ * - Supports incremental syncs: revenue totals are carried in the sync cursor and only
+ *   invoices paid and refunds issued since then are read (plus the 30-day window)
+ * - Buckets MRR and revenue per currency (raw.revenueByCurrency); the primary
+ *   currency is returned and the rest is converted when the sync stores the metrics
+ * - Only needs the read_only Connect scope; if the granted scope doesn't cover events or
+ *   credit notes, churn, incremental syncs and out-of-band credit notes are skipped
+ *   (raw.unavailableCapabilities) instead of failing the sync
  * 
  * To add another provider (e.g. Paddle):
  * 1. Create paddleAdapter.ts following this pattern
@@ -16,7 +28,29 @@
  */
 
 import Stripe from "stripe";
-import type { PaymentProviderAdapter, ProviderMetrics, ProviderConnectionConfig } from "./types";
+import type {
+  PaymentProviderAdapter,
+  ProviderMetrics,
+  ProviderConnectionConfig,
+  CustomerMrr,
+  BackfillOptions,
+  HistoryPoint,
+} from "./types";
+import { countProviderRequest } from "./requests";
+import {
+  calculateMrr,
+  churnRate,
+  customerActivity,
+  getMrrPolicy,
+  toMonthly,
+  type CustomerActivity,
+  type MrrPolicy,
+  type PriceTier,
+  type RecurringDiscount,
+  type RecurringSubscription,
+} from "../metrics/mrr";
+import { addToBucket, primaryCurrency, roundBuckets, type CurrencyBuckets } from "../metrics/revenue";
+import { historyDates, reconstructHistory, type RecurringPeriod, type RevenueEvent } from "../metrics/history";
 
 // Initialize Stripe with platform secret key
 // This is used for server-side operations
@@ -25,114 +59,566 @@ const stripe = new Stripe(process.env.STRIPE_PLATFORM_SECRET_KEY || "", {
 });
 
 /**
- * Stripe adapter implementation
+ * Stripe instance for a connected account
+ * The access token is the OAuth token from Stripe Connect
  */
-export const stripeAdapter: PaymentProviderAdapter = {
-  name: "stripe",
+function connectedAccountStripe(config: ProviderConnectionConfig): Stripe {
+  const accountStripe = new Stripe(config.accessToken, {
+    apiVersion: "2023-10-16",
+  });
+  accountStripe.on("request", countProviderRequest);
+  return accountStripe;
+}
 
-  async fetchMetrics(config: ProviderConnectionConfig): Promise<ProviderMetrics> {
-    // Create a Stripe instance for this specific connected account
-    // The access token is the OAuth token from Stripe Connect
-    const accountStripe = new Stripe(config.accessToken, {
-      apiVersion: "2023-10-16",
-    });
+/**
+ * Run an optional read, falling back when the granted scope doesn't allow it
+ * The capability is added to `unavailable` so the sync records what was skipped.
+ */
+async function unlessForbidden<T>(
+  unavailable: string[],
+  capability: string,
+  read: () => Promise<T>,
+  fallback: T
+): Promise<T> {
+  try {
+    return await read();
+  } catch (error: any) {
+    if (error?.type !== "StripePermissionError" && error?.statusCode !== 403) throw error;
+    unavailable.push(capability);
+    return fallback;
+  }
+}
+
+/**
+ * Fetch every page of a Stripe list endpoint
+ */
+async function listAll<T extends { id: string }>(
+  listPage: (startingAfter: string | undefined) => Promise<Stripe.ApiList<T>>
+): Promise<T[]> {
+  let results: T[] = [];
+  let hasMore = true;
+  let startingAfter: string | undefined;
+
+  while (hasMore) {
+    const page = await listPage(startingAfter);
+
+    results = results.concat(page.data);
+    hasMore = page.has_more;
+    if (hasMore && page.data.length > 0) {
+      startingAfter = page.data[page.data.length - 1].id;
+    }
+  }
+
+  return results;
+}
 
-    // Fetch all active subscriptions with pagination
-    // Stripe subscriptions represent recurring revenue
-    let allSubscriptions: Stripe.Subscription[] = [];
-    let hasMore = true;
-    let startingAfter: string | undefined;
+/**
+ * Subscriptions that can count towards MRR under the policy, optionally for one customer
+ * Canceling subscriptions (cancel_at_period_end) are still "active" in Stripe
+ * Discounts are expanded for the MRR calculation
+ */
+async function listCurrentSubscriptions(
+  accountStripe: Stripe,
+  policy: MrrPolicy,
+  customer?: string
+): Promise<Stripe.Subscription[]> {
+  const statuses: Stripe.SubscriptionListParams.Status[] = ["active"];
+  if (policy.includePastDue) statuses.push("past_due");
+  if (policy.includeTrials) statuses.push("trialing");
 
-    while (hasMore) {
-      const subscriptions: Stripe.Response<Stripe.ApiList<Stripe.Subscription>> = await accountStripe.subscriptions.list({
-        status: "active",
+  let subscriptions: Stripe.Subscription[] = [];
+  for (const status of statuses) {
+    subscriptions = subscriptions.concat(await listAll<Stripe.Subscription>((startingAfter) =>
+      accountStripe.subscriptions.list({
+        status,
+        customer,
         limit: 100,
         starting_after: startingAfter,
-      });
+        expand: ["data.discounts", "data.items.data.discounts"],
+      })
+    ));
+  }
 
-      allSubscriptions = allSubscriptions.concat(subscriptions.data);
-      hasMore = subscriptions.has_more;
-      if (hasMore && subscriptions.data.length > 0) {
-        startingAfter = subscriptions.data[subscriptions.data.length - 1].id;
-      }
+  return subscriptions;
+}
+
+/**
+ * Fetch tiers for tiered prices (not included in subscription items)
+ * Each price is fetched once
+ */
+async function fetchTieredPrices(
+  accountStripe: Stripe,
+  subscriptions: Stripe.Subscription[]
+): Promise<Map<string, Stripe.Price>> {
+  const prices = new Map<string, Stripe.Price>();
+
+  for (const subscription of subscriptions) {
+    for (const item of subscription.items.data) {
+      if (item.price.billing_scheme !== "tiered" || prices.has(item.price.id)) continue;
+      prices.set(item.price.id, await accountStripe.prices.retrieve(item.price.id, { expand: ["tiers"] }));
     }
+  }
 
-    // Calculate MRR from active subscriptions
-    // MRR = sum of (subscription amount / billing period in months)
-    let mrr = 0;
-    const currency = allSubscriptions[0]?.currency || "eur";
-
-    for (const subscription of allSubscriptions) {
-      for (const item of subscription.items.data) {
-        const price = item.price;
-        if (!price || !price.recurring) continue;
-
-        const amount = price.unit_amount || 0;
-        const interval = price.recurring.interval;
-        const intervalCount = price.recurring.interval_count || 1;
-
-        // Normalize to monthly
-        let monthlyAmount = 0;
-        if (interval === "month") {
-          monthlyAmount = amount / intervalCount;
-        } else if (interval === "year") {
-          monthlyAmount = (amount / intervalCount) / 12;
-        } else if (interval === "week") {
-          monthlyAmount = (amount / intervalCount) * 4.33; // Average weeks per month
-        } else if (interval === "day") {
-          monthlyAmount = (amount / intervalCount) * 30;
-        }
-
-        mrr += monthlyAmount;
-      }
+  return prices;
+}
+
+/**
+ * Last billed amount per metered subscription item, from each subscription's latest invoice
+ */
+async function fetchMeteredAmounts(
+  accountStripe: Stripe,
+  subscriptions: Stripe.Subscription[]
+): Promise<Map<string, number>> {
+  const amounts = new Map<string, number>();
+
+  for (const subscription of subscriptions) {
+    const meteredItems = subscription.items.data.filter((item) => item.price.recurring?.usage_type === "metered");
+    const invoiceId = typeof subscription.latest_invoice === "string"
+      ? subscription.latest_invoice
+      : subscription.latest_invoice?.id;
+    if (meteredItems.length === 0 || !invoiceId) continue;
+
+    const lines = await accountStripe.invoices.listLineItems(invoiceId, { limit: 100 });
+    for (const item of meteredItems) {
+      const billed = lines.data
+        .filter((line) => line.price?.id === item.price.id && !line.proration)
+        .reduce((sum, line) => sum + line.amount, 0);
+      amounts.set(item.id, billed);
     }
+  }
 
-    // Calculate revenue from invoices (more accurate than charges)
-    // Invoices represent actual revenue, including subscriptions and one-time payments
-    const thirtyDaysAgo = Math.floor(Date.now() / 1000) - (30 * 24 * 60 * 60);
-    let totalRevenue = 0;
-    let last30dRevenue = 0;
+  return amounts;
+}
 
-    // Fetch all paid invoices with pagination
-    let allInvoices: Stripe.Invoice[] = [];
-    hasMore = true;
-    startingAfter = undefined;
+function toRecurringDiscounts(discounts: Array<string | Stripe.Discount>): RecurringDiscount[] {
+  return discounts
+    .filter((discount): discount is Stripe.Discount => typeof discount !== "string")
+    .map((discount) => ({
+      percentOff: discount.coupon.percent_off,
+      amountOff: discount.coupon.amount_off,
+      duration: discount.coupon.duration,
+      endsAt: discount.end,
+    }));
+}
 
-    while (hasMore) {
-      const invoices: Stripe.Response<Stripe.ApiList<Stripe.Invoice>> = await accountStripe.invoices.list({
-        limit: 100,
-        starting_after: startingAfter,
-        status: "paid",
+function decimalAmount(amount: number | null, decimal: string | null): number {
+  return amount ?? (decimal ? parseFloat(decimal) : 0);
+}
+
+interface StripeRevenueEvent extends RevenueEvent {
+  kind?: "invoice" | "refund" | "credit_note";
+  currency: string;
+}
+
+/**
+ * Checkpoint stored between incremental syncs
+ */
+interface StripeSyncCursor {
+  syncedAt: number; // Unix seconds; everything up to here is in totalRevenue
+  totalRevenue: Record<string, number>; // Cents per currency
+}
+
+function readSyncCursor(config: ProviderConnectionConfig, notBefore: number): StripeSyncCursor | null {
+  const cursor = config.syncCursor as Partial<StripeSyncCursor> | null | undefined;
+  if (config.syncMode !== "incremental" || !cursor) return null;
+  if (typeof cursor.syncedAt !== "number" || !cursor.totalRevenue) return null;
+
+  // Stripe keeps events for 30 days; older cursors can't be caught up incrementally
+  return cursor.syncedAt > notBefore ? (cursor as StripeSyncCursor) : null;
+}
+
+/**
+ * Amount of invoices paid in (after, until], from invoice.paid events
+ * Catches invoices created before the cursor but paid after it
+ */
+async function fetchPaidInvoiceEvents(
+  accountStripe: Stripe,
+  after: number,
+  until: number
+): Promise<StripeRevenueEvent[]> {
+  const events = await listAll<Stripe.Event>((startingAfter) =>
+    accountStripe.events.list({
+      type: "invoice.paid",
+      created: { gt: after, lte: until },
+      limit: 100,
+      starting_after: startingAfter,
+    })
+  );
+
+  return events
+    .map((event) => event.data.object as Stripe.Invoice)
+    .filter((invoice) => invoice.amount_paid > 0)
+    .map((invoice) => ({ currency: invoice.currency, at: invoice.created, amount: invoice.amount_paid }));
+}
+
+/**
+ * Revenue as dated events: paid invoices, minus refunds of invoice payments and
+ * out-of-band credit notes. Amounts are in cents.
+ *
+ * @param created - Only read objects created in this range (unix seconds)
+ */
+async function fetchRevenueEvents(
+  accountStripe: Stripe,
+  created?: Stripe.RangeQueryParam,
+  unavailable: string[] = []
+): Promise<{
+  events: StripeRevenueEvent[];
+  invoices: Stripe.Invoice[];
+  refundCount: number;
+  creditNoteCount: number;
+}> {
+  const events: StripeRevenueEvent[] = [];
+
+  // Invoices represent actual revenue, including subscriptions and one-time payments
+  const invoices = await listAll<Stripe.Invoice>((startingAfter) =>
+    accountStripe.invoices.list({ limit: 100, starting_after: startingAfter, status: "paid", created })
+  );
+
+  for (const invoice of invoices) {
+    if (!invoice.amount_paid) continue;
+    events.push({ kind: "invoice", currency: invoice.currency, at: invoice.created, amount: invoice.amount_paid });
+  }
+
+  // Refunds of invoice payments, counted when the refund was issued
+  // Credit notes that refund to the card create one of these refunds as well
+  const refunds = await listAll<Stripe.Refund>((startingAfter) =>
+    accountStripe.refunds.list({ limit: 100, starting_after: startingAfter, created, expand: ["data.charge"] })
+  );
+  let refundCount = 0;
+
+  for (const refund of refunds) {
+    const charge = refund.charge;
+    if (refund.status !== "succeeded" && refund.status !== "pending") continue;
+    if (!charge || typeof charge === "string" || !charge.invoice) continue;
+
+    refundCount++;
+    events.push({ kind: "refund", currency: refund.currency, at: refund.created, amount: -refund.amount });
+  }
+
+  // Credit notes refunded outside Stripe (out of band) have no refund object
+  // Credit to the customer balance is not subtracted: it lowers a later invoice's amount_paid
+  const creditNotes = await unlessForbidden(unavailable, "credit_notes", () =>
+    listAll<Stripe.CreditNote>((startingAfter) =>
+      accountStripe.creditNotes.list({ limit: 100, starting_after: startingAfter, created })
+    ),
+    []
+  );
+
+  for (const creditNote of creditNotes) {
+    if (creditNote.status !== "issued" || !creditNote.out_of_band_amount) continue;
+    events.push({
+      kind: "credit_note",
+      currency: creditNote.currency,
+      at: creditNote.created,
+      amount: -creditNote.out_of_band_amount,
+    });
+  }
+
+  return { events, invoices, refundCount, creditNoteCount: creditNotes.length };
+}
+
+/**
+ * Billed subscription periods from paid invoices, at their monthly amount net of discounts
+ * Prorations are skipped: they adjust a period rather than recur
+ */
+async function fetchRecurringPeriods(
+  accountStripe: Stripe,
+  invoices: Stripe.Invoice[]
+): Promise<Array<RecurringPeriod & { currency: string }>> {
+  const periods: Array<RecurringPeriod & { currency: string }> = [];
+
+  for (const invoice of invoices) {
+    if (!invoice.subscription) continue;
+
+    // Invoices embed their first lines only
+    const lines = invoice.lines.has_more
+      ? await listAll<Stripe.InvoiceLineItem>((startingAfter) =>
+          accountStripe.invoices.listLineItems(invoice.id, { limit: 100, starting_after: startingAfter })
+        )
+      : invoice.lines.data;
+
+    for (const line of lines) {
+      const recurring = line.price?.recurring;
+      if (line.type !== "subscription" || line.proration || !recurring) continue;
+
+      const discounts = (line.discount_amounts || []).reduce((sum, d) => sum + d.amount, 0);
+      periods.push({
+        currency: invoice.currency,
+        start: line.period.start,
+        end: line.period.end,
+        monthlyAmount: toMonthly(line.amount - discounts, recurring.interval, recurring.interval_count || 1),
       });
+    }
+  }
+
+  return periods;
+}
+
+/**
+ * Whether a subscription ended while still in its trial (it never billed)
+ */
+function isEndedTrial(subscription: Stripe.Subscription): boolean {
+  const endedAt = subscription.ended_at || subscription.canceled_at || 0;
+  return !!subscription.trial_end && subscription.trial_end >= endedAt;
+}
+
+/**
+ * Map a Stripe subscription to the provider-neutral shape used by calculateMrr()
+ */
+function toRecurringSubscription(
+  subscription: Stripe.Subscription,
+  tieredPrices: Map<string, Stripe.Price>,
+  meteredAmounts: Map<string, number>
+): RecurringSubscription {
+  // `discount` is the legacy single-discount field, superseded by `discounts`
+  const subscriptionDiscounts = subscription.discounts?.length
+    ? subscription.discounts
+    : subscription.discount ? [subscription.discount] : [];
+
+  return {
+    customerId: typeof subscription.customer === "string" ? subscription.customer : subscription.customer.id,
+    startedAt: subscription.start_date,
+    status: subscription.status,
+    cancelAtPeriodEnd: subscription.cancel_at_period_end,
+    discounts: toRecurringDiscounts(subscriptionDiscounts),
+    items: subscription.items.data
+      .filter((item) => item.price.recurring)
+      .map((item) => {
+        const price = tieredPrices.get(item.price.id) || item.price;
+        const tiers: PriceTier[] = (price.tiers || []).map((tier) => ({
+          upTo: tier.up_to,
+          unitAmount: decimalAmount(tier.unit_amount, tier.unit_amount_decimal),
+          flatAmount: decimalAmount(tier.flat_amount, tier.flat_amount_decimal),
+        }));
+
+        return {
+          interval: price.recurring!.interval,
+          intervalCount: price.recurring!.interval_count || 1,
+          quantity: item.quantity ?? 1,
+          pricing: price.billing_scheme === "tiered"
+            ? { type: "tiered", mode: price.tiers_mode || "graduated", tiers }
+            : {
+                type: "per_unit",
+                unitAmount: decimalAmount(price.unit_amount, price.unit_amount_decimal),
+                packageSize: price.transform_quantity?.divide_by,
+                packageRounding: price.transform_quantity?.round,
+              },
+          metered: price.recurring!.usage_type === "metered",
+          lastBilledAmount: meteredAmounts.get(item.id),
+          discounts: toRecurringDiscounts(item.discounts || []),
+        };
+      }),
+  };
+}
+
+/**
+ * Stripe adapter implementation
+ */
+export const stripeAdapter: PaymentProviderAdapter = {
+  name: "stripe",
+  displayName: "Stripe",
+  authKind: "oauth",
+  logoUrl: "/providers/stripe.svg",
+  description: "Connect your Stripe account via Stripe Connect (read-only access) to sync MRR, total revenue, and last 30 days revenue.",
+
+  async fetchMetrics(config: ProviderConnectionConfig): Promise<ProviderMetrics> {
+    const accountStripe = connectedAccountStripe(config);
+    const unavailable: string[] = [];
+
+    const policy = getMrrPolicy();
+    const allSubscriptions = await listCurrentSubscriptions(accountStripe, policy);
+
+    // Subscriptions that ended in the last 30 days, for churn
+    // Stripe keeps events for 30 days, which is exactly the churn window
+    const thirtyDaysAgo = Math.floor(Date.now() / 1000) - (30 * 24 * 60 * 60);
+    const deletionEvents = await unlessForbidden(unavailable, "events", () =>
+      listAll<Stripe.Event>((startingAfter) =>
+        accountStripe.events.list({
+          type: "customer.subscription.deleted",
+          created: { gte: thirtyDaysAgo },
+          limit: 100,
+          starting_after: startingAfter,
+        })
+      ),
+      []
+    );
+    const hasEvents = !unavailable.includes("events");
+    const endedSubscriptions = deletionEvents
+      .map((event) => event.data.object as Stripe.Subscription)
+      // Trials that ended without paying were never in MRR unless trials are counted
+      .filter((subscription) => policy.includeTrials || !isEndedTrial(subscription));
+
+    // Calculate MRR per currency, net of discounts, with quantities, tiers and metered usage
+    const tieredPrices = await fetchTieredPrices(accountStripe, [...allSubscriptions, ...endedSubscriptions]);
+    const meteredAmounts = await fetchMeteredAmounts(accountStripe, allSubscriptions);
+    const buckets: CurrencyBuckets = {};
+    const customerMrr: CustomerMrr[] = [];
+    const activityByCurrency: Record<string, CustomerActivity> = {};
+    let countedSubscriptions = 0;
+    const excludedSubscriptions = { status: 0, trialing: 0, past_due: 0, canceling: 0 };
+
+    const subscriptionCurrencies = Array.from(new Set(
+      [...allSubscriptions, ...endedSubscriptions].map((s) => s.currency)
+    ));
+    for (const subscriptionCurrency of subscriptionCurrencies) {
+      const current = allSubscriptions
+        .filter((subscription) => subscription.currency === subscriptionCurrency)
+        .map((subscription) => toRecurringSubscription(subscription, tieredPrices, meteredAmounts));
+      const ended = endedSubscriptions
+        .filter((subscription) => subscription.currency === subscriptionCurrency)
+        .map((subscription) => toRecurringSubscription(subscription, tieredPrices, new Map()));
 
-      allInvoices = allInvoices.concat(invoices.data);
-      hasMore = invoices.has_more;
-      if (hasMore && invoices.data.length > 0) {
-        startingAfter = invoices.data[invoices.data.length - 1].id;
+      const mrrResult = calculateMrr(current, policy);
+      activityByCurrency[subscriptionCurrency.toUpperCase()] = customerActivity(current, ended, thirtyDaysAgo, policy);
+
+      addToBucket(buckets, subscriptionCurrency, "mrr", mrrResult.mrr);
+      for (const [customerId, amount] of Object.entries(mrrResult.byCustomer)) {
+        customerMrr.push({ customerId, currency: subscriptionCurrency.toUpperCase(), mrr: Math.round(amount) / 100 });
+      }
+      countedSubscriptions += mrrResult.countedSubscriptions;
+      for (const [reason, count] of Object.entries(mrrResult.excluded)) {
+        excludedSubscriptions[reason as keyof typeof excludedSubscriptions] += count;
       }
     }
 
-    for (const invoice of allInvoices) {
-      if (invoice.amount_paid) {
-        const amount = invoice.amount_paid / 100; // Stripe amounts are in cents
-        totalRevenue += amount;
+    // Calculate revenue from invoices (more accurate than charges), net of refunds
+    // Incremental: previous totals + what was paid/refunded since the cursor; the last
+    // 30 days are always re-read. Full: everything, which also corrects any drift.
+    // Incremental syncs need events; without them every sync is a full one
+    const syncedAt = Math.floor(Date.now() / 1000);
+    const cursor = hasEvents ? readSyncCursor(config, thirtyDaysAgo) : null;
+    const revenue = await fetchRevenueEvents(
+      accountStripe,
+      cursor ? { gte: thirtyDaysAgo, lte: syncedAt } : { lte: syncedAt },
+      unavailable
+    );
+
+    for (const event of revenue.events) {
+      if (event.at >= thirtyDaysAgo) {
+        addToBucket(buckets, event.currency, "last30dRevenue", event.amount);
+      }
+    }
+
+    if (cursor) {
+      for (const [totalCurrency, amount] of Object.entries(cursor.totalRevenue)) {
+        addToBucket(buckets, totalCurrency, "totalRevenue", amount);
+      }
 
-        // Check if invoice is within last 30 days
-        if (invoice.created >= thirtyDaysAgo) {
-          last30dRevenue += amount;
-        }
+      // Refunds and credit notes since the cursor are inside the 30-day window read above
+      const newEvents = [
+        ...revenue.events.filter((event) => event.kind !== "invoice" && event.at > cursor.syncedAt),
+        ...await fetchPaidInvoiceEvents(accountStripe, cursor.syncedAt, syncedAt),
+      ];
+      for (const event of newEvents) {
+        addToBucket(buckets, event.currency, "totalRevenue", event.amount);
+      }
+    } else {
+      for (const event of revenue.events) {
+        addToBucket(buckets, event.currency, "totalRevenue", event.amount);
       }
     }
 
+    const syncCursor: StripeSyncCursor = {
+      syncedAt,
+      totalRevenue: Object.fromEntries(
+        Object.entries(buckets).map(([bucketCurrency, amounts]) => [bucketCurrency, amounts.totalRevenue])
+      ),
+    };
+
+    // Stripe amounts are in cents; report the primary currency, keep the split in raw
+    const revenueByCurrency = roundBuckets(buckets, 100);
+    const currency = primaryCurrency(revenueByCurrency, allSubscriptions[0]?.currency || "eur");
+    const primary = revenueByCurrency[currency] || { mrr: 0, totalRevenue: 0, last30dRevenue: 0 };
+
+    // Customer counts span all currencies; revenue churn is measured in the primary currency
+    const activities = Object.values(activityByCurrency);
+    const activeCustomers = activities.reduce((sum, a) => sum + a.activeCustomers, 0);
+    const newCustomers = activities.reduce((sum, a) => sum + a.newCustomers, 0);
+    const churnedCustomers = activities.reduce((sum, a) => sum + a.churnedCustomers, 0);
+    const primaryActivity = activityByCurrency[currency];
+
     return {
-      currency: currency.toUpperCase(),
-      mrr: Math.round(mrr / 100), // Convert from cents to currency units
-      totalRevenue: Math.round(totalRevenue),
-      last30dRevenue: Math.round(last30dRevenue),
+      currency,
+      mrr: primary.mrr,
+      totalRevenue: primary.totalRevenue,
+      last30dRevenue: primary.last30dRevenue,
+      activeCustomers,
+      arpa: activeCustomers > 0 ? Math.round(primary.mrr / activeCustomers) : 0,
+      arr: primary.mrr * 12,
+      // Churn is unknown without the cancellation events
+      logoChurnRate: hasEvents ? churnRate(activeCustomers, newCustomers, churnedCustomers) : undefined,
+      revenueChurnRate: hasEvents && primaryActivity
+        ? churnRate(primaryActivity.mrr, primaryActivity.newMrr, primaryActivity.churnedMrr)
+        : hasEvents ? 0 : undefined,
+      customerMrr,
+      // No cursor without events: it couldn't be caught up
+      syncCursor: hasEvents ? { ...syncCursor } : undefined,
       raw: {
-        subscriptionCount: allSubscriptions.length,
-        invoiceCount: allInvoices.length,
+        syncMode: cursor ? "incremental" : "full",
+        scope: config.scope || null,
+        unavailableCapabilities: unavailable,
+        subscriptionCount: countedSubscriptions,
+        excludedSubscriptions,
+        mrrPolicy: policy,
+        invoiceCount: revenue.invoices.length,
+        refundCount: revenue.refundCount,
+        newCustomers,
+        churnedCustomers,
+        creditNoteCount: revenue.creditNoteCount,
+        revenueByCurrency,
       },
     };
   },
+
+  async fetchCustomerMrr(config: ProviderConnectionConfig, customerId: string): Promise<CustomerMrr[]> {
+    const accountStripe = connectedAccountStripe(config);
+    const policy = getMrrPolicy();
+    const subscriptions = await listCurrentSubscriptions(accountStripe, policy, customerId);
+
+    const tieredPrices = await fetchTieredPrices(accountStripe, subscriptions);
+    const meteredAmounts = await fetchMeteredAmounts(accountStripe, subscriptions);
+    const customerMrr: CustomerMrr[] = [];
+
+    for (const subscriptionCurrency of Array.from(new Set(subscriptions.map((s) => s.currency)))) {
+      const current = subscriptions
+        .filter((subscription) => subscription.currency === subscriptionCurrency)
+        .map((subscription) => toRecurringSubscription(subscription, tieredPrices, meteredAmounts));
+
+      const amount = calculateMrr(current, policy).byCustomer[customerId];
+      if (amount) {
+        customerMrr.push({ customerId, currency: subscriptionCurrency.toUpperCase(), mrr: Math.round(amount) / 100 });
+      }
+    }
+
+    return customerMrr;
+  },
+
+  async backfillHistory(config: ProviderConnectionConfig, options: BackfillOptions): Promise<HistoryPoint[]> {
+    const accountStripe = connectedAccountStripe(config);
+
+    const revenue = await fetchRevenueEvents(accountStripe);
+    const periods = await fetchRecurringPeriods(accountStripe, revenue.invoices);
+
+    // History is reconstructed in the currency with the most revenue; other currencies are left out
+    const buckets: CurrencyBuckets = {};
+    for (const event of revenue.events) {
+      addToBucket(buckets, event.currency, "totalRevenue", event.amount);
+    }
+    const currency = primaryCurrency(buckets);
+
+    const points = reconstructHistory(
+      periods.filter((period) => period.currency.toUpperCase() === currency),
+      revenue.events.filter((event) => event.currency.toUpperCase() === currency),
+      historyDates(options.since, options.until, options.granularity),
+      currency
+    );
+
+    // Convert from cents to currency units
+    return points.map((point) => ({
+      ...point,
+      mrr: Math.round(point.mrr / 100),
+      totalRevenue: Math.round(point.totalRevenue / 100),
+      last30dRevenue: Math.round(point.last30dRevenue / 100),
+    }));
+  },
 };
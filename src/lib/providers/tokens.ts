@@ -0,0 +1,140 @@
+/**
+ * Provider token refresh
+ *
+ * Keeps OAuth access tokens with an expiry (e.g. Mollie's one-hour tokens) usable:
+ * - ensureFreshToken() refreshes through the adapter's refreshAccessToken() when the token
+ *   expires within TOKEN_REFRESH_MARGIN_MS (or when forced after a 401)
+ * - Rotated tokens are encrypted and written with a compare-and-swap on the stored (encrypted)
+ *   access token, so two syncs refreshing at once can't overwrite each other; the loser
+ *   picks up the stored tokens
+ * - When the provider rejects the refresh token the connection is set to "reauth_required",
+ *   which stops syncing until the founder reconnects
+ *
+ * IMPORTANT: Only use this server-side (uses the service role client)
+ */
+
+import { supabaseAdmin } from "../supabase/server";
+import type { ConnectionToSync } from "../supabase/queries";
+import { getProviderAdapter } from "./registry";
+import { decryptTokens, encryptTokens, type StoredProviderTokens } from "./encryption";
+import type { ProviderConnectionConfig } from "./types";
+
+// Refresh a little before expiry so the token doesn't run out mid-sync
+const TOKEN_REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+/**
+ * Adapter config for a connection's stored credentials
+ */
+export function connectionConfig(conn: ConnectionToSync): ProviderConnectionConfig {
+  return {
+    providerConnectionId: conn.id,
+    providerAccountId: conn.provider_account_id,
+    accessToken: conn.access_token,
+    refreshToken: conn.refresh_token,
+    tokenExpiresAt: conn.token_expires_at,
+    scope: conn.token_scope,
+  };
+}
+
+/**
+ * Whether the connection's adapter can refresh its token and a refresh token is stored
+ */
+export function canRefreshToken(conn: ConnectionToSync): boolean {
+  return !!conn.refresh_token && !!getProviderAdapter(conn.provider).refreshAccessToken;
+}
+
+function expiresSoon(expiresAt: string | null, now: number = Date.now()): boolean {
+  return !!expiresAt && new Date(expiresAt).getTime() - now < TOKEN_REFRESH_MARGIN_MS;
+}
+
+type StoredTokenRow = StoredProviderTokens & { expires_at: string | null };
+
+async function loadStoredTokens(connectionId: string): Promise<StoredTokenRow | null> {
+  const { data } = await supabaseAdmin
+    .from("provider_tokens")
+    .select("access_token, refresh_token, expires_at, key_id, data_key")
+    .eq("provider_connection_id", connectionId)
+    .maybeSingle();
+
+  return data;
+}
+
+/**
+ * Reload the stored tokens into `conn`
+ *
+ * @returns false if they are unchanged (nobody rotated them)
+ */
+async function reloadTokens(conn: ConnectionToSync): Promise<boolean> {
+  const stored = await loadStoredTokens(conn.id);
+  return !!stored && applyStoredTokens(conn, stored);
+}
+
+function applyStoredTokens(conn: ConnectionToSync, stored: StoredTokenRow): boolean {
+  const tokens = decryptTokens(conn.id, stored);
+  if (tokens.accessToken === conn.access_token) return false;
+
+  conn.access_token = tokens.accessToken;
+  conn.refresh_token = tokens.refreshToken || undefined;
+  conn.token_expires_at = stored.expires_at || null;
+  return true;
+}
+
+/**
+ * Refresh the connection's access token if it is about to expire
+ * Updates `conn` in place with the tokens to use.
+ *
+ * @param options.force - Refresh regardless of expiry (the provider answered 401)
+ * @throws Error with code "reauth_required" if the provider rejects the refresh token
+ */
+export async function ensureFreshToken(conn: ConnectionToSync, options: { force?: boolean } = {}): Promise<void> {
+  if (!canRefreshToken(conn)) return;
+  if (!options.force && !expiresSoon(conn.token_expires_at)) return;
+
+  const adapter = getProviderAdapter(conn.provider);
+
+  const stored = await loadStoredTokens(conn.id);
+  if (!stored) throw new Error(`No stored tokens for connection ${conn.id}`);
+
+  // Another sync already refreshed since `conn` was loaded; use its tokens
+  if (applyStoredTokens(conn, stored)) return;
+
+  // Encryption makes every write unique, so the swap compares against the stored ciphertext
+  const previousAccessToken = stored.access_token;
+
+  let refreshed;
+  try {
+    refreshed = await adapter.refreshAccessToken!(connectionConfig(conn));
+  } catch (error: any) {
+    // Another sync may have used the (single-use) refresh token first
+    if (await reloadTokens(conn)) return;
+
+    const message = `Token refresh failed: ${error?.message || error}`;
+    await supabaseAdmin
+      .from("provider_connections")
+      .update({ status: "reauth_required", last_sync_error: message, updated_at: new Date().toISOString() })
+      .eq("id", conn.id);
+
+    throw Object.assign(new Error(`${message}. The connection needs to be re-authorized.`), { code: "reauth_required" });
+  }
+
+  const refreshToken = refreshed.refreshToken === undefined ? conn.refresh_token : refreshed.refreshToken;
+  const { data: updated, error } = await supabaseAdmin
+    .from("provider_tokens")
+    .update({
+      ...encryptTokens(conn.id, { accessToken: refreshed.accessToken, refreshToken }),
+      expires_at: refreshed.expiresAt || null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("provider_connection_id", conn.id)
+    .eq("access_token", previousAccessToken)
+    .select("provider_connection_id");
+
+  if (error) throw new Error(`Failed to store refreshed tokens for connection ${conn.id}: ${error.message}`);
+
+  // Someone else stored newer tokens in the meantime; theirs win
+  if (!updated?.length && await reloadTokens(conn)) return;
+
+  conn.access_token = refreshed.accessToken;
+  conn.refresh_token = refreshToken || undefined;
+  conn.token_expires_at = refreshed.expiresAt || null;
+}
@@ -1,11 +1,63 @@
 /**
  * Provider-agnostic types for payment provider adapters
  * 
- * This architecture allows adding new providers (Paddle, Braintree, PayPal, Mollie)
+ * This architecture allows adding new providers (Paddle, Braintree, PayPal, Mollie, ...)
  * by implementing the PaymentProviderAdapter interface and registering it in registry.ts
  */
 
-export type ProviderName = "stripe" | "paddle" | "braintree" | "paypal" | "mollie";
+/**
+ * Unique provider id declared by each adapter (e.g. "stripe", "lemonsqueezy")
+ * Stored in provider_connections.provider and used in /api/providers/[provider]/* routes
+ */
+export type ProviderName = string;
+
+/**
+ * How founders connect a provider
+ * - oauth: redirect to /api/providers/[provider]/connect, provider calls back to /callback
+ * - credentials: founder enters API keys, posted to /api/providers/[provider]/connect
+ */
+export type ProviderAuthKind = "oauth" | "credentials";
+
+/**
+ * A form field shown for credentials-based providers
+ */
+export interface ProviderCredentialField {
+  name: string; // Key in the JSON body posted to the connect route
+  label: string;
+  placeholder: string;
+  secret?: boolean; // Render as a password input
+}
+
+/**
+ * Serializable provider metadata, safe to pass to client components
+ */
+export interface ProviderInfo {
+  name: ProviderName; // Unique provider id
+  displayName: string; // Human-readable name (e.g. "Lemon Squeezy")
+  authKind: ProviderAuthKind;
+  logoUrl: string; // Path under /public or absolute URL
+  description: string; // Shown on the connect page
+  credentialFields?: ProviderCredentialField[]; // Required when authKind is "credentials"
+}
+
+/**
+ * Result of validating founder-entered credentials
+ * Persisted to provider_connections/provider_tokens by the connect route
+ */
+export interface ProviderCredentialConnection {
+  providerAccountId: string;
+  accessToken: string;
+  scope?: string;
+}
+
+/**
+ * MRR of one paying customer, in the currency they are billed in
+ */
+export interface CustomerMrr {
+  customerId: string; // Provider customer ID
+  currency: string;
+  mrr: number;
+}
 
 /**
  * Standardized metrics structure returned by all provider adapters
@@ -15,9 +67,50 @@ export interface ProviderMetrics {
   mrr: number; // Monthly Recurring Revenue
   totalRevenue: number; // All-time total revenue
   last30dRevenue: number; // Revenue in last 30 days
+  activeCustomers?: number; // Paying customers (MRR > 0)
+  arpa?: number; // Average revenue per account: MRR / active customers
+  arr?: number; // Annual run rate: MRR × 12
+  logoChurnRate?: number; // Share of customers lost over the last 30 days (0-1)
+  revenueChurnRate?: number; // Share of MRR lost to cancellations over the last 30 days (0-1)
+  customerMrr?: CustomerMrr[]; // Optional per-customer MRR, enables the MRR movement breakdown
+  syncCursor?: SyncCursor; // Optional checkpoint for the next incremental sync
   raw?: any; // Optional raw provider response for debugging
 }
 
+/**
+ * Sync modes
+ * - full: re-read all billing history (first sync and periodic reconciliation)
+ * - incremental: start from the stored cursor and read only what changed since
+ */
+export type SyncMode = "full" | "incremental";
+
+/**
+ * Adapter-defined checkpoint stored per connection (provider_connections.sync_cursor)
+ */
+export type SyncCursor = Record<string, unknown>;
+
+export type HistoryGranularity = "month" | "day";
+
+/**
+ * Options for reconstructing past metrics
+ */
+export interface BackfillOptions {
+  granularity: HistoryGranularity;
+  since: string; // YYYY-MM-DD, first date to reconstruct
+  until: string; // YYYY-MM-DD, last date to reconstruct (inclusive)
+}
+
+/**
+ * Metrics as they were at the end of a past day
+ */
+export interface HistoryPoint {
+  date: string; // YYYY-MM-DD
+  currency: string;
+  mrr: number;
+  totalRevenue: number; // Cumulative up to date
+  last30dRevenue: number; // 30 days ending on date
+}
+
 /**
  * Configuration passed to adapter's fetchMetrics method
  * Contains the connection ID and account ID from the database
@@ -27,6 +120,19 @@ export interface ProviderConnectionConfig {
   providerAccountId: string; // Provider-specific account identifier
   accessToken: string; // OAuth access token (retrieved from provider_tokens table)
   refreshToken?: string; // Optional refresh token
+  tokenExpiresAt?: string | null; // When accessToken expires (ISO), null if it doesn't
+  scope?: string | null; // Scope granted with accessToken, as returned by the provider
+  syncMode?: SyncMode; // Adapters without incremental support always do a full sync
+  syncCursor?: SyncCursor | null; // Cursor returned by the previous sync (incremental mode only)
+}
+
+/**
+ * Tokens returned by an adapter's refreshAccessToken()
+ */
+export interface RefreshedTokens {
+  accessToken: string;
+  refreshToken?: string | null; // Set when the provider rotates refresh tokens; omitted keeps the old one
+  expiresAt?: string | null; // ISO timestamp
 }
 
 /**
@@ -37,9 +143,7 @@ export interface ProviderConnectionConfig {
  * 2. Implement this interface
  * 3. Register it in src/lib/providers/registry.ts
  */
-export interface PaymentProviderAdapter {
-  name: ProviderName;
-
+export interface PaymentProviderAdapter extends ProviderInfo {
   /**
    * Fetch the latest metrics from the payment provider
    * 
@@ -53,4 +157,41 @@ export interface PaymentProviderAdapter {
    * @returns Promise resolving to standardized metrics
    */
   fetchMetrics(config: ProviderConnectionConfig): Promise<ProviderMetrics>;
+
+  /**
+   * Validate founder-entered credentials (credentials providers only)
+   * 
+   * @param fields - Values for each of credentialFields
+   * @returns The account ID and token to store
+   * @throws Error with a founder-facing message if the provider rejects them
+   */
+  connectWithCredentials?(fields: Record<string, string>): Promise<ProviderCredentialConnection>;
+
+  /**
+   * Reconstruct past metrics from historical billing data (optional)
+   * 
+   * Run once after connecting so charts don't start empty.
+   * 
+   * @returns One point per month end (or day) between options.since and options.until
+   */
+  backfillHistory?(config: ProviderConnectionConfig, options: BackfillOptions): Promise<HistoryPoint[]>;
+
+  /**
+   * Current MRR of a single customer (optional)
+   * 
+   * Used to apply subscription webhooks without a full sync.
+   * 
+   * @returns One entry per currency the customer pays in; empty if they no longer pay
+   */
+  fetchCustomerMrr?(config: ProviderConnectionConfig, customerId: string): Promise<CustomerMrr[]>;
+
+  /**
+   * Exchange config.refreshToken for a new access token (OAuth providers with expiring tokens)
+   * 
+   * Called before fetchMetrics when the token is about to expire, and once after a 401.
+   * The sync persists the result; adapters don't write tokens themselves.
+   * 
+   * @throws Error if the provider rejects the refresh token (the founder has to re-authorize)
+   */
+  refreshAccessToken?(config: ProviderConnectionConfig): Promise<RefreshedTokens>;
 }
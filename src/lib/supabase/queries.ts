@@ -4,7 +4,13 @@
  */
 
 import { supabaseAdmin } from "./server";
-import type { ProviderName } from "../providers/types";
+import type { ProviderName, SyncCursor } from "../providers/types";
+import { decryptTokens } from "../providers/encryption";
+import { REPORTING_CURRENCY, type FxRates, type FxRateRow } from "../metrics/fx";
+import { reportingValue } from "../metrics/aggregate";
+import type { CurrencyBuckets } from "../metrics/revenue";
+import { rankChange, rankHistorySince, type RankChange, type RankScope, type RankSnapshot } from "../metrics/ranks";
+import { LEADERBOARD_PAGE_SIZE } from "../leaderboard";
 
 export interface Startup {
   id: string;
@@ -26,11 +32,46 @@ export interface StartupMetrics {
   mrr: number;
   total_revenue: number;
   last_30d_revenue: number;
-  provider: string;
+  provider: string; // Primary (largest MRR) provider
+  providers: string[]; // All providers contributing to the combined total
   provider_last_synced_at: string | null;
+  reporting_currency: string | null; // Currency of the *_reporting columns, null until converted
+  mrr_reporting: number | null; // Converted at snapshot time, used for sorting/aggregates
+  total_revenue_reporting: number | null;
+  last_30d_revenue_reporting: number | null;
+  fx_rate_date: string | null; // ECB rate date used for the conversion
+  active_customers: number | null; // Null when no connected provider reports customers
+  arpa: number | null; // Average revenue per account, in `currency`
+  arr: number | null; // MRR × 12, in `currency`
+  logo_churn_rate: number | null; // 30-day share of customers lost (0-1)
+  revenue_churn_rate: number | null; // 30-day share of MRR lost to cancellations (0-1)
+  mrr_growth_mom: number | null; // MRR growth over ~30 days (0.12 = +12%), null below the GROWTH_MIN_MRR floor
+  mrr_growth_3m: number | null; // MRR growth over ~90 days
   updated_at: string;
 }
 
+/**
+ * Metrics for a single provider connection, in the provider's native currency
+ */
+export interface ProviderConnectionMetrics {
+  id: string;
+  provider_connection_id: string;
+  startup_id: string;
+  provider: string;
+  currency: string;
+  mrr: number;
+  total_revenue: number;
+  last_30d_revenue: number;
+  revenue_by_currency: CurrencyBuckets | null; // Per-currency split, amounts above are its sum in `currency`
+  active_customers: number | null;
+  arpa: number | null;
+  arr: number | null;
+  logo_churn_rate: number | null;
+  revenue_churn_rate: number | null;
+  provider_last_synced_at: string | null;
+  connection_status?: string; // connected, error, revoked or reauth_required (detail page only)
+}
+
 export interface Sponsorship {
   id: string;
   startup_id: string;
@@ -45,108 +86,221 @@ export interface Sponsorship {
 
 export interface StartupWithMetrics extends Startup {
   metrics: StartupMetrics | null;
+  verified: boolean; // False once no provider connection can be synced (revoked or needing re-auth)
+  providerMetrics?: ProviderConnectionMetrics[]; // Per-provider breakdown (detail page only)
   sponsorship?: Sponsorship | null;
+  rank?: RankChange | null; // Rank in the listing's scope and how it moved (leaderboards only)
 }
 
 /**
- * Get all startups with their current metrics and active sponsorships
- * 
- * Note: Sponsorships are fetched separately to avoid relational expansion issues
+ * A connected provider with its stored credentials, ready to sync
  */
-export async function getStartupsWithMetrics(filters?: {
+export interface ConnectionToSync {
+  id: string;
+  startup_id: string;
+  provider: string;
+  provider_account_id: string;
+  access_token: string;
+  refresh_token?: string;
+  token_expires_at: string | null;
+  token_scope: string | null;
+  sync_cursor: SyncCursor | null;
+  last_full_sync_at: string | null;
+  consecutive_failures: number;
+}
+
+export type LeaderboardSort =
+  | "mrr"
+  | "last_30d_revenue"
+  | "total_revenue"
+  | "arr"
+  | "arpa"
+  | "active_customers"
+  | "logo_churn_rate"
+  | "revenue_churn_rate"
+  | "mrr_growth_mom"
+  | "mrr_growth_3m";
+
+/**
+ * Leaderboard filters (see src/lib/leaderboard.ts for their URL encoding)
+ * MRR bounds are in the reporting currency
+ */
+export interface StartupFilters {
   country?: string[];
   category?: string[];
   provider?: ProviderName[];
   minMrr?: number;
   maxMrr?: number;
-  sortBy?: "mrr" | "last_30d_revenue" | "total_revenue";
-}): Promise<StartupWithMetrics[]> {
-  // Get all startups with metrics (no sponsorships in select)
-  let query = supabaseAdmin
-    .from("startups")
-    .select(`
-      *,
-      startup_metrics_current (*)
-    `);
+  sortBy?: LeaderboardSort;
+}
 
-  // Apply filters
-  if (filters?.country && filters.country.length > 0) {
-    query = query.in("country", filters.country);
-  }
+/**
+ * Position of a startup in a leaderboard ranking, as returned by leaderboard_page()
+ * The next page starts after the last startup's cursor.
+ */
+export interface LeaderboardCursor {
+  tier: number; // 0 = sponsored, 1 = not
+  missing: number; // 1 if the startup has no value for the sort metric
+  key: string; // Sort key (exact decimal)
+  id: string; // Startup ID (tie-breaker)
+}
 
-  if (filters?.category && filters.category.length > 0) {
-    query = query.in("category", filters.category);
-  }
+export interface LeaderboardPage {
+  startups: StartupWithMetrics[];
+  nextCursor: LeaderboardCursor | null; // Null on the last page
+}
 
-  const { data: startupsData, error } = await query;
+/**
+ * One page of the leaderboard: sponsored startups first, then by the chosen metric
+ * Filtering, ranking and paging happen in SQL (leaderboard_page()); amounts are compared in
+ * the reporting currency so EUR, SEK, USD, ... rank fairly.
+ *
+ * @param after - Cursor of the last startup on the previous page
+ */
+export async function getLeaderboardPage(
+  filters: StartupFilters = {},
+  after: LeaderboardCursor | null = null,
+  limit: number = LEADERBOARD_PAGE_SIZE
+): Promise<LeaderboardPage> {
+  const { data: ranked, error } = await supabaseAdmin.rpc("leaderboard_page", {
+    p_sort: filters.sortBy || "mrr",
+    p_country: filters.country?.length ? filters.country : null,
+    p_category: filters.category?.length ? filters.category : null,
+    p_provider: filters.provider?.length ? filters.provider : null,
+    p_min_mrr: filters.minMrr ?? null,
+    p_max_mrr: filters.maxMrr ?? null,
+    p_after_tier: after?.tier ?? null,
+    p_after_missing: after?.missing ?? null,
+    p_after_key: after?.key ?? null,
+    p_after_id: after?.id ?? null,
+    p_limit: limit + 1, // One extra to know whether there is a next page
+  });
 
   if (error) throw error;
 
-  // Fetch active sponsorships separately
-  const startupIds = (startupsData || []).map((s: any) => s.id);
-  
-  let sponsorships: Sponsorship[] = [];
-  if (startupIds.length > 0) {
-    const { data: sponsorshipsData, error: sponsorshipError } = await supabaseAdmin
-      .from("sponsorships")
-      .select("id, startup_id, type, category, status, stripe_customer_id, stripe_subscription_id, start_date, end_date")
-      .in("startup_id", startupIds)
-      .eq("status", "active");
-
-    if (!sponsorshipError && sponsorshipsData) {
-      sponsorships = sponsorshipsData as Sponsorship[];
-    }
-  }
+  const rows = (ranked || []) as { startup_id: string; tier: number; missing: number; sort_key: string }[];
+  const page = rows.slice(0, limit);
+  const last = page[page.length - 1];
 
-  // Build a map of active sponsorships by startup_id
-  const sponsoredByStartupId = new Map(
-    sponsorships.map((s) => [s.startup_id, s])
-  );
+  return {
+    startups: await getStartupsByIds(page.map((row) => row.startup_id), rankScope(filters)),
+    nextCursor: rows.length > limit && last
+      ? { tier: last.tier, missing: last.missing, key: last.sort_key, id: last.startup_id }
+      : null,
+  };
+}
+
+/**
+ * The startup holding the active category_hero sponsorship for a category, if any
+ * (the most recently started one if several are active)
+ */
+export async function getCategoryHero(category: string): Promise<StartupWithMetrics | null> {
+  const { data, error } = await supabaseAdmin
+    .from("sponsorships")
+    .select("startup_id")
+    .eq("type", "category_hero")
+    .eq("category", category)
+    .eq("status", "active")
+    .order("start_date", { ascending: false, nullsFirst: false })
+    .limit(1);
 
-  // Process startups and attach sponsorships
-  let allStartups = (startupsData || []).map((s: any) => {
-    const activeSponsorship = sponsoredByStartupId.get(s.id) || null;
+  if (error) throw error;
+  if (!data?.length) return null;
 
-    return {
-      ...s,
-      metrics: s.startup_metrics_current?.[0] || null,
-      sponsorship: activeSponsorship,
-    };
-  }) as StartupWithMetrics[];
-
-  // Filter by provider
-  if (filters?.provider && filters.provider.length > 0) {
-    allStartups = allStartups.filter(
-      (s) => s.metrics && filters.provider!.includes(s.metrics.provider as ProviderName)
-    );
-  }
+  const [hero] = await getStartupsByIds([data[0].startup_id], "category");
+  return hero || null;
+}
+
+/**
+ * Rank shown on a leaderboard's cards: within the country or category it is narrowed to, else overall
+ */
+function rankScope(filters: StartupFilters): RankScope {
+  if (filters.country?.length === 1 && !filters.category?.length) return "country";
+  if (filters.category?.length === 1 && !filters.country?.length) return "category";
+  return "overall";
+}
 
-  // Filter by MRR range
-  if (filters?.minMrr !== undefined) {
-    allStartups = allStartups.filter((s) => (s.metrics?.mrr || 0) >= filters.minMrr!);
+/**
+ * Latest rank and its change for each startup, from the last month of startup_rank_history
+ * A failed read just leaves the ranks out.
+ */
+async function getRankChanges(ids: string[], scope: RankScope): Promise<Map<string, RankChange>> {
+  const { data, error } = await supabaseAdmin
+    .from("startup_rank_history")
+    .select("startup_id, snapshot_date, scope, segment, rank, total")
+    .in("startup_id", ids)
+    .eq("scope", scope)
+    .gte("snapshot_date", rankHistorySince(new Date().toISOString().split("T")[0]));
+
+  const changes = new Map<string, RankChange>();
+  if (error) {
+    console.error("Error loading rank history:", error.message);
+    return changes;
   }
-  if (filters?.maxMrr !== undefined) {
-    allStartups = allStartups.filter((s) => (s.metrics?.mrr || 0) <= filters.maxMrr!);
+
+  const byStartup = new Map<string, RankSnapshot[]>();
+  for (const row of (data || []) as (RankSnapshot & { startup_id: string })[]) {
+    byStartup.set(row.startup_id, [...(byStartup.get(row.startup_id) || []), row]);
   }
+  byStartup.forEach((history, startupId) => {
+    const change = rankChange(history, scope);
+    if (change) changes.set(startupId, change);
+  });
 
-  // Sort: First sponsored startups (by MRR), then non-sponsored (by MRR)
-  const sortBy = filters?.sortBy || "mrr";
-  const sponsored = allStartups.filter((s) => s.sponsorship?.status === "active");
-  const nonSponsored = allStartups.filter((s) => !s.sponsorship || s.sponsorship.status !== "active");
+  return changes;
+}
 
-  sponsored.sort((a, b) => {
-    const aVal = a.metrics?.[sortBy] || 0;
-    const bVal = b.metrics?.[sortBy] || 0;
-    return bVal - aVal;
-  });
+/**
+ * Startups with their current metrics, active sponsorships and rank, in the order of `ids`
+ * (at most a page of them: a month of rank history each has to fit in one response)
+ *
+ * Note: Sponsorships are fetched separately to avoid relational expansion issues
+ */
+async function getStartupsByIds(ids: string[], scope: RankScope = "overall"): Promise<StartupWithMetrics[]> {
+  if (ids.length === 0) return [];
 
-  nonSponsored.sort((a, b) => {
-    const aVal = a.metrics?.[sortBy] || 0;
-    const bVal = b.metrics?.[sortBy] || 0;
-    return bVal - aVal;
-  });
+  const { data: startupsData, error } = await supabaseAdmin
+    .from("startups")
+    .select(`
+      *,
+      startup_metrics_current (*),
+      provider_connections (status)
+    `)
+    .in("id", ids);
+
+  if (error) throw error;
 
-  return [...sponsored, ...nonSponsored];
+  const { data: sponsorshipsData, error: sponsorshipError } = await supabaseAdmin
+    .from("sponsorships")
+    .select("id, startup_id, type, category, status, stripe_customer_id, stripe_subscription_id, start_date, end_date")
+    .in("startup_id", ids)
+    .eq("status", "active");
+
+  const sponsoredByStartupId = new Map(
+    (sponsorshipError ? [] : (sponsorshipsData || []) as Sponsorship[]).map((s) => [s.startup_id, s])
+  );
+  const ranks = await getRankChanges(ids, scope);
+
+  const byId = new Map<string, StartupWithMetrics>(
+    (startupsData || []).map((s: any) => [s.id, {
+      ...s,
+      metrics: s.startup_metrics_current?.[0] || null,
+      verified: hasLiveConnection(s.provider_connections),
+      sponsorship: sponsoredByStartupId.get(s.id) || null,
+      rank: ranks.get(s.id) || null,
+    } as StartupWithMetrics])
+  );
+
+  return ids.map((id) => byId.get(id)).filter((s): s is StartupWithMetrics => !!s);
+}
+
+/**
+ * Whether metrics are still being synced: the startup has a connected provider
+ * Revoked, reauth_required and repeatedly failing ("error") connections no longer update the
+ * metrics. Same definition as startup_is_synced() in SQL, which leaderboard ranking uses.
+ */
+function hasLiveConnection(connections: { status: string }[] | null | undefined): boolean {
+  return (connections || []).some((c) => c.status === "connected");
 }
 
 /**
@@ -160,7 +314,8 @@ export async function getStartupBySlug(slug: string): Promise<StartupWithMetrics
     .from("startups")
     .select(`
       *,
-      startup_metrics_current (*)
+      startup_metrics_current (*),
+      provider_connections (id, status)
     `)
     .eq("slug", slug)
     .single();
@@ -180,9 +335,25 @@ export async function getStartupBySlug(slug: string): Promise<StartupWithMetrics
 
   const activeSponsorship = (sponsorshipError || !sponsorshipData) ? null : (sponsorshipData as Sponsorship);
 
+  // Fetch per-provider breakdown
+  const { data: providerMetricsData } = await supabaseAdmin
+    .from("provider_metrics_current")
+    .select("*")
+    .eq("startup_id", startupData.id)
+    .order("mrr", { ascending: false });
+
+  const connectionStatus = new Map<string, string>(
+    (startupData.provider_connections || []).map((c: any) => [c.id, c.status])
+  );
+
   return {
     ...startupData,
     metrics: startupData.startup_metrics_current?.[0] || null,
+    verified: hasLiveConnection(startupData.provider_connections),
+    providerMetrics: (providerMetricsData || []).map((pm: any) => ({
+      ...pm,
+      connection_status: connectionStatus.get(pm.provider_connection_id),
+    })) as ProviderConnectionMetrics[],
     sponsorship: activeSponsorship,
   } as StartupWithMetrics;
 }
@@ -219,65 +390,204 @@ export async function createStartup(data: {
 }
 
 /**
- * Get aggregate metrics (total MRR, startup count)
+ * Get aggregate metrics (total MRR in the reporting currency, startup count)
+ *
+ * @param segment - Only count startups in this country and/or category
  */
-export async function getAggregateMetrics(): Promise<{
+export async function getAggregateMetrics(segment: { country?: string; category?: string } = {}): Promise<{
   totalMrr: number;
+  currency: string;
   startupCount: number;
 }> {
-  const { data: metrics, error } = await supabaseAdmin
+  let metricsQuery = supabaseAdmin
     .from("startup_metrics_current")
-    .select("mrr");
+    .select(segment.country || segment.category ? "mrr, mrr_reporting, startups!inner(country, category)" : "mrr, mrr_reporting");
+  let countQuery = supabaseAdmin
+    .from("startups")
+    .select("*", { count: "exact", head: true })
+    .not("id", "is", null);
+
+  if (segment.country) {
+    metricsQuery = metricsQuery.eq("startups.country", segment.country);
+    countQuery = countQuery.eq("country", segment.country);
+  }
+  if (segment.category) {
+    metricsQuery = metricsQuery.eq("startups.category", segment.category);
+    countQuery = countQuery.eq("category", segment.category);
+  }
+
+  const { data: metrics, error } = await metricsQuery;
 
   if (error) throw error;
 
-  const totalMrr = (metrics || []).reduce((sum, m) => sum + (m.mrr || 0), 0);
+  const totalMrr = ((metrics || []) as any[]).reduce((sum, m) => sum + reportingValue(m, "mrr"), 0);
 
-  const { count } = await supabaseAdmin
-    .from("startups")
-    .select("*", { count: "exact", head: true })
-    .not("id", "is", null);
+  const { count } = await countQuery;
 
   return {
     totalMrr: Math.round(totalMrr),
+    currency: REPORTING_CURRENCY,
     startupCount: count || 0,
   };
 }
 
 /**
- * Get all provider connections that need syncing
+ * Get the most recent FX rates on or before a date
+ * 
+ * @param onDate - YYYY-MM-DD, defaults to today
  */
-export async function getConnectionsToSync(): Promise<
-  Array<{
-    id: string;
-    startup_id: string;
-    provider: string;
-    provider_account_id: string;
-    access_token: string;
-    refresh_token?: string;
-  }>
-> {
+export async function getFxRates(onDate?: string): Promise<FxRates> {
+  const date = onDate || new Date().toISOString().split("T")[0];
+
+  const { data: latest, error: latestError } = await supabaseAdmin
+    .from("fx_rates")
+    .select("rate_date")
+    .lte("rate_date", date)
+    .order("rate_date", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (latestError) throw latestError;
+  if (!latest) return { date: null, rates: {} };
+
   const { data, error } = await supabaseAdmin
+    .from("fx_rates")
+    .select("currency, rate")
+    .eq("rate_date", latest.rate_date);
+
+  if (error) throw error;
+
+  return {
+    date: latest.rate_date,
+    rates: Object.fromEntries((data || []).map((r) => [r.currency, Number(r.rate)])),
+  };
+}
+
+/**
+ * Insert or update FX rates
+ * 
+ * @returns Number of rows written
+ */
+export async function upsertFxRates(rows: FxRateRow[], source: string = "ecb"): Promise<number> {
+  const batchSize = 1000;
+
+  for (let i = 0; i < rows.length; i += batchSize) {
+    const batch = rows.slice(i, i + batchSize).map((row) => ({ ...row, source }));
+    const { error } = await supabaseAdmin
+      .from("fx_rates")
+      .upsert(batch, { onConflict: "currency,rate_date" });
+
+    if (error) throw error;
+  }
+
+  return rows.length;
+}
+
+/**
+ * Fill the reporting columns of metrics already in the reporting currency
+ * Other currencies are converted on their next recompute.
+ *
+ * @returns Number of current and history rows updated
+ */
+export async function backfillReportingMetrics(currency: string = REPORTING_CURRENCY): Promise<number> {
+  const { data, error } = await supabaseAdmin.rpc("backfill_reporting_metrics", { p_currency: currency });
+  if (error) throw error;
+  return Number(data) || 0;
+}
+
+/**
+ * Get all provider connections that need syncing
+ * 
+ * @param startupId - Optionally limit to one startup's connections
+ * @param includeErrored - Also return connections in status "error" (manual retries)
+ */
+export async function getConnectionsToSync(
+  startupId?: string,
+  includeErrored: boolean = false
+): Promise<ConnectionToSync[]> {
+  let query = supabaseAdmin
     .from("provider_connections")
     .select(`
       id,
       startup_id,
       provider,
       provider_account_id,
-      provider_tokens (access_token, refresh_token)
+      sync_cursor,
+      last_full_sync_at,
+      consecutive_failures,
+      provider_tokens (access_token, refresh_token, expires_at, scope, key_id, data_key)
     `)
-    .eq("status", "connected");
+    .in("status", includeErrored ? ["connected", "error"] : ["connected"]);
+
+  if (startupId) {
+    query = query.eq("startup_id", startupId);
+  }
+
+  const { data, error } = await query;
 
   if (error) throw error;
 
-  return (data || [])
-    .filter((conn: any) => conn.provider_tokens && conn.provider_tokens.length > 0)
-    .map((conn: any) => ({
+  const connections: ConnectionToSync[] = [];
+  for (const conn of (data || []) as any[]) {
+    if (!conn.provider_tokens || conn.provider_tokens.length === 0) continue;
+
+    // One unreadable row shouldn't stop every other connection from syncing
+    let tokens;
+    try {
+      tokens = decryptTokens(conn.id, conn.provider_tokens[0]);
+    } catch (error: any) {
+      console.error(`Cannot decrypt tokens for connection ${conn.id}:`, error.message);
+      continue;
+    }
+
+    connections.push({
       id: conn.id,
       startup_id: conn.startup_id,
       provider: conn.provider,
       provider_account_id: conn.provider_account_id,
-      access_token: conn.provider_tokens[0].access_token,
-      refresh_token: conn.provider_tokens[0].refresh_token || undefined,
-    }));
+      access_token: tokens.accessToken,
+      refresh_token: tokens.refreshToken || undefined,
+      token_expires_at: conn.provider_tokens[0].expires_at || null,
+      token_scope: conn.provider_tokens[0].scope || null,
+      sync_cursor: conn.sync_cursor || null,
+      last_full_sync_at: conn.last_full_sync_at || null,
+      consecutive_failures: conn.consecutive_failures || 0,
+    });
+  }
+
+  return connections;
+}
+
+export interface SyncRun {
+  id: string;
+  provider_connection_id: string;
+  provider: string;
+  trigger: string;
+  sync_mode: string;
+  status: "running" | "succeeded" | "failed";
+  started_at: string;
+  finished_at: string | null;
+  duration_ms: number | null;
+  provider_requests: number | null;
+  currency: string | null;
+  mrr: number | null;
+  mrr_delta: number | null;
+  total_revenue_delta: number | null;
+  last_30d_revenue_delta: number | null;
+  error: string | null;
+}
+
+/**
+ * Latest sync runs of a startup's connections, newest first (admin only)
+ */
+export async function getSyncRuns(startupId: string, limit: number = 20): Promise<SyncRun[]> {
+  const { data, error } = await supabaseAdmin
+    .from("sync_runs")
+    .select("*")
+    .eq("startup_id", startupId)
+    .order("started_at", { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+  return (data || []) as SyncRun[];
 }
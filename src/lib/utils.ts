@@ -17,17 +17,39 @@ export function formatCurrency(amount: number, currency: string = "EUR"): string
   }).format(amount);
 }
 
+/**
+ * Get the display symbol for a currency (e.g. "€", "$", "SEK")
+ */
+export function currencySymbol(currency: string = "EUR"): string {
+  const parts = new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: currency.toUpperCase(),
+    currencyDisplay: "narrowSymbol",
+  }).formatToParts(0);
+  return parts.find((part) => part.type === "currency")?.value || currency.toUpperCase();
+}
+
 /**
  * Format large numbers with K/M suffixes
  */
-export function formatCompact(amount: number): string {
+export function formatCompact(amount: number, currency: string = "EUR"): string {
+  const symbol = currencySymbol(currency);
+  const prefix = symbol.length > 1 ? `${symbol} ` : symbol;
+
   if (amount >= 1000000) {
-    return `€${(amount / 1000000).toFixed(1)}M`;
+    return `${prefix}${(amount / 1000000).toFixed(1)}M`;
   }
   if (amount >= 1000) {
-    return `€${(amount / 1000).toFixed(1)}k`;
+    return `${prefix}${(amount / 1000).toFixed(1)}k`;
   }
-  return `€${amount.toFixed(0)}`;
+  return `${prefix}${amount.toFixed(0)}`;
+}
+
+/**
+ * Format a fraction as a percentage (0.052 -> "5.2%")
+ */
+export function formatPercent(fraction: number): string {
+  return `${(Number(fraction) * 100).toFixed(1)}%`;
 }
 
 /**
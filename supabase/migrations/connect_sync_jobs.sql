@@ -0,0 +1,28 @@
+-- First sync of a new connection through the sync job queue
+-- Connect routes queue a full sync that also backfills past history, instead of syncing
+-- inline in the OAuth callback (which bypassed the per-connection lock and could time out).
+
+ALTER TABLE public.sync_jobs
+  ADD COLUMN IF NOT EXISTS backfill BOOLEAN NOT NULL DEFAULT FALSE; -- Also backfill history after syncing
+
+-- Queue a full sync with backfill for one connection. A job already waiting for the
+-- connection is upgraded instead; one already running is left alone (returns FALSE).
+CREATE OR REPLACE FUNCTION public.enqueue_connection_sync(p_connection_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+AS $$
+  WITH queued AS (
+    INSERT INTO public.sync_jobs (provider_connection_id, startup_id, full_sync, backfill)
+    SELECT pc.id, pc.startup_id, TRUE, TRUE
+    FROM public.provider_connections pc
+    WHERE pc.id = p_connection_id
+      AND pc.status = 'connected'
+    ON CONFLICT (provider_connection_id) WHERE status IN ('queued', 'running')
+    DO UPDATE SET full_sync = TRUE, backfill = TRUE, run_after = NOW(), updated_at = NOW()
+      WHERE public.sync_jobs.status = 'queued'
+    RETURNING 1
+  )
+  SELECT EXISTS (SELECT 1 FROM queued);
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.enqueue_connection_sync(UUID) FROM PUBLIC, anon, authenticated;
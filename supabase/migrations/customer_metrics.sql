@@ -0,0 +1,28 @@
+-- Customer metrics: active customers, ARPA, ARR, logo churn and revenue churn
+-- Reported by adapters that can see customers (e.g. Stripe); NULL for the others.
+-- Churn rates are fractions (0.05 = 5%) over the trailing 30 days.
+
+ALTER TABLE public.provider_metrics_current
+  ADD COLUMN IF NOT EXISTS active_customers INTEGER,
+  ADD COLUMN IF NOT EXISTS arpa NUMERIC,
+  ADD COLUMN IF NOT EXISTS arr NUMERIC,
+  ADD COLUMN IF NOT EXISTS logo_churn_rate NUMERIC,
+  ADD COLUMN IF NOT EXISTS revenue_churn_rate NUMERIC;
+
+ALTER TABLE public.startup_metrics_current
+  ADD COLUMN IF NOT EXISTS active_customers INTEGER,
+  ADD COLUMN IF NOT EXISTS arpa NUMERIC,
+  ADD COLUMN IF NOT EXISTS arr NUMERIC,
+  ADD COLUMN IF NOT EXISTS logo_churn_rate NUMERIC,
+  ADD COLUMN IF NOT EXISTS revenue_churn_rate NUMERIC;
+
+ALTER TABLE public.startup_metrics_history
+  ADD COLUMN IF NOT EXISTS active_customers INTEGER,
+  ADD COLUMN IF NOT EXISTS arpa NUMERIC,
+  ADD COLUMN IF NOT EXISTS arr NUMERIC,
+  ADD COLUMN IF NOT EXISTS logo_churn_rate NUMERIC,
+  ADD COLUMN IF NOT EXISTS revenue_churn_rate NUMERIC;
+
+-- ARR is derived from MRR for every provider
+UPDATE public.provider_metrics_current SET arr = mrr * 12 WHERE arr IS NULL;
+UPDATE public.startup_metrics_current SET arr = mrr * 12 WHERE arr IS NULL;
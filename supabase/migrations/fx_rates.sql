@@ -0,0 +1,66 @@
+-- FX rates and reporting-currency metrics
+-- Rates are stored ECB-style: units of `currency` per 1 EUR on `rate_date`.
+-- Load them with `npm run fx:load -- path/to/eurofxref-hist.csv`.
+
+CREATE TABLE IF NOT EXISTS public.fx_rates (
+  currency TEXT NOT NULL, -- ISO currency code (USD, SEK, ...)
+  rate_date DATE NOT NULL,
+  rate NUMERIC NOT NULL, -- Units of currency per 1 EUR
+  source TEXT NOT NULL DEFAULT 'ecb',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (currency, rate_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_fx_rates_date ON public.fx_rates(rate_date DESC);
+
+-- Server-only (service role bypasses RLS)
+ALTER TABLE public.fx_rates ENABLE ROW LEVEL SECURITY;
+
+-- Metrics converted to the reporting currency (REPORTING_CURRENCY) at snapshot time
+-- Native values stay in mrr/total_revenue/last_30d_revenue + currency
+-- reporting_currency is NULL until a row has been converted
+ALTER TABLE public.startup_metrics_current
+  ADD COLUMN IF NOT EXISTS reporting_currency TEXT,
+  ADD COLUMN IF NOT EXISTS mrr_reporting NUMERIC,
+  ADD COLUMN IF NOT EXISTS total_revenue_reporting NUMERIC,
+  ADD COLUMN IF NOT EXISTS last_30d_revenue_reporting NUMERIC,
+  ADD COLUMN IF NOT EXISTS fx_rate_date DATE;
+
+ALTER TABLE public.startup_metrics_history
+  ADD COLUMN IF NOT EXISTS reporting_currency TEXT,
+  ADD COLUMN IF NOT EXISTS mrr_reporting NUMERIC,
+  ADD COLUMN IF NOT EXISTS total_revenue_reporting NUMERIC,
+  ADD COLUMN IF NOT EXISTS last_30d_revenue_reporting NUMERIC,
+  ADD COLUMN IF NOT EXISTS fx_rate_date DATE;
+
+-- Fill in rows already in the reporting currency until their next recompute
+-- Run by `npm run fx:load` with REPORTING_CURRENCY; returns the number of rows updated.
+CREATE OR REPLACE FUNCTION public.backfill_reporting_metrics(p_currency TEXT)
+RETURNS INTEGER
+LANGUAGE sql
+VOLATILE
+AS $$
+  WITH current_rows AS (
+    UPDATE public.startup_metrics_current
+      SET reporting_currency = UPPER(p_currency),
+          mrr_reporting = mrr,
+          total_revenue_reporting = total_revenue,
+          last_30d_revenue_reporting = last_30d_revenue
+      WHERE UPPER(currency) = UPPER(p_currency) AND mrr_reporting IS NULL
+    RETURNING 1
+  ),
+  history_rows AS (
+    UPDATE public.startup_metrics_history
+      SET reporting_currency = UPPER(p_currency),
+          mrr_reporting = mrr,
+          total_revenue_reporting = total_revenue,
+          last_30d_revenue_reporting = last_30d_revenue
+      WHERE UPPER(currency) = UPPER(p_currency) AND mrr_reporting IS NULL
+    RETURNING 1
+  )
+  SELECT ((SELECT COUNT(*) FROM current_rows) + (SELECT COUNT(*) FROM history_rows))::INTEGER;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.backfill_reporting_metrics(TEXT) FROM PUBLIC, anon, authenticated;
+
+CREATE INDEX IF NOT EXISTS idx_metrics_mrr_reporting ON public.startup_metrics_current(mrr_reporting DESC NULLS LAST);
@@ -0,0 +1,108 @@
+-- Leaderboard ranking in SQL
+-- leaderboard_page() filters startups, ranks them (sponsored first, then the chosen metric,
+-- startups without a value last) and returns one page after a keyset cursor, so the app
+-- only loads the listings it shows.
+--
+-- Amounts are compared in the reporting currency, falling back to native values for
+-- metrics synced before conversion (like reportingValue() in src/lib/metrics/aggregate.ts).
+-- Each row carries its position (tier, missing, sort_key, startup_id); pass the last row's
+-- position as p_after_* to get the next page. sort_key is text so it round-trips exactly.
+--
+-- What later migrations change lives in small helpers, so leaderboard_page() is defined once:
+-- leaderboard_sort_key() (new sorts, see mrr_growth.sql) and leaderboard_rankable() (which
+-- startups rank, see synced_rankings.sql).
+
+-- Whether a startup's metrics rank; those that don't sort last and don't match MRR filters
+-- Every startup for now; synced_rankings.sql narrows it.
+CREATE OR REPLACE FUNCTION public.leaderboard_rankable(p_startup_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT TRUE;
+$$;
+
+-- Ascending sort key: higher-is-better metrics are negated, churn (lower is better) is not
+-- NULL when the startup has no value for the sort.
+CREATE OR REPLACE FUNCTION public.leaderboard_sort_key(p_sort TEXT, m public.startup_metrics_current)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT CASE p_sort
+    WHEN 'last_30d_revenue' THEN -COALESCE(m.last_30d_revenue_reporting, m.last_30d_revenue)
+    WHEN 'total_revenue' THEN -COALESCE(m.total_revenue_reporting, m.total_revenue)
+    WHEN 'arr' THEN -COALESCE(m.mrr_reporting, m.mrr) * 12
+    WHEN 'arpa' THEN -(COALESCE(m.mrr_reporting, m.mrr) / NULLIF(m.active_customers, 0))
+    WHEN 'active_customers' THEN -m.active_customers
+    WHEN 'logo_churn_rate' THEN m.logo_churn_rate
+    WHEN 'revenue_churn_rate' THEN m.revenue_churn_rate
+    ELSE -COALESCE(m.mrr_reporting, m.mrr)
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.leaderboard_page(
+  p_sort TEXT DEFAULT 'mrr',
+  p_country TEXT[] DEFAULT NULL,
+  p_category TEXT[] DEFAULT NULL,
+  p_provider TEXT[] DEFAULT NULL,
+  p_min_mrr NUMERIC DEFAULT NULL,
+  p_max_mrr NUMERIC DEFAULT NULL,
+  p_after_tier INTEGER DEFAULT NULL,
+  p_after_missing INTEGER DEFAULT NULL,
+  p_after_key NUMERIC DEFAULT NULL,
+  p_after_id UUID DEFAULT NULL,
+  p_limit INTEGER DEFAULT 24
+)
+RETURNS TABLE (startup_id UUID, tier INTEGER, missing INTEGER, sort_key TEXT)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH entries AS (
+    SELECT
+      s.id,
+      -- 0 = sponsored, 1 = everyone else
+      CASE WHEN EXISTS (
+        SELECT 1 FROM public.sponsorships sp WHERE sp.startup_id = s.id AND sp.status = 'active'
+      ) THEN 0 ELSE 1 END AS tier,
+      CASE WHEN v.rankable THEN public.leaderboard_sort_key(p_sort, m) END AS raw_key
+    FROM public.startups s
+    LEFT JOIN public.startup_metrics_current m ON m.startup_id = s.id
+    CROSS JOIN LATERAL (SELECT public.leaderboard_rankable(s.id) AS rankable) r
+    CROSS JOIN LATERAL (
+      SELECT
+        r.rankable,
+        CASE WHEN r.rankable THEN COALESCE(m.mrr_reporting, m.mrr) END AS mrr
+    ) v
+    WHERE (p_country IS NULL OR s.country = ANY(p_country))
+      AND (p_category IS NULL OR s.category = ANY(p_category))
+      -- Any contributing provider matches
+      AND (p_provider IS NULL OR (
+        m.startup_id IS NOT NULL
+        AND (CASE WHEN cardinality(m.providers) > 0 THEN m.providers ELSE ARRAY[m.provider] END) && p_provider
+      ))
+      AND (p_min_mrr IS NULL OR COALESCE(v.mrr, 0) >= p_min_mrr)
+      AND (p_max_mrr IS NULL OR COALESCE(v.mrr, 0) <= p_max_mrr)
+  ),
+  ranked AS (
+    SELECT
+      id,
+      tier,
+      CASE WHEN raw_key IS NULL THEN 1 ELSE 0 END AS missing,
+      -- Rounded so the cursor compares exactly against the same value on the next page
+      ROUND(COALESCE(raw_key, 0), 6) AS sort_key
+    FROM entries
+  )
+  SELECT id, tier, missing, sort_key::TEXT
+  FROM ranked
+  WHERE p_after_id IS NULL
+     OR (tier, missing, sort_key, id) > (p_after_tier, p_after_missing, p_after_key, p_after_id)
+  ORDER BY tier, missing, sort_key, id
+  LIMIT LEAST(GREATEST(p_limit, 1), 100);
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.leaderboard_rankable(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.leaderboard_sort_key(TEXT, public.startup_metrics_current) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.leaderboard_page(
+  TEXT, TEXT[], TEXT[], TEXT[], NUMERIC, NUMERIC, INTEGER, INTEGER, NUMERIC, UUID, INTEGER
+) FROM PUBLIC, anon, authenticated;
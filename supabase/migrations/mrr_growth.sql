@@ -0,0 +1,30 @@
+-- MRR growth: month-over-month and 3-month growth of each startup's MRR
+-- Computed from startup_metrics_history on every recompute (see src/lib/metrics/growth.ts).
+-- Fractions (0.12 = +12%); NULL without a snapshot from back then or when that MRR was
+-- below the GROWTH_MIN_MRR floor.
+--
+-- Replaces leaderboard_sort_key() (see leaderboard_page.sql) to add the "Fastest Growing"
+-- sorts (mrr_growth_mom, mrr_growth_3m); startups without a growth rate rank last.
+
+ALTER TABLE public.startup_metrics_current
+  ADD COLUMN IF NOT EXISTS mrr_growth_mom NUMERIC,
+  ADD COLUMN IF NOT EXISTS mrr_growth_3m NUMERIC;
+
+CREATE OR REPLACE FUNCTION public.leaderboard_sort_key(p_sort TEXT, m public.startup_metrics_current)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT CASE p_sort
+    WHEN 'last_30d_revenue' THEN -COALESCE(m.last_30d_revenue_reporting, m.last_30d_revenue)
+    WHEN 'total_revenue' THEN -COALESCE(m.total_revenue_reporting, m.total_revenue)
+    WHEN 'arr' THEN -COALESCE(m.mrr_reporting, m.mrr) * 12
+    WHEN 'arpa' THEN -(COALESCE(m.mrr_reporting, m.mrr) / NULLIF(m.active_customers, 0))
+    WHEN 'active_customers' THEN -m.active_customers
+    WHEN 'logo_churn_rate' THEN m.logo_churn_rate
+    WHEN 'revenue_churn_rate' THEN m.revenue_churn_rate
+    WHEN 'mrr_growth_mom' THEN -m.mrr_growth_mom
+    WHEN 'mrr_growth_3m' THEN -m.mrr_growth_3m
+    ELSE -COALESCE(m.mrr_reporting, m.mrr)
+  END;
+$$;
@@ -0,0 +1,57 @@
+-- MRR movements (new, expansion, contraction, churn, reactivation)
+-- Derived by diffing each customer's MRR between syncs, for adapters that report
+-- per-customer MRR. The daily per-startup totals are stored alongside the
+-- startup_metrics_history snapshot and charted per month on the startup page.
+
+-- Last known MRR per customer, currency and connection (mrr = 0 means churned)
+-- A customer billed in several currencies has one row per currency
+CREATE TABLE IF NOT EXISTS public.provider_customer_mrr (
+  provider_connection_id UUID NOT NULL REFERENCES public.provider_connections(id) ON DELETE CASCADE,
+  customer_id TEXT NOT NULL, -- Provider customer ID
+  currency TEXT NOT NULL,
+  mrr NUMERIC NOT NULL DEFAULT 0,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (provider_connection_id, customer_id, currency)
+);
+
+-- Server-only (service role bypasses RLS); customer IDs are never public
+ALTER TABLE public.provider_customer_mrr ENABLE ROW LEVEL SECURITY;
+
+-- Movements per connection per day, in the connection's currency
+CREATE TABLE IF NOT EXISTS public.mrr_movements (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  provider_connection_id UUID NOT NULL REFERENCES public.provider_connections(id) ON DELETE CASCADE,
+  startup_id UUID NOT NULL REFERENCES public.startups(id) ON DELETE CASCADE,
+  movement_date DATE NOT NULL,
+  currency TEXT NOT NULL,
+  new_mrr NUMERIC NOT NULL DEFAULT 0,
+  expansion_mrr NUMERIC NOT NULL DEFAULT 0,
+  contraction_mrr NUMERIC NOT NULL DEFAULT 0, -- Positive amount lost
+  churned_mrr NUMERIC NOT NULL DEFAULT 0, -- Positive amount lost
+  reactivation_mrr NUMERIC NOT NULL DEFAULT 0,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE(provider_connection_id, movement_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_mrr_movements_startup_date ON public.mrr_movements(startup_id, movement_date DESC);
+
+-- Enable RLS (public read, like startup_metrics_history)
+ALTER TABLE public.mrr_movements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "mrr_movements_select_anon" ON public.mrr_movements
+  FOR SELECT
+  TO anon
+  USING (true);
+
+CREATE POLICY "mrr_movements_select_auth" ON public.mrr_movements
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Startup-level totals for the day, in the snapshot's currency
+ALTER TABLE public.startup_metrics_history
+  ADD COLUMN IF NOT EXISTS new_mrr NUMERIC NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS expansion_mrr NUMERIC NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS contraction_mrr NUMERIC NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS churned_mrr NUMERIC NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS reactivation_mrr NUMERIC NOT NULL DEFAULT 0;
@@ -0,0 +1,16 @@
+-- OAuth state nonces for provider connect flows
+-- The connect route stores a nonce per flow; the callback deletes it, so every state is
+-- single-use. The signature binding it to the browser session lives in the state itself.
+
+CREATE TABLE IF NOT EXISTS public.oauth_states (
+  nonce TEXT PRIMARY KEY,
+  provider TEXT NOT NULL,
+  startup_id UUID NOT NULL REFERENCES public.startups(id) ON DELETE CASCADE,
+  expires_at TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_oauth_states_expires ON public.oauth_states(expires_at);
+
+-- Server-only (service role bypasses RLS)
+ALTER TABLE public.oauth_states ENABLE ROW LEVEL SECURITY;
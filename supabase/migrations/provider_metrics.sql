@@ -0,0 +1,59 @@
+-- Per-connection metrics
+-- A startup can connect several providers (e.g. Stripe and Paddle). Each connection
+-- keeps its own metrics row in its native currency; startup_metrics_current holds the
+-- combined startup-level total recomputed after every sync.
+
+CREATE TABLE IF NOT EXISTS public.provider_metrics_current (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  provider_connection_id UUID NOT NULL REFERENCES public.provider_connections(id) ON DELETE CASCADE,
+  startup_id UUID NOT NULL REFERENCES public.startups(id) ON DELETE CASCADE,
+  provider TEXT NOT NULL,
+  currency TEXT NOT NULL DEFAULT 'EUR', -- Native currency reported by the provider
+  mrr NUMERIC NOT NULL DEFAULT 0,
+  total_revenue NUMERIC NOT NULL DEFAULT 0,
+  last_30d_revenue NUMERIC NOT NULL DEFAULT 0,
+  provider_last_synced_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE(provider_connection_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_provider_metrics_startup ON public.provider_metrics_current(startup_id);
+
+-- Providers contributing to the combined startup total
+-- `provider` remains the primary (largest MRR) provider for display
+ALTER TABLE public.startup_metrics_current
+  ADD COLUMN IF NOT EXISTS providers TEXT[] NOT NULL DEFAULT '{}';
+
+UPDATE public.startup_metrics_current
+  SET providers = ARRAY[provider]
+  WHERE providers = '{}';
+
+CREATE INDEX IF NOT EXISTS idx_metrics_providers ON public.startup_metrics_current USING GIN(providers);
+
+-- Backfill per-connection rows from the existing single-provider snapshots
+INSERT INTO public.provider_metrics_current (
+  provider_connection_id, startup_id, provider, currency, mrr, total_revenue, last_30d_revenue, provider_last_synced_at
+)
+SELECT pc.id, m.startup_id, m.provider, m.currency, m.mrr, m.total_revenue, m.last_30d_revenue, m.provider_last_synced_at
+FROM public.startup_metrics_current m
+JOIN public.provider_connections pc
+  ON pc.startup_id = m.startup_id AND pc.provider = m.provider
+ON CONFLICT (provider_connection_id) DO NOTHING;
+
+-- Enable RLS (public read, like startup_metrics_current)
+ALTER TABLE public.provider_metrics_current ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "provider_metrics_current_select_anon" ON public.provider_metrics_current
+  FOR SELECT
+  TO anon
+  USING (true);
+
+CREATE POLICY "provider_metrics_current_select_auth" ON public.provider_metrics_current
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE TRIGGER update_provider_metrics_current_updated_at
+  BEFORE UPDATE ON public.provider_metrics_current
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
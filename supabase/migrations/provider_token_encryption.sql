@@ -0,0 +1,12 @@
+-- Envelope encryption for provider_tokens
+-- access_token/refresh_token hold AES-256-GCM ciphertext under a per-row data key;
+-- data_key is that key wrapped with the master key key_id (TOKEN_ENCRYPTION_KEYS).
+-- Rows with a NULL key_id are plaintext from before encryption; encrypt them with
+-- `npm run tokens:reencrypt`, which also moves rows to a newly added master key.
+
+ALTER TABLE public.provider_tokens
+  ADD COLUMN IF NOT EXISTS key_id TEXT,
+  ADD COLUMN IF NOT EXISTS data_key TEXT;
+
+-- Finds rows still on an old key (or unencrypted) during rotation
+CREATE INDEX IF NOT EXISTS idx_provider_tokens_key_id ON public.provider_tokens(key_id);
@@ -0,0 +1,15 @@
+-- Provider webhook events already applied (Stripe Connect)
+-- Stripe delivers events at least once; the event ID makes applying them idempotent.
+
+CREATE TABLE IF NOT EXISTS public.provider_webhook_events (
+  event_id TEXT PRIMARY KEY, -- Provider event ID (evt_...)
+  provider TEXT NOT NULL,
+  provider_account_id TEXT,
+  type TEXT NOT NULL,
+  received_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_provider_webhook_events_received ON public.provider_webhook_events(received_at);
+
+-- Server-only (service role bypasses RLS)
+ALTER TABLE public.provider_webhook_events ENABLE ROW LEVEL SECURITY;
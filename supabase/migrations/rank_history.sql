@@ -0,0 +1,76 @@
+-- Leaderboard rank history
+-- One row per startup, day and scope: its MRR rank overall, within its country and within
+-- its category. snapshot_leaderboard_ranks() writes the day's ranks after each cron sync;
+-- cards compare against yesterday / last week / last month and the startup page charts them.
+--
+-- Ranks are by MRR in the reporting currency (native before conversion, like leaderboard_page())
+-- among startups with metrics that rank (leaderboard_rankable()); sponsorships don't affect
+-- them. Ties share a rank.
+
+CREATE TABLE IF NOT EXISTS public.startup_rank_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  startup_id UUID NOT NULL REFERENCES public.startups(id) ON DELETE CASCADE,
+  snapshot_date DATE NOT NULL,
+  scope TEXT NOT NULL CHECK (scope IN ('overall', 'country', 'category')),
+  segment TEXT NOT NULL DEFAULT '', -- Country code or category ranked within; '' for overall
+  rank INTEGER NOT NULL, -- 1 = highest MRR
+  total INTEGER NOT NULL, -- Startups ranked in the segment that day
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE(startup_id, scope, snapshot_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_rank_history_date ON public.startup_rank_history(snapshot_date DESC);
+
+-- Enable RLS (public read, like startup_metrics_history)
+ALTER TABLE public.startup_rank_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "startup_rank_history_select_anon" ON public.startup_rank_history
+  FOR SELECT
+  TO anon
+  USING (true);
+
+CREATE POLICY "startup_rank_history_select_auth" ON public.startup_rank_history
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Store (or refresh) every startup's ranks for a day
+-- Returns the number of rows written.
+CREATE OR REPLACE FUNCTION public.snapshot_leaderboard_ranks(p_date DATE DEFAULT CURRENT_DATE)
+RETURNS INTEGER
+LANGUAGE sql
+VOLATILE
+AS $$
+  WITH listed AS (
+    SELECT s.id, s.country, s.category, COALESCE(m.mrr_reporting, m.mrr) AS mrr
+    FROM public.startups s
+    JOIN public.startup_metrics_current m ON m.startup_id = s.id
+    WHERE public.leaderboard_rankable(s.id)
+  ),
+  ranks AS (
+    SELECT id, 'overall' AS scope, '' AS segment,
+      RANK() OVER (ORDER BY mrr DESC) AS rank,
+      COUNT(*) OVER () AS total
+    FROM listed
+    UNION ALL
+    SELECT id, 'country', country,
+      RANK() OVER (PARTITION BY country ORDER BY mrr DESC),
+      COUNT(*) OVER (PARTITION BY country)
+    FROM listed
+    UNION ALL
+    SELECT id, 'category', category,
+      RANK() OVER (PARTITION BY category ORDER BY mrr DESC),
+      COUNT(*) OVER (PARTITION BY category)
+    FROM listed
+  ),
+  saved AS (
+    INSERT INTO public.startup_rank_history (startup_id, snapshot_date, scope, segment, rank, total)
+    SELECT id, p_date, scope, segment, rank, total FROM ranks
+    ON CONFLICT (startup_id, scope, snapshot_date) DO UPDATE
+      SET segment = EXCLUDED.segment, rank = EXCLUDED.rank, total = EXCLUDED.total
+    RETURNING 1
+  )
+  SELECT COUNT(*)::INTEGER FROM saved;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.snapshot_leaderboard_ranks(DATE) FROM PUBLIC, anon, authenticated;
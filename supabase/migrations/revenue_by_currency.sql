@@ -0,0 +1,7 @@
+-- Per-currency split of a connection's metrics
+-- Accounts billing in several currencies store the split as reported by the adapter:
+--   { "EUR": { "mrr": 1200, "totalRevenue": 54000, "last30dRevenue": 1300 }, "USD": { ... } }
+-- mrr/total_revenue/last_30d_revenue hold the sum converted to `currency` (the primary one).
+
+ALTER TABLE public.provider_metrics_current
+  ADD COLUMN IF NOT EXISTS revenue_by_currency JSONB;
@@ -0,0 +1,17 @@
+-- Ownership claim links
+-- An admin issues a single-use link for a listing (/api/admin/startups/[id]/owner-claim) and
+-- sends it to the founder, e.g. to the email on their website or provider account. Opening it
+-- records that browser in startup_owner_sessions. This is how listings created before
+-- startup_owner_sessions get an owner, and how founders connect from a new browser.
+
+CREATE TABLE IF NOT EXISTS public.startup_owner_claims (
+  token_hash TEXT PRIMARY KEY, -- SHA-256 of the token in the link
+  startup_id UUID NOT NULL REFERENCES public.startups(id) ON DELETE CASCADE,
+  expires_at TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_startup_owner_claims_expires ON public.startup_owner_claims(expires_at);
+
+-- Server-only (service role bypasses RLS)
+ALTER TABLE public.startup_owner_claims ENABLE ROW LEVEL SECURITY;
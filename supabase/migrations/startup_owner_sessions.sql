@@ -0,0 +1,15 @@
+-- Listing ownership for provider connect flows
+-- /api/startups/create records the creating browser's oauth_session (hashed); connect routes
+-- only let that browser connect or replace the listing's providers.
+-- Listings created before this migration have no owner until one is claimed with a link from
+-- the admin panel (startup_owner_claims.sql).
+
+CREATE TABLE IF NOT EXISTS public.startup_owner_sessions (
+  startup_id UUID NOT NULL REFERENCES public.startups(id) ON DELETE CASCADE,
+  session_hash TEXT NOT NULL, -- SHA-256 of the oauth_session cookie value
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (startup_id, session_hash)
+);
+
+-- Server-only (service role bypasses RLS)
+ALTER TABLE public.startup_owner_sessions ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,7 @@
+-- Incremental sync checkpoint per provider connection
+-- sync_cursor is adapter-defined (e.g. Stripe keeps the last sync time and revenue totals).
+-- last_full_sync_at drives the periodic full reconciliation (FULL_SYNC_INTERVAL_DAYS).
+
+ALTER TABLE public.provider_connections
+  ADD COLUMN IF NOT EXISTS sync_cursor JSONB,
+  ADD COLUMN IF NOT EXISTS last_full_sync_at TIMESTAMPTZ;
@@ -0,0 +1,78 @@
+-- Sync job queue
+-- The cron route enqueues one job per connected provider connection and drains the
+-- queue with a bounded number of workers (see src/lib/metrics/queue.ts). Failed jobs
+-- are retried with exponential backoff when the provider was rate limiting or down.
+
+CREATE TABLE IF NOT EXISTS public.sync_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  provider_connection_id UUID NOT NULL REFERENCES public.provider_connections(id) ON DELETE CASCADE,
+  startup_id UUID NOT NULL REFERENCES public.startups(id) ON DELETE CASCADE,
+  full_sync BOOLEAN NOT NULL DEFAULT FALSE, -- Force a full reconciliation
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'succeeded', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 5,
+  run_after TIMESTAMPTZ NOT NULL DEFAULT NOW(), -- Not claimed before this (backoff)
+  locked_by TEXT, -- Worker ID holding the job
+  locked_at TIMESTAMPTZ,
+  last_error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  finished_at TIMESTAMPTZ
+);
+
+-- At most one pending or running job per connection (the per-connection lock)
+CREATE UNIQUE INDEX IF NOT EXISTS idx_sync_jobs_active_connection
+  ON public.sync_jobs(provider_connection_id)
+  WHERE status IN ('queued', 'running');
+
+CREATE INDEX IF NOT EXISTS idx_sync_jobs_due ON public.sync_jobs(run_after) WHERE status = 'queued';
+
+-- Server-only (service role bypasses RLS)
+ALTER TABLE public.sync_jobs ENABLE ROW LEVEL SECURITY;
+
+-- Queue a job for every connected connection (optionally one startup's) that has none pending
+CREATE OR REPLACE FUNCTION public.enqueue_sync_jobs(p_startup_id UUID DEFAULT NULL, p_full BOOLEAN DEFAULT FALSE)
+RETURNS INTEGER
+LANGUAGE sql
+AS $$
+  WITH inserted AS (
+    INSERT INTO public.sync_jobs (provider_connection_id, startup_id, full_sync)
+    SELECT pc.id, pc.startup_id, p_full
+    FROM public.provider_connections pc
+    WHERE pc.status = 'connected'
+      AND (p_startup_id IS NULL OR pc.startup_id = p_startup_id)
+    ON CONFLICT DO NOTHING
+    RETURNING 1
+  )
+  SELECT COUNT(*)::INTEGER FROM inserted;
+$$;
+
+-- Claim due jobs for a worker. SKIP LOCKED lets several workers claim concurrently;
+-- jobs left running longer than p_lock_timeout (a crashed worker) are claimed again.
+CREATE OR REPLACE FUNCTION public.claim_sync_jobs(
+  p_worker TEXT,
+  p_limit INTEGER DEFAULT 1,
+  p_lock_timeout INTERVAL DEFAULT INTERVAL '15 minutes'
+)
+RETURNS SETOF public.sync_jobs
+LANGUAGE sql
+AS $$
+  UPDATE public.sync_jobs j
+  SET status = 'running',
+      locked_by = p_worker,
+      locked_at = NOW(),
+      attempts = j.attempts + 1,
+      updated_at = NOW()
+  WHERE j.id IN (
+    SELECT id FROM public.sync_jobs
+    WHERE (status = 'queued' AND run_after <= NOW())
+       OR (status = 'running' AND locked_at < NOW() - p_lock_timeout)
+    ORDER BY run_after
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING j.*;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.enqueue_sync_jobs(UUID, BOOLEAN) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.claim_sync_jobs(TEXT, INTEGER, INTERVAL) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,35 @@
+-- Sync run history
+-- One row per sync attempt of a provider connection (cron/worker, admin "Sync Now",
+-- first sync after connecting), shown per startup in the admin dashboard.
+-- Connections are set to status 'error' after repeated consecutive failures and are
+-- no longer synced by the cron until an admin sync succeeds.
+
+CREATE TABLE IF NOT EXISTS public.sync_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  provider_connection_id UUID NOT NULL REFERENCES public.provider_connections(id) ON DELETE CASCADE,
+  startup_id UUID NOT NULL REFERENCES public.startups(id) ON DELETE CASCADE,
+  provider TEXT NOT NULL,
+  trigger TEXT NOT NULL, -- worker, admin, connect
+  sync_mode TEXT NOT NULL, -- full, incremental
+  status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'succeeded', 'failed')),
+  started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  finished_at TIMESTAMPTZ,
+  duration_ms INTEGER,
+  provider_requests INTEGER,
+  currency TEXT,
+  mrr NUMERIC, -- After the sync
+  mrr_delta NUMERIC, -- Change against the previously stored metrics
+  total_revenue_delta NUMERIC,
+  last_30d_revenue_delta NUMERIC,
+  error TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_sync_runs_startup_started ON public.sync_runs(startup_id, started_at DESC);
+CREATE INDEX IF NOT EXISTS idx_sync_runs_connection_started ON public.sync_runs(provider_connection_id, started_at DESC);
+
+-- Server-only (service role bypasses RLS); errors can contain provider details
+ALTER TABLE public.sync_runs ENABLE ROW LEVEL SECURITY;
+
+ALTER TABLE public.provider_connections
+  ADD COLUMN IF NOT EXISTS consecutive_failures INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS last_sync_error TEXT;
@@ -0,0 +1,32 @@
+-- Rank only startups whose metrics are still being synced
+-- Metrics stay in startup_metrics_current when a startup's last connected provider is revoked,
+-- needs re-auth or keeps failing (status "error"), so the listing can show its last numbers
+-- as unverified. Those numbers are no longer updated, so they shouldn't hold a rank.
+--
+-- startup_is_synced() is the one definition of a verified listing; hasLiveConnection() in
+-- src/lib/supabase/queries.ts applies the same rule to the "Unverified" badge.
+--
+-- Replaces leaderboard_rankable() (see leaderboard_page.sql), so in leaderboard_page() these
+-- startups sort last, like missing values, and don't match MRR filters, and
+-- snapshot_leaderboard_ranks() doesn't rank them.
+
+-- Whether a startup's metrics are still being synced (it has a connected provider)
+CREATE OR REPLACE FUNCTION public.startup_is_synced(p_startup_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.provider_connections pc WHERE pc.startup_id = p_startup_id AND pc.status = 'connected'
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.leaderboard_rankable(p_startup_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT public.startup_is_synced(p_startup_id);
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.startup_is_synced(UUID) FROM PUBLIC, anon, authenticated;
@@ -34,7 +34,7 @@ CREATE TABLE provider_connections (
   startup_id UUID NOT NULL REFERENCES startups(id) ON DELETE CASCADE,
   provider TEXT NOT NULL, -- e.g. stripe, paddle, braintree, paypal, mollie
   provider_account_id TEXT NOT NULL, -- e.g. Stripe account ID
-  status TEXT NOT NULL DEFAULT 'connected', -- connected, revoked, error
+  status TEXT NOT NULL DEFAULT 'connected', -- connected, revoked, error, reauth_required
   connected_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
   last_synced_at TIMESTAMPTZ,
   created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
@@ -54,8 +54,8 @@ CREATE INDEX idx_provider_connections_status ON provider_connections(status);
 CREATE TABLE provider_tokens (
   id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
   provider_connection_id UUID NOT NULL REFERENCES provider_connections(id) ON DELETE CASCADE,
-  access_token TEXT NOT NULL, -- Encrypted or protected by RLS
-  refresh_token TEXT, -- Optional refresh token
+  access_token TEXT NOT NULL, -- Encrypted (see migrations/provider_token_encryption.sql)
+  refresh_token TEXT, -- Optional refresh token, encrypted
   scope TEXT, -- OAuth scopes granted
   expires_at TIMESTAMPTZ, -- Token expiration if applicable
   created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),